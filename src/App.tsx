@@ -6,20 +6,30 @@ import ElectricityDashboard from "./ElectricityDashboard";
 import RatedCapacity from "./RatedCapacity";
 import LatestNews from "./LatestNews";
 import LatestReports from "./LatestReports";
+import StorageErrorBanner from "./StorageErrorBanner";
+import WorkspaceMenu from "./WorkspaceMenu";
+import { buildSeriesTabs, toDashboardProps } from "./seriesRegistry";
 
 export default function App() {
+  // Series tabs (and Generation-style sub-tabs) come from the registry
+  const seriesTabs = buildSeriesTabs();
+
   return (
     <div className="min-h-screen bg-slate-50">
       <div className="mx-auto max-w-7xl px-4 pt-4">
+        <StorageErrorBanner />
+        <WorkspaceMenu />
+
         <Tabs>
           <div className="mt-2">
             <TabList>
-              <Tab>Generation</Tab>
-              <Tab>Peak Demand Met</Tab>
-              <Tab>Supply</Tab>
-              <Tab>Coal PLF</Tab>
-              <Tab>RTM Prices</Tab>
-              <Tab>DAM Prices</Tab>
+              {seriesTabs.map((node) =>
+                node.kind === "group" ? (
+                  <Tab key={node.group.id}>{node.group.label}</Tab>
+                ) : (
+                  <Tab key={node.series.id}>{node.series.tabLabel}</Tab>
+                )
+              )}
               <Tab>Rated Capacity</Tab>
               <Tab>Latest News</Tab>
               <Tab>Latest Reports</Tab>
@@ -27,182 +37,33 @@ export default function App() {
           </div>
 
           {/* ===========================
-              Generation (WITH SUB-TABS)
+              Series tabs (registry)
               =========================== */}
-          <TabPanel>
-            <Tabs>
-              <div className="mt-2">
-                <TabList>
-                  {/* 🔁 LABEL CHANGES ONLY */}
-                  <Tab>Total</Tab>
-                  <Tab>Thermal (incl. Large Hydro)</Tab>
-                  <Tab>Renewable</Tab>
-                </TabList>
-              </div>
-
-              {/* Total = total */}
-              <TabPanel>
-                <ElectricityDashboard
-                  type="generation"
-                  title="India Electricity Generation Dashboard"
-                  subtitle="Daily generation data, trends, and YoY/MoM analytics"
-                  seriesLabel="Generation"
-                  unitLabel="MU"
-                  valueColumnKey="total"
-                  defaultCsvPath="/data/generation.csv"
-                  enableAutoFetch={true}
-                  calcMode="sum"
-                  valueDisplay={{
-                    suffix: " MU",
-                    decimals: 2,
-                  }}
-                />
-              </TabPanel>
+          {seriesTabs.map((node) =>
+            node.kind === "group" ? (
+              <TabPanel key={node.group.id}>
+                <Tabs>
+                  <div className="mt-2">
+                    <TabList>
+                      {node.children.map((s) => (
+                        <Tab key={s.id}>{s.tabLabel}</Tab>
+                      ))}
+                    </TabList>
+                  </div>
 
-              {/* Thermal (incl. Large Hydro) = coal */}
-              <TabPanel>
-                <ElectricityDashboard
-                  type="generation-coal"
-                  title="India Electricity Generation Dashboard"
-                  subtitle="Daily generation data, trends, and YoY/MoM analytics"
-                  seriesLabel="Coal"
-                  unitLabel="MU"
-                  valueColumnKey="coal"
-                  defaultCsvPath="/data/generation.csv"
-                  enableAutoFetch={false}
-                  calcMode="sum"
-                  valueDisplay={{
-                    suffix: " MU",
-                    decimals: 2,
-                  }}
-                />
+                  {node.children.map((s) => (
+                    <TabPanel key={s.id}>
+                      <ElectricityDashboard {...toDashboardProps(s)} />
+                    </TabPanel>
+                  ))}
+                </Tabs>
               </TabPanel>
-
-              {/* Renewable = renewable */}
-              <TabPanel>
-                <ElectricityDashboard
-                  type="generation-renewable"
-                  title="India Electricity Generation Dashboard"
-                  subtitle="Daily generation data, trends, and YoY/MoM analytics"
-                  seriesLabel="Renewable"
-                  unitLabel="MU"
-                  valueColumnKey="renewable"
-                  defaultCsvPath="/data/generation.csv"
-                  enableAutoFetch={false}
-                  calcMode="sum"
-                  valueDisplay={{
-                    suffix: " MU",
-                    decimals: 2,
-                  }}
-                />
+            ) : (
+              <TabPanel key={node.series.id}>
+                <ElectricityDashboard {...toDashboardProps(node.series)} />
               </TabPanel>
-            </Tabs>
-          </TabPanel>
-
-          {/* ===========================
-              Peak Demand Met
-              =========================== */}
-          <TabPanel>
-            <ElectricityDashboard
-              type="demand"
-              title="India Peak Demand Met Dashboard"
-              subtitle="Daily peak demand met data (GW), trends, and YoY/MoM analytics"
-              seriesLabel="Peak Demand Met"
-              unitLabel="GW"
-              valueColumnKey="demand_gwh"
-              defaultCsvPath="/data/Peak Demand.csv"
-              enableAutoFetch={false}
-              calcMode="avg"
-              valueDisplay={{
-                suffix: " GW",
-                decimals: 2,
-              }}
-            />
-          </TabPanel>
-
-          {/* ===========================
-              Supply
-              =========================== */}
-          <TabPanel>
-            <ElectricityDashboard
-              type="supply"
-              title="India Electricity Supply Dashboard"
-              subtitle="Daily supply data, trends, and YoY/MoM analytics"
-              seriesLabel="Supply"
-              unitLabel="MU"
-              valueColumnKey="supply_gwh"
-              defaultCsvPath="/data/supply.csv"
-              enableAutoFetch={false}
-              calcMode="sum"
-              valueDisplay={{
-                suffix: " MU",
-                decimals: 2,
-              }}
-            />
-          </TabPanel>
-
-          {/* ===========================
-              Coal PLF
-              =========================== */}
-          <TabPanel>
-            <ElectricityDashboard
-              type="coal-plf"
-              title="India Coal PLF Dashboard"
-              subtitle="Coal PLF trends, period averages, and YoY/WoW analytics"
-              seriesLabel="Coal PLF"
-              unitLabel="%"
-              valueColumnKey="coal_plf"
-              defaultCsvPath="/data/Coal PLF.csv"
-              enableAutoFetch={false}
-              calcMode="avg"
-              valueDisplay={{
-                suffix: "%",
-                decimals: 2,
-              }}
-            />
-          </TabPanel>
-
-          {/* ===========================
-              RTM Prices
-              =========================== */}
-          <TabPanel>
-            <ElectricityDashboard
-              type="rtm-prices"
-              title="India RTM Prices Dashboard"
-              subtitle="RTM price trends, period averages, and YoY/WoW analytics"
-              seriesLabel="RTM Prices"
-              unitLabel="Rs/Unit"
-              valueColumnKey="rtm_price"
-              defaultCsvPath="/data/RTM Prices.csv"
-              enableAutoFetch={false}
-              calcMode="avg"
-              valueDisplay={{
-                suffix: " Rs/Unit",
-                decimals: 2,
-              }}
-            />
-          </TabPanel>
-
-          {/* ===========================
-              DAM Prices (NEW TAB)
-              =========================== */}
-          <TabPanel>
-            <ElectricityDashboard
-              type="dam-prices"
-              title="India DAM Prices Dashboard"
-              subtitle="DAM price trends, period averages, and YoY/WoW analytics"
-              seriesLabel="DAM Prices"
-              unitLabel="Rs/Unit"
-              valueColumnKey="DAM price"
-              defaultCsvPath="/data/DAM Prices.csv"
-              enableAutoFetch={false}
-              calcMode="avg"
-              valueDisplay={{
-                suffix: " Rs/Unit",
-                decimals: 2,
-              }}
-            />
-          </TabPanel>
+            )
+          )}
 
           {/* ===========================
               Rated Capacity
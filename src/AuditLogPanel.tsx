@@ -0,0 +1,180 @@
+import React, { useState } from "react";
+import { canRedo, canUndo, JOURNAL_ACTION_LABELS, peekRedo, peekUndo } from "./journal";
+import type { JournalChange, SeriesJournal } from "./journal";
+import { POINT_SOURCE_LABELS } from "./provenance";
+
+/**
+ * Audit log
+ * - Newest entries first; each entry expands to the dates it touched
+ * - Undo / redo act on the journal of the current series only
+ */
+
+function formatDDMMYYYY(iso: string) {
+  if (!iso || !/^\d{4}-\d{2}-\d{2}$/.test(iso)) return "—";
+  const [y, m, d] = iso.split("-");
+  return `${d}-${m}-${y}`;
+}
+
+function formatTimestamp(ms: number) {
+  return new Date(ms).toLocaleString("en-IN", {
+    day: "2-digit",
+    month: "short",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+}
+
+function ChangeRow({ c, fmtValue }: { c: JournalChange; fmtValue: (x: number | null | undefined) => string }) {
+  const side = (p: JournalChange["before"], removed: number | null) =>
+    p ? (
+      <>
+        {fmtValue(p.value)} <span className="text-[11px] text-slate-400">{POINT_SOURCE_LABELS[p.source]}</span>
+      </>
+    ) : (
+      <span className="text-slate-400">{removed != null ? "removed" : "—"}</span>
+    );
+
+  return (
+    <tr className="border-t border-slate-100">
+      <td className="px-3 py-1 font-medium text-slate-900">{formatDDMMYYYY(c.date)}</td>
+      <td className="px-3 py-1 text-slate-500 tabular-nums">{side(c.before, c.removedBefore)}</td>
+      <td className="px-3 py-1 text-slate-900 tabular-nums">→ {side(c.after, c.removedAfter)}</td>
+    </tr>
+  );
+}
+
+export default function AuditLogPanel({
+  journal,
+  fmtValue,
+  author,
+  onAuthorChange,
+  onUndo,
+  onRedo,
+  onExport,
+  disabled,
+}: {
+  journal: SeriesJournal;
+  fmtValue: (x: number | null | undefined) => string;
+  author: string;
+  onAuthorChange: (name: string) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  onExport: () => void;
+  disabled?: boolean;
+}) {
+  const [open, setOpen] = useState<string | null>(null);
+  const ENTRY_LIMIT = 100;
+  const CHANGE_LIMIT = 50;
+
+  const entries = journal.entries.slice(-ENTRY_LIMIT).reverse();
+  const nextUndo = peekUndo(journal);
+  const nextRedo = peekRedo(journal);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-end gap-2">
+        <button
+          onClick={onUndo}
+          disabled={disabled || !canUndo(journal)}
+          title={nextUndo ? `Undo: ${JOURNAL_ACTION_LABELS[nextUndo.action]} ${nextUndo.note}` : undefined}
+          className="rounded-xl bg-white px-3 py-2 text-sm font-semibold text-slate-700 ring-1 ring-slate-200 hover:bg-slate-50 disabled:opacity-50"
+        >
+          Undo
+        </button>
+        <button
+          onClick={onRedo}
+          disabled={disabled || !canRedo(journal)}
+          title={nextRedo ? `Redo: ${JOURNAL_ACTION_LABELS[nextRedo.action]} ${nextRedo.note}` : undefined}
+          className="rounded-xl bg-white px-3 py-2 text-sm font-semibold text-slate-700 ring-1 ring-slate-200 hover:bg-slate-50 disabled:opacity-50"
+        >
+          Redo
+        </button>
+        <button
+          onClick={onExport}
+          disabled={!journal.entries.length}
+          className="rounded-xl bg-white px-3 py-2 text-sm font-semibold text-slate-700 ring-1 ring-slate-200 hover:bg-slate-50 disabled:opacity-50"
+        >
+          Export log
+        </button>
+
+        <div className="ml-auto">
+          <label className="text-xs font-medium text-slate-600">Your name (recorded with edits)</label>
+          <input
+            type="text"
+            value={author}
+            placeholder="e.g., analyst initials"
+            onChange={(e) => onAuthorChange(e.target.value)}
+            className="mt-1 block w-56 rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 outline-none focus:ring-2 focus:ring-slate-300"
+          />
+        </div>
+      </div>
+
+      {!entries.length ? (
+        <div className="text-sm text-slate-600">No edits recorded yet. Manual entries, removals, imports and clears will appear here.</div>
+      ) : (
+        <div className="max-h-[420px] overflow-auto rounded-xl ring-1 ring-slate-200">
+          <table className="w-full border-collapse bg-white text-left text-sm">
+            <thead className="sticky top-0 bg-slate-50">
+              <tr>
+                <th className="px-3 py-2 text-xs font-semibold text-slate-600">When</th>
+                <th className="px-3 py-2 text-xs font-semibold text-slate-600">Who</th>
+                <th className="px-3 py-2 text-xs font-semibold text-slate-600">Action</th>
+                <th className="px-3 py-2 text-xs font-semibold text-slate-600">Dates</th>
+                <th className="px-3 py-2 text-xs font-semibold text-slate-600"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {entries.map((e) => {
+                const undone = journal.redo.includes(e.id);
+                return (
+                  <React.Fragment key={e.id}>
+                    <tr className={`border-t border-slate-100 ${undone ? "text-slate-400" : ""}`}>
+                      <td className="px-3 py-2 whitespace-nowrap tabular-nums">{formatTimestamp(e.at)}</td>
+                      <td className="px-3 py-2">{e.author || "—"}</td>
+                      <td className="px-3 py-2">
+                        <div className="font-medium">
+                          {JOURNAL_ACTION_LABELS[e.action]}
+                          {undone ? " (undone)" : ""}
+                        </div>
+                        {e.note ? <div className="text-xs text-slate-500">{e.note}</div> : null}
+                      </td>
+                      <td className="px-3 py-2 tabular-nums">{e.changes.length}</td>
+                      <td className="px-3 py-2 text-right">
+                        <button
+                          onClick={() => setOpen((o) => (o === e.id ? null : e.id))}
+                          className="rounded-lg px-2 py-1 text-xs font-semibold text-slate-700 hover:bg-slate-50"
+                        >
+                          {open === e.id ? "Hide" : "Details"}
+                        </button>
+                      </td>
+                    </tr>
+                    {open === e.id ? (
+                      <tr>
+                        <td colSpan={5} className="bg-slate-50 px-3 py-2">
+                          <table className="w-full border-collapse text-left text-sm">
+                            <tbody>
+                              {e.changes.slice(0, CHANGE_LIMIT).map((c) => (
+                                <ChangeRow key={c.date} c={c} fmtValue={fmtValue} />
+                              ))}
+                            </tbody>
+                          </table>
+                          {e.changes.length > CHANGE_LIMIT ? (
+                            <div className="mt-1 text-[11px] text-slate-500">
+                              …and {e.changes.length - CHANGE_LIMIT} more (see exported log)
+                            </div>
+                          ) : null}
+                        </td>
+                      </tr>
+                    ) : null}
+                  </React.Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
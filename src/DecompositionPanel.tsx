@@ -0,0 +1,219 @@
+import React, { useMemo, useState } from "react";
+import { Bar, BarChart, CartesianGrid, Legend, Line, LineChart, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { isoToDay } from "./dayIndex";
+import type { Decomposition } from "./decompose";
+import { windowValueDays } from "./gaps";
+import type { FilledSeries, GapPolicy } from "./gaps";
+import { fyAxisIndex, fyAxisLabel, FY_AXIS_DAYS } from "./seasonal";
+import { priorYearDay, YOY_BASIS_SHORT, yoyWindows } from "./yoy";
+import type { YoyBasis } from "./yoy";
+
+/**
+ * Trend / weekly / annual / residual split of the daily series (decompose.ts)
+ * - Value vs trend vs seasonally adjusted over the chosen range
+ * - Weekday profile, Apr → Mar annual profile, residuals
+ * - Seasonally adjusted 30-day average with its own YoY (comparison basis) and MoM
+ * Values are in the display unit.
+ */
+
+type RangeId = "365" | "1095" | "all";
+
+const RANGE_LABELS: Record<RangeId, string> = { "365": "Last 1 year", "1095": "Last 3 years", all: "All" };
+
+const WEEKDAYS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+function formatDDMMYYYY(iso: string) {
+  if (!iso || !/^\d{4}-\d{2}-\d{2}$/.test(iso)) return "—";
+  const [y, m, d] = iso.split("-");
+  return `${d}-${m}-${y}`;
+}
+
+function growthPct(curr: number | null, prev: number | null) {
+  return curr == null || prev == null || prev === 0 ? null : ((curr - prev) / prev) * 100;
+}
+
+function fmtPct(x: number | null) {
+  return x == null ? "—" : `${x > 0 ? "+" : ""}${x.toFixed(2)}%`;
+}
+
+export default function DecompositionPanel({
+  decomposition,
+  adjusted,
+  policy,
+  basis,
+  unitLabel,
+  fmtValue,
+}: {
+  decomposition: Decomposition;
+  /** seasonally adjusted series (adjustedSeries) */
+  adjusted: FilledSeries;
+  policy: GapPolicy;
+  basis: YoyBasis;
+  unitLabel: string;
+  fmtValue: (x: number | null | undefined) => string;
+}) {
+  const [range, setRange] = useState<RangeId>("1095");
+  const { rows, hasWeekly, hasAnnual, strength } = decomposition;
+
+  const shown = useMemo(() => (range === "all" ? rows : rows.slice(-Number(range))), [rows, range]);
+
+  const weekdayProfile = useMemo(() => {
+    const sum = new Array(7).fill(0);
+    const n = new Array(7).fill(0);
+    for (const r of rows.slice(-365)) {
+      const k = (isoToDay(r.date) + 3) % 7; // 0 = Monday
+      sum[k] += r.weekly;
+      n[k]++;
+    }
+    return WEEKDAYS.map((day, k) => ({ day, weekly: n[k] ? sum[k] / n[k] : 0 }));
+  }, [rows]);
+
+  const annualProfile = useMemo(() => {
+    const byPos = new Array<number | null>(FY_AXIS_DAYS).fill(null);
+    for (const r of rows) {
+      const p = fyAxisIndex(r.date);
+      if (p != null) byPos[p] = r.annual;
+    }
+    return byPos.map((annual, i) => ({ label: fyAxisLabel(i), annual }));
+  }, [rows]);
+
+  const sa = useMemo(() => {
+    const last = adjusted.points[adjusted.points.length - 1];
+    if (!last) return null;
+    const end = isoToDay(last.date);
+    const curr = windowValueDays(adjusted, end - 29, end, "avg", policy);
+    const prevMonth = windowValueDays(adjusted, end - 59, end - 30, "avg", policy);
+    const yoy = yoyWindows(adjusted, end - 29, end, "avg", policy, basis);
+
+    const trendAt = (day: number) => rows[day - isoToDay(rows[0].date)]?.trend ?? null;
+    const pyDay = priorYearDay(end, basis);
+    return {
+      date: last.date,
+      avg30: curr.value,
+      mom: growthPct(curr.value, prevMonth.value),
+      yoy: growthPct(yoy.curr.value, yoy.prev.value),
+      trendYoY: pyDay == null ? null : growthPct(trendAt(end), trendAt(pyDay)),
+    };
+  }, [adjusted, rows, policy, basis]);
+
+  if (!rows.length || !hasWeekly) {
+    return <div className="text-sm text-slate-600">The decomposition needs at least four weeks of data.</div>;
+  }
+
+  const chartRows = shown.map((r) => ({ ...r, label: formatDDMMYYYY(r.date) }));
+  const pill = (active: boolean) =>
+    active
+      ? "rounded-lg bg-slate-900 px-2 py-1 text-[12px] font-semibold text-white"
+      : "rounded-lg bg-white px-2 py-1 text-[12px] font-semibold text-slate-700 ring-1 ring-slate-200 hover:bg-slate-50";
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        {(Object.keys(RANGE_LABELS) as RangeId[]).map((r) => (
+          <button key={r} type="button" onClick={() => setRange(r)} className={pill(range === r)}>
+            {RANGE_LABELS[r]}
+          </button>
+        ))}
+        <span className="text-xs text-slate-500">
+          Seasonal strength: weekly {strength.weekly == null ? "—" : strength.weekly.toFixed(2)} · annual{" "}
+          {strength.annual == null ? "— (needs 2 years)" : strength.annual.toFixed(2)}
+        </span>
+      </div>
+
+      {sa ? (
+        <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+          <div className="rounded-xl bg-slate-50 p-3 ring-1 ring-slate-200">
+            <div className="text-xs text-slate-500">Seasonally adjusted, 30-day avg</div>
+            <div className="mt-1 text-lg font-semibold tabular-nums text-slate-900">{fmtValue(sa.avg30)}</div>
+            <div className="text-xs text-slate-500">to {formatDDMMYYYY(sa.date)}</div>
+          </div>
+          <div className="rounded-xl bg-slate-50 p-3 ring-1 ring-slate-200">
+            <div className="text-xs text-slate-500">SA YoY</div>
+            <div className="mt-1 text-lg font-semibold tabular-nums text-slate-900">{fmtPct(sa.yoy)}</div>
+            <div className="text-xs text-slate-500">vs {YOY_BASIS_SHORT[basis]}</div>
+          </div>
+          <div className="rounded-xl bg-slate-50 p-3 ring-1 ring-slate-200">
+            <div className="text-xs text-slate-500">SA MoM</div>
+            <div className="mt-1 text-lg font-semibold tabular-nums text-slate-900">{fmtPct(sa.mom)}</div>
+            <div className="text-xs text-slate-500">vs the 30 days before</div>
+          </div>
+          <div className="rounded-xl bg-slate-50 p-3 ring-1 ring-slate-200">
+            <div className="text-xs text-slate-500">Trend YoY</div>
+            <div className="mt-1 text-lg font-semibold tabular-nums text-slate-900">{fmtPct(sa.trendYoY)}</div>
+            <div className="text-xs text-slate-500">underlying growth</div>
+          </div>
+        </div>
+      ) : null}
+
+      <div>
+        <div className="mb-1 text-xs font-medium text-slate-600">Value, trend and seasonally adjusted ({unitLabel})</div>
+        <div className="h-[280px]">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={chartRows} margin={{ top: 10, right: 18, bottom: 10, left: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="label" tick={{ fontSize: 11 }} minTickGap={24} />
+              <YAxis tick={{ fontSize: 11 }} width={56} domain={["auto", "auto"]} />
+              <Tooltip formatter={(v) => (typeof v === "number" ? fmtValue(v) : "—")} />
+              <Legend />
+              <Line type="monotone" dataKey="value" name="Value" dot={false} strokeWidth={1} stroke="#94a3b8" connectNulls={false} isAnimationActive={false} />
+              <Line type="monotone" dataKey="adjusted" name="Seasonally adjusted" dot={false} strokeWidth={1.5} stroke="#2563eb" connectNulls={false} isAnimationActive={false} />
+              <Line type="monotone" dataKey="trend" name="Trend" dot={false} strokeWidth={2.5} stroke="#dc2626" isAnimationActive={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 gap-4 lg:grid-cols-3">
+        <div>
+          <div className="mb-1 text-xs font-medium text-slate-600">Weekly pattern (last year, vs trend)</div>
+          <div className="h-[200px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={weekdayProfile} margin={{ top: 10, right: 10, bottom: 0, left: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="day" tick={{ fontSize: 11 }} />
+                <YAxis tick={{ fontSize: 11 }} width={48} />
+                <Tooltip formatter={(v) => (typeof v === "number" ? fmtValue(v) : "—")} />
+                <ReferenceLine y={0} stroke="#6b7280" />
+                <Bar dataKey="weekly" name="Weekly" fill="#2563eb" />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+        <div>
+          <div className="mb-1 text-xs font-medium text-slate-600">Annual pattern (Apr → Mar)</div>
+          <div className="h-[200px]">
+            {hasAnnual ? (
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={annualProfile} margin={{ top: 10, right: 10, bottom: 0, left: 0 }}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="label" tick={{ fontSize: 11 }} interval={59} />
+                  <YAxis tick={{ fontSize: 11 }} width={48} />
+                  <Tooltip formatter={(v) => (typeof v === "number" ? fmtValue(v) : "—")} />
+                  <ReferenceLine y={0} stroke="#6b7280" />
+                  <Line type="monotone" dataKey="annual" name="Annual" dot={false} strokeWidth={2} stroke="#16a34a" isAnimationActive={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            ) : (
+              <div className="text-sm text-slate-600">Needs two years of data.</div>
+            )}
+          </div>
+        </div>
+        <div>
+          <div className="mb-1 text-xs font-medium text-slate-600">Residual</div>
+          <div className="h-[200px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={chartRows} margin={{ top: 10, right: 10, bottom: 0, left: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="label" tick={{ fontSize: 11 }} minTickGap={24} />
+                <YAxis tick={{ fontSize: 11 }} width={48} />
+                <Tooltip formatter={(v) => (typeof v === "number" ? fmtValue(v) : "—")} />
+                <ReferenceLine y={0} stroke="#6b7280" />
+                <Line type="monotone" dataKey="residual" name="Residual" dot={false} strokeWidth={1} stroke="#f97316" connectNulls={false} isAnimationActive={false} />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
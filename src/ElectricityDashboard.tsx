@@ -1,17 +1,106 @@
 import React, { useEffect, useMemo, useRef, useState } from "react";
 import {
+  Area,
   Bar,
   BarChart,
   CartesianGrid,
+  ComposedChart,
   Legend,
   Line,
   LineChart,
+  ReferenceArea,
   ReferenceLine,
   ResponsiveContainer,
   Tooltip,
   XAxis,
   YAxis,
 } from "recharts";
+import { csvParse, datasetColumn, loadDataset } from "./dataset";
+import type { Dataset } from "./dataset";
+import { parseInputDate, parseISOKey } from "./dates";
+import type { DateConvention, DateInference } from "./dates";
+import { applyMerge, diffImport, mergeRecords, rowsToApply } from "./merge";
+import type { MergePolicy } from "./merge";
+import ImportPreviewDialog from "./ImportPreviewDialog";
+import AuditLogPanel from "./AuditLogPanel";
+import ExcelImportDialog from "./ExcelImportDialog";
+import { downloadWorkbook, isExcelFile, readWorkbook } from "./excel";
+import type { ExcelWorkbook } from "./excel";
+import QualityPanel from "./QualityPanel";
+import PspImportDialog from "./PspImportDialog";
+import type { PspTarget } from "./PspImportDialog";
+import { isPspFile, pspValue, readPspReport } from "./psp";
+import type { PspField, PspReport } from "./psp";
+import IexImportDialog from "./IexImportDialog";
+import type { IexTarget } from "./IexImportDialog";
+import MarketPanel from "./MarketPanel";
+import SeasonalPanel from "./SeasonalPanel";
+import DecompositionPanel from "./DecompositionPanel";
+import {
+  DEFAULT_FORECAST_HORIZON,
+  DEFAULT_FORECAST_MODEL,
+  FORECAST_HORIZONS,
+  FORECAST_MODEL_LABELS,
+  isForecastModel,
+} from "./forecast";
+import type { Forecast, ForecastModel } from "./forecast";
+import ForecastAccuracyPanel from "./ForecastAccuracyPanel";
+import { addVintages, emptyVintages, missingVintageModels } from "./forecastVintages";
+import { runInWorker, useAnalysis } from "./analysisWorker";
+import type { AnalysisTask } from "./analysisTasks";
+import { IEX_VOLUME_FIELDS, iexPrice, isIexFile, marketSeriesId, readIexSnapshot } from "./iex";
+import type { IexMarket, IexSnapshot, IexVolumeField } from "./iex";
+import IntradayPanel from "./IntradayPanel";
+import {
+  blockUnitOptions,
+  convertBlock,
+  convertBlocks,
+  defaultBlockUnit,
+  deriveDailyRows,
+  emptyIntraday,
+  INTRADAY_AGGREGATE_LABELS,
+  parseIntradayCsv,
+} from "./intraday";
+import type { IntradayAggregate } from "./intraday";
+import { mergeIntoStoredSeries } from "./seriesStore";
+import { SERIES } from "./seriesRegistry";
+import { DEFAULT_GAP_POLICY, describeGapPolicy, FILL_MODE_LABELS, fillGaps, windowValue } from "./gaps";
+import type { FillMode, FilledSeries, GapPolicy } from "./gaps";
+import {
+  DEFAULT_CUSTOM_ROLLING,
+  describeRolling,
+  MAX_ROLLING_WINDOW,
+  normalizeRollingSpec,
+  periodOverPeriodLabel,
+  ROLLING_STAT_LABELS,
+} from "./rolling";
+import type { RollingSpec, RollingStat } from "./rolling";
+import type { ChartRequest } from "./chartSeries";
+import { useChartSeries } from "./useChartSeries";
+import { isoToDay, valueAtDay } from "./dayIndex";
+import {
+  comparableWindow,
+  DEFAULT_YOY_BASIS,
+  isYoyBasis,
+  priorYearDay,
+  YOY_BASIS_LABELS,
+  YOY_BASIS_SHORT,
+  yoyWindows,
+} from "./yoy";
+import type { YoyBasis } from "./yoy";
+import { HOLIDAY_CALENDAR_YEARS, holidaysBetween } from "./holidays";
+import type { HolidayKind } from "./holidays";
+import { compatibleUnits, convertValue, isUnitId, unitFactor, unitFromHeader, UNITS } from "./units";
+import type { UnitId } from "./units";
+import { FETCH_ENABLED, fetchDiff, getFetchAdapter, runFetch } from "./fetchers";
+import type { FetchSourceId } from "./fetchers";
+import { analyzeQuality, findingsToChecklist } from "./quality";
+import { diffSeriesStates, emptyJournal, journalToCsv, recordEdit, stepJournal } from "./journal";
+import type { JournalAction } from "./journal";
+import { readKey, storageKeys, usePersistentState, writeKey } from "./storage";
+import type { LastFetch } from "./storage";
+import { makePoint, POINT_SOURCE_LABELS, RECONCILE_POLICY_LABELS, reconcileWithFile, valuesOf } from "./provenance";
+import type { ReconcilePolicy, SeriesPoint, SeriesState } from "./provenance";
 
 /* -----------------------------
    Helpers
@@ -21,126 +110,6 @@ function clamp(n: number, min: number, max: number) {
   return Math.min(max, Math.max(min, n));
 }
 
-function parseISOKey(s: string) {
-  const ok = /^\d{4}-\d{2}-\d{2}$/.test(s);
-  if (!ok) return null;
-  const d = new Date(s + "T00:00:00Z");
-  return Number.isNaN(d.getTime()) ? null : s;
-}
-
-// ✅ Universal date parser
-// Accepts ALL formats:
-// DD/MM/YYYY, DD/MM/YY, MM/YYYY, MM/YY,
-// DD-MM-YYYY, DD-MM-YY,
-// ISO YYYY-MM-DD
-//
-// Month-only formats are normalized to FIRST DAY of month (YYYY-MM-01).
-function parseInputDate(s: unknown) {
-  if (typeof s !== "string") return null;
-  const t = s.trim();
-
-  let m: RegExpMatchArray | null;
-
-  // DD/MM/YYYY
-  m = t.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
-  if (m) {
-    const dd = Number(m[1]);
-    const mm = Number(m[2]);
-    const yyyy = Number(m[3]);
-    const d = new Date(Date.UTC(yyyy, mm - 1, dd));
-    if (
-      !Number.isNaN(d.getTime()) &&
-      d.getUTCFullYear() === yyyy &&
-      d.getUTCMonth() === mm - 1 &&
-      d.getUTCDate() === dd
-    ) {
-      return `${yyyy}-${String(mm).padStart(2, "0")}-${String(dd).padStart(2, "0")}`;
-    }
-    return null;
-  }
-
-  // DD/MM/YY -> 20YY
-  m = t.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2})$/);
-  if (m) {
-    const dd = Number(m[1]);
-    const mm = Number(m[2]);
-    const yyyy = 2000 + Number(m[3]);
-    const d = new Date(Date.UTC(yyyy, mm - 1, dd));
-    if (
-      !Number.isNaN(d.getTime()) &&
-      d.getUTCFullYear() === yyyy &&
-      d.getUTCMonth() === mm - 1 &&
-      d.getUTCDate() === dd
-    ) {
-      return `${yyyy}-${String(mm).padStart(2, "0")}-${String(dd).padStart(2, "0")}`;
-    }
-    return null;
-  }
-
-  // MM/YYYY -> YYYY-MM-01
-  m = t.match(/^(\d{1,2})\/(\d{4})$/);
-  if (m) {
-    const mm = Number(m[1]);
-    const yyyy = Number(m[2]);
-    if (Number.isFinite(mm) && mm >= 1 && mm <= 12 && Number.isFinite(yyyy) && yyyy >= 1900) {
-      return `${yyyy}-${String(mm).padStart(2, "0")}-01`;
-    }
-    return null;
-  }
-
-  // MM/YY -> 20YY-MM-01
-  m = t.match(/^(\d{1,2})\/(\d{2})$/);
-  if (m) {
-    const mm = Number(m[1]);
-    const yyyy = 2000 + Number(m[2]);
-    if (Number.isFinite(mm) && mm >= 1 && mm <= 12) {
-      return `${yyyy}-${String(mm).padStart(2, "0")}-01`;
-    }
-    return null;
-  }
-
-  // DD-MM-YYYY
-  m = t.match(/^(\d{1,2})-(\d{1,2})-(\d{4})$/);
-  if (m) {
-    const dd = Number(m[1]);
-    const mm = Number(m[2]);
-    const yyyy = Number(m[3]);
-    const d = new Date(Date.UTC(yyyy, mm - 1, dd));
-    if (
-      !Number.isNaN(d.getTime()) &&
-      d.getUTCFullYear() === yyyy &&
-      d.getUTCMonth() === mm - 1 &&
-      d.getUTCDate() === dd
-    ) {
-      return `${yyyy}-${String(mm).padStart(2, "0")}-${String(dd).padStart(2, "0")}`;
-    }
-    return null;
-  }
-
-  // DD-MM-YY -> 20YY
-  m = t.match(/^(\d{1,2})-(\d{1,2})-(\d{2})$/);
-  if (m) {
-    const dd = Number(m[1]);
-    const mm = Number(m[2]);
-    const yyyy = 2000 + Number(m[3]);
-    const d = new Date(Date.UTC(yyyy, mm - 1, dd));
-    if (
-      !Number.isNaN(d.getTime()) &&
-      d.getUTCFullYear() === yyyy &&
-      d.getUTCMonth() === mm - 1 &&
-      d.getUTCDate() === dd
-    ) {
-      return `${yyyy}-${String(mm).padStart(2, "0")}-${String(dd).padStart(2, "0")}`;
-    }
-    return null;
-  }
-
-  // ISO
-  if (/^\d{4}-\d{2}-\d{2}$/.test(t)) return parseISOKey(t);
-
-  return null;
-}
-
 function formatDDMMYYYY(iso: string) {
   // UI display format stays dd-mm-yyyy (no UI change)
   if (!iso || typeof iso !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(iso)) return "—";
@@ -241,76 +210,6 @@ function pctColorClass(x: number | null | undefined) {
   return "text-slate-600";
 }
 
-/* -----------------------------
-   CSV parsing
-   - Accepts:
-     1) legacy: date,<value> with any 2nd column name
-     2) new: date,total,coal,renewable (and more columns)
-   - Reads column based on valueColumnKey if header exists
------------------------------ */
-
-function normalizeKey(s: string) {
-  return (s || "")
-    .trim()
-    .toLowerCase()
-    .replace(/\s+/g, "")
-    .replace(/–/g, "-")
-    .replace(/—/g, "-");
-}
-
-function csvParse(text: string, valueColumnKey: string) {
-  const lines = text
-    .split(/\r?\n/)
-    .map((l) => l.trim())
-    .filter(Boolean);
-
-  const rows: string[][] = [];
-  for (const line of lines) {
-    const cols = line.split(",").map((c) => c.trim());
-    if (cols.length >= 2) rows.push(cols);
-  }
-
-  // empty
-  if (!rows.length) return { parsed: [] as Array<{ date: string; value: number }>, errors: [] as string[] };
-
-  // Optional header: if col0 contains "date", drop it and locate value column
-  let valueIdx = 1; // fallback legacy: 2nd col
-  const h0 = (rows[0][0] || "").toLowerCase();
-  const hasHeader = h0.includes("date");
-
-  if (hasHeader) {
-    const header = rows[0].map((h) => normalizeKey(h));
-    const want = normalizeKey(valueColumnKey);
-    const found = header.indexOf(want);
-    if (found !== -1) valueIdx = found;
-    rows.shift();
-  }
-
-  const parsed: Array<{ date: string; value: number }> = [];
-  const errors: string[] = [];
-
-  for (let i = 0; i < rows.length; i++) {
-    const row = rows[i];
-    const dRaw = row[0];
-    const vRaw = row[valueIdx] ?? row[1] ?? "";
-
-    const date = parseInputDate(dRaw);
-    const v = Number(String(vRaw).replace(/,/g, ""));
-
-    if (!date) {
-      errors.push(`Row ${i + 1}: invalid date '${dRaw}' (expected DD/MM/YYYY)`);
-      continue;
-    }
-    if (!Number.isFinite(v)) {
-      errors.push(`Row ${i + 1}: invalid value '${vRaw}'`);
-      continue;
-    }
-    parsed.push({ date, value: v });
-  }
-
-  return { parsed, errors };
-}
-
 function sampleCSV(valueColumnKey: string) {
   // ✅ sample uses dd/mm/yyyy
   return [`date,${valueColumnKey}`, "18/12/2025,10", "19/12/2025,11", "20/12/2025,12"].join("\n");
@@ -328,26 +227,12 @@ function downloadCSV(filename: string, text: string) {
   URL.revokeObjectURL(url);
 }
 
-function mergeRecords(existingMap: Map<string, number>, incoming: Array<{ date: string; value: number }>) {
-  const next = new Map(existingMap);
-  for (const r of incoming) next.set(r.date, r.value);
-  return next;
-}
-
 /* -----------------------------
    Aggregation structures
 ----------------------------- */
 
 type DailyPoint = { date: string; value: number };
 
-type DailyChartPoint = {
-  label: string;
-  units: number;
-  prev_year_units: number | null;
-  yoy_pct: number | null;
-  mom_pct: number | null; // weekly rolling: WoW%, monthly: MoM%
-};
-
 // Month map with sum+count (for avg mode)
 function buildMonthAggMap(sortedDaily: DailyPoint[]) {
   const map = new Map<
@@ -442,11 +327,33 @@ function toMonthlyAvgFull(sortedDaily: DailyPoint[]) {
   });
 }
 
+/** `value` once it has stopped changing for `ms` (forecast fits skip the intermediate edits) */
+function useSettled<T>(value: T, ms: number) {
+  const [settled, setSettled] = useState(value);
+  useEffect(() => {
+    const t = setTimeout(() => setSettled(value), ms);
+    return () => clearTimeout(t);
+  }, [value, ms]);
+  return settled;
+}
+
+const FORECAST_SETTLE_MS = 1000;
+
+/** Days from `iso` (exclusive) to the 31 Mar that ends its FY */
+function daysToFyEnd(iso: string) {
+  const y = Number(iso.slice(0, 4));
+  const fyEnd = `${Number(iso.slice(5, 7)) >= 4 ? y + 1 : y}-03-31`;
+  return isoToDay(fyEnd) - isoToDay(iso);
+}
+
 /* -----------------------------
    KPIs
 ----------------------------- */
 
-function computeKPIs(sortedDaily: DailyPoint[], calcMode: "sum" | "avg") {
+function computeKPIs(series: FilledSeries, calcMode: "sum" | "avg", policy: GapPolicy, basis: YoyBasis, forecast: Forecast | null) {
+  const sortedDaily = series.points;
+  const incomplete = { avg7: false, avg30: false, ytd: false, mtd: false };
+
   if (sortedDaily.length === 0) {
     return {
       latest: null as DailyPoint | null,
@@ -459,67 +366,36 @@ function computeKPIs(sortedDaily: DailyPoint[], calcMode: "sum" | "avg") {
       ytdYoY: null as number | null,
       mtdAvg: null as number | null,
       mtdYoY: null as number | null,
+      fyEndValue: null as number | null,
+      fyEndYoY: null as number | null,
+      incomplete,
     };
   }
 
-  const dailyLookup = new Map(sortedDaily.map((d) => [d.date, d.value] as const));
   const latest = sortedDaily[sortedDaily.length - 1];
 
-  const isoAddYears = (iso: string, deltaYears: number) => {
-    const y = Number(iso.slice(0, 4));
-    const m = Number(iso.slice(5, 7));
-    const d = Number(iso.slice(8, 10));
-    const tryDt = new Date(Date.UTC(y + deltaYears, m - 1, d));
-    if (
-      tryDt.getUTCFullYear() === y + deltaYears &&
-      tryDt.getUTCMonth() === m - 1 &&
-      tryDt.getUTCDate() === d
-    )
-      return tryDt.toISOString().slice(0, 10);
-    const lastDay = new Date(Date.UTC(y + deltaYears, m, 0));
-    return lastDay.toISOString().slice(0, 10);
-  };
-
-  const sumCountInclusive = (startIso: string, endIso: string) => {
-    if (startIso > endIso) return { sum: null as number | null, count: 0 };
-    let sum = 0;
-    let count = 0;
-    let cur = startIso;
-    while (cur <= endIso) {
-      const v = dailyLookup.get(cur);
-      if (v != null) {
-        sum += v;
-        count += 1;
-      }
-      cur = isoPlusDays(cur, 1);
-    }
-    return { sum: count ? sum : null, count };
-  };
-
-  const avgForLastNDaysEnding = (endIso: string, nDays: number) => {
-    const startIso = isoMinusDays(endIso, nDays - 1);
-    const { sum, count } = sumCountInclusive(startIso, endIso);
-    return { startIso, endIso, avg: sum != null && count ? sum / count : null };
+  // ✅ every window goes through the gap policy (coverage threshold + pro-rata sums)
+  // and every YoY through the comparison basis (prior-year span, 29 Feb rule)
+  const compare = (startIso: string, endIso: string, mode: "sum" | "avg") => {
+    const curr = windowValue(series, startIso, endIso, mode, policy);
+    const yoy = yoyWindows(series, isoToDay(startIso), isoToDay(endIso), mode, policy, basis);
+    return {
+      value: curr.value,
+      yoy: yoy.curr.value != null && yoy.prev.value != null ? growthPct(yoy.curr.value, yoy.prev.value) : null,
+      incomplete: curr.incomplete || (yoy.prev.value != null && yoy.prev.incomplete),
+    };
   };
 
-  // Latest YoY (same date)
-  const prevYearDate = isoAddYears(latest.date, -1);
-  const prevYearVal = dailyLookup.get(prevYearDate) ?? null;
+  // Latest YoY (prior-year day of the basis)
+  const prevYearDay = priorYearDay(isoToDay(latest.date), basis);
+  const prevYearVal = prevYearDay == null ? null : valueAtDay(series.index, prevYearDay);
   const latestYoY = prevYearVal != null ? growthPct(latest.value, prevYearVal) : null;
 
-  // 7d avg + YoY on avg
-  const last7 = avgForLastNDaysEnding(latest.date, 7);
-  const py7 = sumCountInclusive(isoAddYears(last7.startIso, -1), isoAddYears(last7.endIso, -1));
-  const avg7 = last7.avg;
-  const avg7PY = py7.sum != null && py7.count ? py7.sum / py7.count : null;
-  const avg7YoY = avg7 != null && avg7PY != null ? growthPct(avg7, avg7PY) : null;
-
-  // 30d avg + YoY on avg
-  const last30 = avgForLastNDaysEnding(latest.date, 30);
-  const py30 = sumCountInclusive(isoAddYears(last30.startIso, -1), isoAddYears(last30.endIso, -1));
-  const avg30 = last30.avg;
-  const avg30PY = py30.sum != null && py30.count ? py30.sum / py30.count : null;
-  const avg30YoY = avg30 != null && avg30PY != null ? growthPct(avg30, avg30PY) : null;
+  // 7d / 30d avg + YoY on avg
+  const last7 = compare(isoMinusDays(latest.date, 6), latest.date, "avg");
+  const last30 = compare(isoMinusDays(latest.date, 29), latest.date, "avg");
+  incomplete.avg7 = last7.incomplete;
+  incomplete.avg30 = last30.incomplete;
 
   // FY window
   const latestY = Number(latest.date.slice(0, 4));
@@ -527,45 +403,47 @@ function computeKPIs(sortedDaily: DailyPoint[], calcMode: "sum" | "avg") {
   const fyStartYear = latestM >= 4 ? latestY : latestY - 1;
   const ytdStart = `${fyStartYear}-04-01`;
 
-  const ytd = sumCountInclusive(ytdStart, latest.date);
-
-  const ytdPYStart = `${fyStartYear - 1}-04-01`;
-  const ytdPYEnd = isoAddYears(latest.date, -1);
-  const ytdPY = sumCountInclusive(ytdPYStart, ytdPYEnd);
-
   // SUM tabs: show YTD total
   // AVG tabs: show YTD average daily
-  const ytdValue = calcMode === "sum" ? ytd.sum : ytd.sum != null && ytd.count ? ytd.sum / ytd.count : null;
-
-  const ytdValuePY =
-    calcMode === "sum"
-      ? ytdPY.sum
-      : ytdPY.sum != null && ytdPY.count
-        ? ytdPY.sum / ytdPY.count
-        : null;
-
-  const ytdYoY = ytdValue != null && ytdValuePY != null ? growthPct(ytdValue, ytdValuePY) : null;
+  const ytd = compare(ytdStart, latest.date, calcMode);
+  const ytdValue = ytd.value;
+  const ytdYoY = ytd.yoy;
+  incomplete.ytd = ytd.incomplete;
+
+  // FY-end projection: YTD actuals + forecast means up to 31 Mar (SUM: total, AVG: average daily)
+  let fyEndValue: number | null = null;
+  let fyEndYoY: number | null = null;
+  const fyEnd = `${fyStartYear + 1}-03-31`;
+  const ahead = forecast && forecast.origin === latest.date ? forecast.points.filter((p) => p.date <= fyEnd) : [];
+  if (ytdValue != null && ahead.length === isoToDay(fyEnd) - isoToDay(latest.date)) {
+    const forecastSum = ahead.reduce((a, p) => a + p.mean, 0);
+    const elapsed = isoToDay(latest.date) - isoToDay(ytdStart) + 1;
+    fyEndValue =
+      calcMode === "sum" ? ytdValue + forecastSum : (ytdValue * elapsed + forecastSum) / (elapsed + ahead.length);
+    const prevFY = windowValue(series, `${fyStartYear - 1}-04-01`, `${fyStartYear}-03-31`, calcMode, policy);
+    fyEndYoY = prevFY.value != null ? growthPct(fyEndValue, prevFY.value) : null;
+  }
 
   // MTD avg (always avg)
-  const thisMonthStart = `${latest.date.slice(0, 7)}-01`;
-  const mtd = sumCountInclusive(thisMonthStart, latest.date);
-  const mtdAvg = mtd.sum != null && mtd.count ? mtd.sum / mtd.count : null;
-
-  const mtdPY = sumCountInclusive(isoAddYears(thisMonthStart, -1), isoAddYears(latest.date, -1));
-  const mtdAvgPY = mtdPY.sum != null && mtdPY.count ? mtdPY.sum / mtdPY.count : null;
-  const mtdYoY = mtdAvg != null && mtdAvgPY != null ? growthPct(mtdAvg, mtdAvgPY) : null;
+  const mtd = compare(`${latest.date.slice(0, 7)}-01`, latest.date, "avg");
+  const mtdAvg = mtd.value;
+  const mtdYoY = mtd.yoy;
+  incomplete.mtd = mtd.incomplete;
 
   return {
     latest,
     latestYoY,
-    avg7,
-    avg7YoY,
-    avg30,
-    avg30YoY,
+    avg7: last7.value,
+    avg7YoY: last7.yoy,
+    avg30: last30.value,
+    avg30YoY: last30.yoy,
     ytdValue,
     ytdYoY,
     mtdAvg,
     mtdYoY,
+    fyEndValue,
+    fyEndYoY,
+    incomplete,
   };
 }
 
@@ -593,10 +471,33 @@ function Card({
   );
 }
 
-function Stat({ label, value, sub }: { label: string; value: string; sub?: React.ReactNode }) {
+// Marker for values computed from a window with missing or interpolated days
+function IncompleteMark({ show }: { show: boolean }) {
+  if (!show) return null;
+  return (
+    <span title="Incomplete data: some days in this period are missing or interpolated" className="ml-1 font-semibold text-amber-600">
+      *
+    </span>
+  );
+}
+
+function Stat({
+  label,
+  value,
+  sub,
+  incomplete = false,
+}: {
+  label: string;
+  value: string;
+  sub?: React.ReactNode;
+  incomplete?: boolean;
+}) {
   return (
     <div className="rounded-2xl bg-slate-50 p-4 ring-1 ring-slate-200">
-      <div className="text-xs font-medium text-slate-500">{label}</div>
+      <div className="text-xs font-medium text-slate-500">
+        {label}
+        {incomplete ? <span className="ml-2 rounded-md bg-amber-50 px-1.5 py-0.5 text-[10px] font-semibold text-amber-800 ring-1 ring-amber-200">incomplete</span> : null}
+      </div>
       <div className="mt-1 text-2xl font-semibold text-slate-900 tabular-nums">{value}</div>
       {sub ? <div className="mt-1">{sub}</div> : null}
     </div>
@@ -621,12 +522,20 @@ export type ElectricityDashboardProps = {
   title: string;
   subtitle: string;
   seriesLabel: string;
-  unitLabel: string;
+  /** unit the series is stored in */
+  unit: UnitId;
   valueColumnKey: string;
   defaultCsvPath: string;
-  enableAutoFetch?: boolean;
+  /** adapter behind "Auto-fetch latest" */
+  fetchSource?: FetchSourceId;
+  /** figure this series takes from the Grid-India PSP report */
+  pspField?: PspField;
+  /** IEX market of a price series (snapshot import + market depth panel) */
+  market?: IexMarket;
+  /** roll-up of 15-minute blocks into the daily value (no block import without it) */
+  intraday?: IntradayAggregate;
   calcMode: "sum" | "avg";
-  valueDisplay: { suffix: string; decimals: number };
+  valueDisplay: { decimals: number };
 };
 
 // explicit view types
@@ -636,7 +545,26 @@ type ViewAs =
   | "daily"
   | "weekly_roll7_avg"
   | "monthly"
-  | "rolling30_sum";
+  | "rolling30_sum"
+  | "rolling_custom";
+
+const VIEW_AS_VALUES: ViewAs[] = [
+  "rolling30_avg",
+  "rolling14_avg",
+  "daily",
+  "weekly_roll7_avg",
+  "monthly",
+  "rolling30_sum",
+  "rolling_custom",
+];
+
+// Fixed rolling views; "rolling_custom" uses the spec entered by the user
+const ROLLING_PRESETS: Partial<Record<ViewAs, RollingSpec>> = {
+  rolling30_avg: { window: 30, stat: "avg", halfLife: 14 },
+  rolling14_avg: { window: 14, stat: "avg", halfLife: 7 },
+  weekly_roll7_avg: { window: 7, stat: "avg", halfLife: 3 },
+  rolling30_sum: { window: 30, stat: "sum", halfLife: 14 },
+};
 
 export default function ElectricityDashboard(props: ElectricityDashboardProps) {
   const {
@@ -644,28 +572,73 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
     title,
     subtitle,
     seriesLabel,
-    unitLabel,
+    unit,
     valueColumnKey,
     defaultCsvPath,
-    enableAutoFetch = false,
+    fetchSource,
+    pspField,
+    market,
+    intraday,
     calcMode,
     valueDisplay,
   } = props;
 
-  const STORAGE_KEY = `tusk_india_${type}_v1`;
+  const seriesStorageKey = useMemo(() => storageKeys.series(type), [type]);
+  const reconcileStorageKey = useMemo(() => storageKeys.reconcilePolicy(type), [type]);
+
+  const [reconcilePolicy, setReconcilePolicy, reconcileStore] = usePersistentState<ReconcilePolicy>(
+    reconcileStorageKey,
+    () => "user-edits-win"
+  );
+
+  // Edit journal (undo / redo + audit log) for this series
+  const journalStorageKey = useMemo(() => storageKeys.journal(type), [type]);
+  const [journal, setJournal, journalStore] = usePersistentState(journalStorageKey, emptyJournal);
+  const [editorName, setEditorName] = usePersistentState(storageKeys.editorName, () => "");
+
+  // Data-quality findings the user has ticked off
+  const qualityReviewedKey = useMemo(() => storageKeys.qualityReviewed(type), [type]);
+  const [qualityReviewed, setQualityReviewed] = usePersistentState<Record<string, number>>(qualityReviewedKey, () => ({}));
+
+  // Missing-data rules for rolling views, KPIs and the weekly / FY tables
+  const gapPolicyKey = useMemo(() => storageKeys.gapPolicy(type), [type]);
+  const [gapPolicy, setGapPolicy] = usePersistentState<GapPolicy>(gapPolicyKey, () => DEFAULT_GAP_POLICY);
+  // one YoY basis for every tab (charts, KPIs, tables)
+  const [storedYoyBasis, setYoyBasis] = usePersistentState<YoyBasis>(storageKeys.yoyBasis, () => DEFAULT_YOY_BASIS);
+  const yoyBasis = isYoyBasis(storedYoyBasis) ? storedYoyBasis : DEFAULT_YOY_BASIS;
+  // 15-minute blocks (daily values are derived from them on import)
+  const intradayKey = useMemo(() => storageKeys.intraday(type), [type]);
+  const [intradayRec, setIntradayRec, intradayStore] = usePersistentState(intradayKey, emptyIntraday);
+  // Forecast vintages (each model's forecast from every latest day) behind the accuracy panel
+  const forecastsKey = useMemo(() => storageKeys.forecasts(type), [type]);
+  const [vintages, setVintages, vintagesStore] = usePersistentState(forecastsKey, emptyVintages);
+  // set by data updates (bundled file, import, auto-fetch); manual edits don't save vintages
+  const [vintagesDue, setVintagesDue] = useState(false);
+  const intradayFileRef = useRef<HTMLInputElement | null>(null);
+  // unit of the values in the next block file (energy series: MW, converted to energy per block)
+  const [blockUnit, setBlockUnit] = useState<UnitId>(() => defaultBlockUnit(unit));
   const isSumTab = calcMode === "sum";
   const isAvgTab = calcMode === "avg";
   const isPeakDemandTab = type === "demand"; // ✅ Peak Demand Met tab identifier
 
+  // Display unit: everything on screen and in exports is rescaled; storage stays in `unit`
+  const [displayUnit, setDisplayUnit] = useState<UnitId>(unit);
+  const unitLabel = UNITS[displayUnit].label;
+  const unitScale = unitFactor(unit, displayUnit);
+  const displayDecimals = displayUnit === unit ? valueDisplay.decimals : UNITS[displayUnit].decimals;
+
   const fmtValue = (x: number | null | undefined) => {
     if (x == null || Number.isNaN(x)) return "—";
-    const rounded = Number(x.toFixed(valueDisplay.decimals));
+    const rounded = Number(x.toFixed(displayDecimals));
     return `${new Intl.NumberFormat("en-IN", {
-      minimumFractionDigits: valueDisplay.decimals,
-      maximumFractionDigits: valueDisplay.decimals,
-    }).format(rounded)}${valueDisplay.suffix}`;
+      minimumFractionDigits: displayDecimals,
+      maximumFractionDigits: displayDecimals,
+    }).format(rounded)}${UNITS[displayUnit].suffix}`;
   };
 
+  // For values still in the stored unit (journal, import preview)
+  const fmtStored = (x: number | null | undefined) => fmtValue(x == null ? x : x * unitScale);
+
   const fmtPct = (x: number | null | undefined) => {
     if (x == null || Number.isNaN(x)) return "—";
     const sign = x > 0 ? "+" : "";
@@ -673,23 +646,13 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
     return `${sign}${rounded.toFixed(2)}%`;
   };
 
-  const [dataMap, setDataMap] = useState<Map<string, number>>(() => {
-    try {
-      const raw = localStorage.getItem(STORAGE_KEY);
-      if (!raw) return new Map();
-      const obj = JSON.parse(raw);
-      const entries = Object.entries(obj || {});
-      const m = new Map<string, number>();
-      for (const [k, v] of entries) {
-        const d = parseISOKey(k);
-        const n = Number(v);
-        if (d && Number.isFinite(n)) m.set(d, n);
-      }
-      return m;
-    } catch {
-      return new Map();
-    }
-  });
+  // Stored points (with provenance) + dates the user explicitly removed
+  const [seriesState, setSeriesState] = useState<SeriesState>(() => ({ points: new Map(), removed: new Map() }));
+  const dataMap = seriesState.points;
+  const seriesStateRef = useRef(seriesState);
+  seriesStateRef.current = seriesState;
+  // true once the saved copy (IndexedDB) has been read; nothing is loaded or saved before that
+  const [hydrated, setHydrated] = useState(false);
 
   const [date, setDate] = useState(() => {
     const t = new Date();
@@ -704,16 +667,33 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
   const [msg, setMsg] = useState<string | null>(null);
   const [errors, setErrors] = useState<string[]>([]);
 
+  // dates repeated in the bundled file (data-quality panel)
+  const [fileDuplicates, setFileDuplicates] = useState<Dataset["duplicates"]>([]);
+  // date picked from the data-quality panel; the entries table centres on it
+  const [focusDate, setFocusDate] = useState<string | null>(null);
+  const focusRowRef = useRef<HTMLTableRowElement | null>(null);
+
   // default "24 Months" ON for all tabs
   const [rangeDays, setRangeDays] = useState(730);
 
   const [fetchStatus, setFetchStatus] = useState<string | null>(null);
+  const [fetchBusy, setFetchBusy] = useState(false);
+  const [lastFetch, setLastFetch] = useState<LastFetch | null>(null);
+  const fetchAbortRef = useRef<AbortController | null>(null);
 
   const [fromIso, setFromIso] = useState("");
   const [toIso, setToIso] = useState("");
 
   // Default View as: rolling avg (first option)
   const [aggFreq, setAggFreq] = useState<ViewAs>("rolling30_avg");
+  const [customRolling, setCustomRolling] = useState<RollingSpec>(DEFAULT_CUSTOM_ROLLING);
+  // rolling sums only make sense for "sum" series (a stored custom spec may predate that check)
+  const rollingSpec =
+    aggFreq === "rolling_custom"
+      ? customRolling.stat === "sum" && calcMode !== "sum"
+        ? { ...customRolling, stat: "avg" as const }
+        : customRolling
+      : ROLLING_PRESETS[aggFreq] ?? null;
 
   /* =========================================================
      ✅ DEFAULT TOGGLE STATES
@@ -757,10 +737,60 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
     return true;
   });
 
+  // shaded national holidays / festivals on the daily and rolling charts
+  const [showHolidays, setShowHolidays] = useState(true);
+
+  // chart the seasonally adjusted series (value - weekly - annual) instead of the raw one
+  const [showAdjusted, setShowAdjusted] = useState(false);
+
+  // forecast past the last day on the daily chart; the model also drives the FY-end projection (YTD KPI)
+  const [showForecast, setShowForecast] = useState(false);
+  const [showFyProjection, setShowFyProjection] = useState(false);
+  const [forecastModel, setForecastModel] = useState<ForecastModel>(DEFAULT_FORECAST_MODEL);
+  const [forecastHorizon, setForecastHorizon] = useState(DEFAULT_FORECAST_HORIZON);
+
   const [tablePeriod, setTablePeriod] = useState<"monthly" | "weekly" | "yearly">("monthly");
 
   const fileRef = useRef<HTMLInputElement | null>(null);
 
+  // CSV import waiting for the user to confirm the detected date format
+  const [pendingImport, setPendingImport] = useState<{
+    fileName: string;
+    text: string;
+    inference: DateInference;
+    convention: DateConvention;
+  } | null>(null);
+  // Excel workbook waiting for sheet / column selection (then continues as a CSV import)
+  const [pendingExcel, setPendingExcel] = useState<ExcelWorkbook | null>(null);
+  // Grid-India PSP report waiting for confirmation (updates every matching series)
+  const pspFileRef = useRef<HTMLInputElement | null>(null);
+  const [pendingPsp, setPendingPsp] = useState<PspReport | null>(null);
+  const [pspBusy, setPspBusy] = useState(false);
+  const pspTargets = useMemo<PspTarget[]>(
+    () =>
+      SERIES.filter((s) => s.pspField).map((s) => ({
+        seriesId: s.id,
+        label: s.group ? `${s.seriesLabel} (${s.tabLabel})` : s.tabLabel,
+        unit: s.unit,
+        field: s.pspField!,
+      })),
+    []
+  );
+  // IEX market snapshot waiting for confirmation (price series + its bid / volume series)
+  const iexFileRef = useRef<HTMLInputElement | null>(null);
+  const [pendingIex, setPendingIex] = useState<IexSnapshot | null>(null);
+  const [iexBusy, setIexBusy] = useState(false);
+  const iexTargets = useMemo<IexTarget[]>(
+    () =>
+      SERIES.filter((s) => s.market).map((s) => ({
+        market: s.market!,
+        seriesId: s.id,
+        label: s.tabLabel,
+        unit: s.unit,
+      })),
+    []
+  );
+
   // Ensure defaults apply on open/reload AND remain correct if component ever re-mounts
   useEffect(() => {
     // Peak Demand Met tab: YoY% only + control lines ON
@@ -793,39 +823,154 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []); // run once per tab instance
 
+  // Saved view preferences (if any) override the defaults above
+  const viewPrefsKey = useMemo(() => storageKeys.viewPrefs(type), [type]);
+  const [viewPrefsLoaded, setViewPrefsLoaded] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setViewPrefsLoaded(false);
+    readKey(viewPrefsKey)
+      .then((p) => {
+        if (cancelled || !p) return;
+        // restored bundles may be partial: only apply well-formed fields
+        const flag = (v: unknown, set: (b: boolean) => void) => {
+          if (typeof v === "boolean") set(v);
+        };
+        if (typeof p.rangeDays === "number" && p.rangeDays > 0) setRangeDays(p.rangeDays);
+        if (VIEW_AS_VALUES.includes(p.aggFreq as ViewAs)) setAggFreq(p.aggFreq as ViewAs);
+        if (p.rolling) setCustomRolling(normalizeRollingSpec(p.rolling));
+        flag(p.showUnitsSeries, setShowUnitsSeries);
+        flag(p.showPrevYearSeries, setShowPrevYearSeries);
+        flag(p.showYoYSeries, setShowYoYSeries);
+        flag(p.showMoMSeries, setShowMoMSeries);
+        flag(p.showControlLines, setShowControlLines);
+        flag(p.showHolidays, setShowHolidays);
+        flag(p.showAdjusted, setShowAdjusted);
+        flag(p.showForecast, setShowForecast);
+        flag(p.showFyProjection, setShowFyProjection);
+        if (isForecastModel(p.forecastModel)) setForecastModel(p.forecastModel);
+        if (typeof p.forecastHorizon === "number" && FORECAST_HORIZONS.includes(p.forecastHorizon)) setForecastHorizon(p.forecastHorizon);
+        if (["monthly", "weekly", "yearly"].includes(p.tablePeriod)) setTablePeriod(p.tablePeriod);
+        if (isUnitId(p.displayUnit) && compatibleUnits(unit).includes(p.displayUnit)) setDisplayUnit(p.displayUnit);
+      })
+      .catch(() => undefined)
+      .finally(() => {
+        if (!cancelled) setViewPrefsLoaded(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [viewPrefsKey]);
+
+  useEffect(() => {
+    if (!viewPrefsLoaded) return;
+    writeKey(viewPrefsKey, {
+      rangeDays,
+      aggFreq,
+      showUnitsSeries,
+      showPrevYearSeries,
+      showYoYSeries,
+      showMoMSeries,
+      showControlLines,
+      showHolidays,
+      showAdjusted,
+      showForecast,
+      showFyProjection,
+      forecastModel,
+      forecastHorizon,
+      tablePeriod,
+      displayUnit,
+      rolling: customRolling,
+    }).catch(() => undefined); // reported by the storage banner
+  }, [
+    viewPrefsKey,
+    viewPrefsLoaded,
+    rangeDays,
+    aggFreq,
+    customRolling,
+    showUnitsSeries,
+    showPrevYearSeries,
+    showYoYSeries,
+    showMoMSeries,
+    showControlLines,
+    showHolidays,
+    showAdjusted,
+    showForecast,
+    showFyProjection,
+    forecastModel,
+    forecastHorizon,
+    tablePeriod,
+    displayUnit,
+  ]);
+
   useEffect(() => {
     document.title = title;
   }, [title]);
 
-  // Load CSV from public path
+  // Restore saved series
+  useEffect(() => {
+    let cancelled = false;
+    setHydrated(false);
+
+    // the bundled column tells file rows from user edits when a v1 record is migrated
+    loadDataset(defaultCsvPath)
+      .then((ds) => datasetColumn(ds, valueColumnKey)?.values)
+      .catch(() => undefined)
+      .then((bundled) => readKey(storageKeys.series(type, bundled)))
+      .then((rec) => {
+        if (cancelled || !rec) return;
+        const points = new Map<string, SeriesPoint>();
+        for (const [k, p] of Object.entries(rec.points || {})) {
+          const d = parseISOKey(k);
+          const n = Number(p?.value);
+          if (d && Number.isFinite(n)) points.set(d, { value: n, source: p.source, updatedAt: p.updatedAt || 0 });
+        }
+        const removed = new Map<string, number>();
+        for (const [k, ts] of Object.entries(rec.removed || {})) if (parseISOKey(k)) removed.set(k, Number(ts) || 0);
+        setSeriesState({ points, removed });
+      })
+      .catch((e: Error) => {
+        if (!cancelled) setErrors([e.message]);
+      })
+      .finally(() => {
+        if (!cancelled) setHydrated(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [type, defaultCsvPath, valueColumnKey]);
+
+  // Load CSV from public path (shared multi-column dataset; one fetch per file across tabs)
+  // and reconcile it with what is stored instead of replacing it
   useEffect(() => {
+    if (!hydrated || !reconcileStore.loaded) return;
     let cancelled = false;
 
     async function loadDefaultCSV() {
       try {
-        const url = `${encodeURI(defaultCsvPath)}?v=${Date.now()}`;
-        const res = await fetch(url);
-        if (!res.ok) throw new Error(`HTTP ${res.status}`);
-        const text = await res.text();
-
-        const { parsed, errors: errs } = csvParse(text, valueColumnKey);
+        const ds = await loadDataset(defaultCsvPath);
         if (cancelled) return;
 
-        if (!parsed.length) {
+        const col = datasetColumn(ds, valueColumnKey);
+        setFileDuplicates(ds.duplicates);
+        if (!col || !col.values.size) {
           setErrors((prev) => (prev.length ? prev : [`Default CSV loaded but no valid rows found for ${type}.`]));
           return;
         }
 
-        const m = new Map<string, number>();
-        for (const r of parsed) m.set(r.date, r.value);
-
-        setDataMap(m);
-
-        if (errs.length) {
-          setFetchStatus(`Loaded (${parsed.length} rows) with ${errs.length} issues.`);
-        } else {
-          setFetchStatus(`Loaded (${parsed.length} rows).`);
-        }
+        const prev = seriesStateRef.current;
+        const { points, removed, stats } = reconcileWithFile(prev.points, prev.removed, col.values, reconcilePolicy);
+        setSeriesState({ points, removed });
+        setVintagesDue(true);
+
+        const issues = ds.rowErrors.length + col.errors.length;
+        setFetchStatus(
+          `Loaded (${col.values.size} rows)${issues ? ` with ${issues} issues` : ""}` +
+            `${stats.keptUserEdits ? ` · kept ${stats.keptUserEdits} user edits` : ""}` +
+            `${stats.overriddenUserEdits ? ` · file replaced ${stats.overriddenUserEdits} user edits` : ""}.`
+        );
       } catch {
         if (!cancelled) {
           setErrors((prev) => (prev.length ? prev : [`Could not load default CSV (${defaultCsvPath}).`]));
@@ -837,19 +982,60 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
     return () => {
       cancelled = true;
     };
-  }, [defaultCsvPath, type, valueColumnKey]);
+  }, [defaultCsvPath, type, valueColumnKey, hydrated, reconcileStore.loaded, reconcilePolicy]);
 
   useEffect(() => {
-    const obj = Object.fromEntries(dataMap.entries());
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(obj));
-  }, [dataMap, STORAGE_KEY]);
+    if (!hydrated) return;
+    const rec = {
+      points: Object.fromEntries(seriesState.points.entries()),
+      removed: Object.fromEntries(seriesState.removed.entries()),
+    };
+    writeKey(seriesStorageKey, rec).catch((e: Error) => {
+      setErrors((prev) => (prev.includes(e.message) ? prev : [...prev, e.message]));
+    });
+  }, [seriesState, seriesStorageKey, hydrated]);
 
-  const sortedDaily = useMemo<DailyPoint[]>(() => {
+  // Parsed + diffed view of the pending import (recomputed when the date convention changes)
+  const importPreview = useMemo(() => {
+    if (!pendingImport) return null;
+    const { parsed: raw, errors: errs, column } = csvParse(pendingImport.text, valueColumnKey, {
+      dateConvention: pendingImport.convention,
+    });
+    // a value header naming another unit (e.g. an export made in TWh) is converted to the stored unit
+    const fileUnit = column ? unitFromHeader(column, unit) : null;
+    const parsed =
+      fileUnit && fileUnit !== unit
+        ? raw.map((r) => ({ date: r.date, value: Number(convertValue(r.value, fileUnit, unit).toPrecision(12)) }))
+        : raw;
+    return { parsed, errors: errs, fileUnit, diff: diffImport(valuesOf(dataMap), parsed, errs) };
+  }, [pendingImport, valueColumnKey, unit, dataMap]);
+
+  // Stored unit (data quality, edits)
+  const storedDaily = useMemo<DailyPoint[]>(() => {
     return Array.from(dataMap.entries())
-      .map(([d, v]) => ({ date: d, value: v }))
+      .map(([d, p]) => ({ date: d, value: p.value }))
       .sort((a, b) => sortISO(a.date, b.date));
   }, [dataMap]);
 
+  // Display unit (charts, KPIs, tables, exports)
+  const sortedDaily = useMemo<DailyPoint[]>(
+    () => (unitScale === 1 ? storedDaily : storedDaily.map((d) => ({ date: d.date, value: d.value * unitScale }))),
+    [storedDaily, unitScale]
+  );
+
+  // ✅ a data update (bundled file / import / auto-fetch) with a new latest day saves every model's forecast from it
+  // as a vintage (stored unit); the fits run in the analysis worker
+  useEffect(() => {
+    if (!vintagesDue || !hydrated || !vintagesStore.loaded) return;
+    setVintagesDue(false);
+    if (!storedDaily.length) return;
+    const models = missingVintageModels(vintages, storedDaily[storedDaily.length - 1].date);
+    if (!models.length) return;
+    runInWorker({ kind: "vintages", history: storedDaily, models, createdAt: Date.now() }).then((fresh) => {
+      if (fresh.length) setVintages((v) => addVintages(v, fresh));
+    });
+  }, [vintagesDue, hydrated, vintagesStore.loaded, storedDaily, vintages, setVintages]);
+
   useEffect(() => {
     if (!sortedDaily.length) return;
     const lastIso = sortedDaily[sortedDaily.length - 1].date;
@@ -859,209 +1045,94 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
 
   const dailyLookup = useMemo(() => new Map(sortedDaily.map((d) => [d.date, d.value] as const)), [sortedDaily]);
 
-  const monthAggMap = useMemo(() => buildMonthAggMap(sortedDaily), [sortedDaily]);
+  // Observed + interpolated days (interpolation per the gap policy; "none" = observed only)
+  const filledSeries = useMemo(() => fillGaps(sortedDaily, gapPolicy.fill), [sortedDaily, gapPolicy.fill]);
+
+  // Trend / weekly / annual split (analysis worker); the adjusted series feeds the chart when "Seasonally adjusted" is on
+  const decomposeTask = useMemo<AnalysisTask<"decompose">>(() => ({ kind: "decompose", series: filledSeries }), [filledSeries]);
+  const { result: decomposed } = useAnalysis(decomposeTask);
+  const decomposition = decomposed?.decomposition ?? null;
+  const adjustedFilled = decomposed?.adjusted ?? filledSeries;
+  const chartAdjusted = showAdjusted && !!decomposition?.hasWeekly;
+
+  // ✅ forecast of the raw daily values (analysis worker), only while the chart or the FY-end projection shows it:
+  // the chart horizon, out to 31 Mar only for the projection; fitted once edits settle
+  const forecastHistory = useSettled(sortedDaily, FORECAST_SETTLE_MS);
+  const forecastTask = useMemo<AnalysisTask<"forecast"> | null>(() => {
+    if (!forecastHistory.length || (!showForecast && !showFyProjection)) return null;
+    const lastIso = forecastHistory[forecastHistory.length - 1].date;
+    const horizon = Math.max(showForecast ? forecastHorizon : 0, showFyProjection ? daysToFyEnd(lastIso) : 0);
+    return { kind: "forecast", history: forecastHistory, model: forecastModel, horizon };
+  }, [forecastHistory, showForecast, showFyProjection, forecastModel, forecastHorizon]);
+  const { result: forecast, pending: forecastPending } = useAnalysis(forecastTask);
 
   const supportsRollingSum = calcMode === "sum";
 
-  const dailyForChart = useMemo<DailyChartPoint[]>(() => {
-    if (!sortedDaily.length) return [];
+  // ✅ rolling / monthly views read the day index; long or median / max views run in a worker
+  const rollingWindow = rollingSpec?.window;
+  const rollingStat = rollingSpec?.stat;
+  const rollingHalfLife = rollingSpec?.halfLife;
+  const chartRequest = useMemo<ChartRequest | null>(() => {
+    if (!sortedDaily.length) return null;
 
     const lastIso = sortedDaily[sortedDaily.length - 1].date;
     const effectiveTo = toIso || lastIso;
     const effectiveFrom = fromIso || isoMinusDays(lastIso, clamp(rangeDays, 7, 3650));
 
-    const f = effectiveFrom <= effectiveTo ? effectiveFrom : effectiveTo;
-    const t = effectiveFrom <= effectiveTo ? effectiveTo : effectiveFrom;
-
-    const filtered = sortedDaily.filter((d) => d.date >= f && d.date <= t);
-
-    const sumCountRangeInclusive = (startIso: string, endIso: string) => {
-      if (startIso > endIso) return { sum: null as number | null, count: 0 };
-      let sum = 0;
-      let count = 0;
-      let cur = startIso;
-      while (cur <= endIso) {
-        const v = dailyLookup.get(cur);
-        if (v != null) {
-          sum += v;
-          count += 1;
-        }
-        cur = isoPlusDays(cur, 1);
-      }
-      return { sum: count ? sum : null, count };
+    return {
+      series: chartAdjusted ? adjustedFilled : filledSeries,
+      policy: gapPolicy,
+      fromIso: effectiveFrom <= effectiveTo ? effectiveFrom : effectiveTo,
+      toIso: effectiveFrom <= effectiveTo ? effectiveTo : effectiveFrom,
+      view: aggFreq === "daily" ? "daily" : aggFreq === "monthly" ? "monthly" : "rolling",
+      rolling:
+        rollingWindow != null && rollingStat != null && rollingHalfLife != null
+          ? { window: rollingWindow, stat: rollingStat, halfLife: rollingHalfLife }
+          : null,
+      calcMode,
+      basis: yoyBasis,
     };
-
-    const isRollingAvg30 = aggFreq === "rolling30_avg";
-    const isRollingAvg14 = aggFreq === "rolling14_avg";
-    const isRollingSum30 = aggFreq === "rolling30_sum";
-    const isWeeklyRollingAvg7 = aggFreq === "weekly_roll7_avg";
-
-    if (aggFreq === "daily") {
-      const sameDayPrevYear = (iso: string) => `${Number(iso.slice(0, 4)) - 1}${iso.slice(4)}`;
-      const sameDayPrevMonth = (iso: string) => {
-        const y = Number(iso.slice(0, 4));
-        const m = Number(iso.slice(5, 7));
-        const d = Number(iso.slice(8, 10));
-        const dt = new Date(Date.UTC(y, m - 2, d));
-        const iso2 = dt.toISOString().slice(0, 10);
-        return Number(iso2.slice(8, 10)) === d ? iso2 : null;
-      };
-
-      return filtered.map((d) => {
-        const pyDate = sameDayPrevYear(d.date);
-        const pmDate = sameDayPrevMonth(d.date);
-        const py = dailyLookup.get(pyDate) ?? null;
-        const pm = pmDate ? dailyLookup.get(pmDate) ?? null : null;
-
-        return {
-          label: formatDDMMYYYY(d.date),
-          units: d.value,
-          prev_year_units: py,
-          yoy_pct: py != null ? growthPct(d.value, py) : null,
-          mom_pct: pm != null ? growthPct(d.value, pm) : null,
-        };
-      });
+  }, [sortedDaily, filledSeries, chartAdjusted, adjustedFilled, gapPolicy, fromIso, toIso, rangeDays, aggFreq, rollingWindow, rollingStat, rollingHalfLife, calcMode, yoyBasis]);
+
+  const { points: dailyForChart, pending: chartPending } = useChartSeries(chartRequest);
+
+  // Holiday bands (day before → day after) for the day-level views, clipped to the plotted labels
+  const holidayMarks = useMemo(() => {
+    const marks: Array<{ x1: string; x2: string; name: string; kind: HolidayKind }> = [];
+    const byLabel = new Map<string, string>();
+    if (!showHolidays || !chartRequest || chartRequest.view === "monthly" || !dailyForChart.length) return { marks, byLabel };
+
+    const labels = new Set(dailyForChart.map((p) => p.label));
+    for (const h of holidaysBetween(chartRequest.fromIso, chartRequest.toIso)) {
+      const at = formatDDMMYYYY(h.date);
+      if (!labels.has(at)) continue;
+      const before = formatDDMMYYYY(isoMinusDays(h.date, 1));
+      const after = formatDDMMYYYY(isoPlusDays(h.date, 1));
+      marks.push({ x1: labels.has(before) ? before : at, x2: labels.has(after) ? after : at, name: h.name, kind: h.kind });
+      byLabel.set(at, byLabel.has(at) ? `${byLabel.get(at)}, ${h.name}` : h.name);
     }
-
-    // 30-day rolling avg/sum (existing)
-    if (isRollingAvg30 || isRollingSum30) {
-      const points: DailyChartPoint[] = [];
-      let cur = f;
-      while (cur <= t) {
-        const start = isoMinusDays(cur, 29);
-        const currSC = sumCountRangeInclusive(start, cur);
-
-        const currVal =
-          isRollingSum30 ? (currSC.sum ?? 0) : currSC.sum != null && currSC.count ? currSC.sum / currSC.count : 0;
-
-        const curPrevYear = isoMinusDays(cur, 365);
-        const startPrevYear = isoMinusDays(curPrevYear, 29);
-        const prevSC = sumCountRangeInclusive(startPrevYear, curPrevYear);
-
-        const prevVal =
-          isRollingSum30
-            ? prevSC.sum
-            : prevSC.sum != null && prevSC.count
-              ? prevSC.sum / prevSC.count
-              : null;
-
-        points.push({
-          label: formatDDMMYYYY(cur),
-          units: currVal,
-          prev_year_units: prevVal,
-          yoy_pct: prevVal != null ? growthPct(currVal, prevVal) : null,
-          mom_pct: null,
-        });
-
-        cur = isoPlusDays(cur, 1);
-      }
-      return points;
-    }
-
-    // ✅ NEW: Fortnightly Rolling (AVG) (last 14 days)
-    if (isRollingAvg14) {
-      const points: DailyChartPoint[] = [];
-      let cur = f;
-      while (cur <= t) {
-        const start = isoMinusDays(cur, 13); // last 14 days inclusive
-        const currSC = sumCountRangeInclusive(start, cur);
-        const currVal = currSC.sum != null && currSC.count ? currSC.sum / currSC.count : 0;
-
-        // YoY compare vs same 14-day window last year (calendar shift by 365 days, consistent with existing rolling)
-        const curPrevYear = isoMinusDays(cur, 365);
-        const startPrevYear = isoMinusDays(curPrevYear, 13);
-        const prevSC = sumCountRangeInclusive(startPrevYear, curPrevYear);
-        const prevVal = prevSC.sum != null && prevSC.count ? prevSC.sum / prevSC.count : null;
-
-        points.push({
-          label: formatDDMMYYYY(cur),
-          units: currVal,
-          prev_year_units: prevVal,
-          yoy_pct: prevVal != null ? growthPct(currVal, prevVal) : null,
-          mom_pct: null,
-        });
-
-        cur = isoPlusDays(cur, 1);
-      }
-      return points;
-    }
-
-    // ✅ Weekly Rolling (AVG) (last 7 days)
-    if (isWeeklyRollingAvg7) {
-      const points: DailyChartPoint[] = [];
-      let cur = f;
-
-      while (cur <= t) {
-        const start = isoMinusDays(cur, 6); // last 7 days inclusive
-        const currSC = sumCountRangeInclusive(start, cur);
-        const currVal = currSC.sum != null && currSC.count ? currSC.sum / currSC.count : 0;
-
-        // YoY compare vs same 7-day window last year (calendar shift by 365 days, consistent with existing rolling)
-        const curPrevYear = isoMinusDays(cur, 365);
-        const startPrevYear = isoMinusDays(curPrevYear, 6);
-        const prevSC = sumCountRangeInclusive(startPrevYear, curPrevYear);
-        const prevVal = prevSC.sum != null && prevSC.count ? prevSC.sum / prevSC.count : null;
-
-        // WoW%: compare to previous 7-day window ending 7 days earlier
-        const curPrevWeekEnd = isoMinusDays(cur, 7);
-        const curPrevWeekStart = isoMinusDays(curPrevWeekEnd, 6);
-        const prevWSC = sumCountRangeInclusive(curPrevWeekStart, curPrevWeekEnd);
-        const prevWVal = prevWSC.sum != null && prevWSC.count ? prevWSC.sum / prevWSC.count : null;
-
-        points.push({
-          label: formatDDMMYYYY(cur),
-          units: currVal,
-          prev_year_units: prevVal,
-          yoy_pct: prevVal != null ? growthPct(currVal, prevVal) : null,
-          mom_pct: prevWVal != null ? growthPct(currVal, prevWVal) : null, // WoW%
-        });
-
-        cur = isoPlusDays(cur, 1);
-      }
-
-      return points;
-    }
-
-    // monthly (unchanged)
-    const startYM = monthKey(f);
-    const endYM = monthKey(t);
-
-    const months: string[] = [];
-    let cursor = startYM;
-    while (cursor <= endYM) {
-      if (monthAggMap.has(cursor)) months.push(cursor);
-      cursor = addMonths(cursor, 1);
-      if (months.length > 600) break;
-    }
-
-    return months.map((m) => {
-      const rec = monthAggMap.get(m)!;
-      const curr = calcMode === "sum" ? rec.sum : rec.sum / rec.count;
-
-      const prevMonth = addMonths(m, -1);
-      const prevRec = monthAggMap.get(prevMonth);
-      const prevVal = prevRec ? (calcMode === "sum" ? prevRec.sum : prevRec.sum / prevRec.count) : null;
-
-      const prevYearMonth = `${getYear(m) - 1}-${String(getMonth(m)).padStart(2, "0")}`;
-      const pyRec = monthAggMap.get(prevYearMonth);
-      const pyVal = pyRec ? (calcMode === "sum" ? pyRec.sum : pyRec.sum / pyRec.count) : null;
-
-      return {
-        label: m,
-        units: curr,
-        prev_year_units: pyVal,
-        yoy_pct: pyVal != null ? growthPct(curr, pyVal) : null,
-        mom_pct: prevVal != null ? growthPct(curr, prevVal) : null,
-      };
-    });
-  }, [sortedDaily, dailyLookup, fromIso, toIso, rangeDays, aggFreq, calcMode, monthAggMap]);
+    return { marks, byLabel };
+  }, [showHolidays, chartRequest, dailyForChart]);
+
+  // chart years the bundled holiday calendar doesn't cover
+  const holidayCalendarGap = useMemo(() => {
+    if (!chartRequest) return null;
+    const y0 = Number(chartRequest.fromIso.slice(0, 4));
+    const y1 = Number(chartRequest.toIso.slice(0, 4));
+    const { from, to } = HOLIDAY_CALENDAR_YEARS;
+    const span = (a: number, b: number) => (a === b ? `${a}` : `${a}–${b}`);
+    const gaps: string[] = [];
+    if (y0 < from) gaps.push(span(y0, Math.min(y1, from - 1)));
+    if (y1 > to) gaps.push(span(Math.max(y0, to + 1), y1));
+    return gaps.length ? gaps.join(" and ") : null;
+  }, [chartRequest]);
 
   const controlStatsLeft = useMemo(() => {
     if (!showControlLines) return null;
     if (!dailyForChart.length) return null;
 
     const values: number[] = [];
-    if (showUnitsSeries) for (const p of dailyForChart) values.push(p.units);
+    if (showUnitsSeries) for (const p of dailyForChart) if (p.units != null) values.push(p.units);
     else if (showPrevYearSeries)
       for (const p of dailyForChart) if (p.prev_year_units != null) values.push(p.prev_year_units);
     else return null;
@@ -1105,7 +1176,34 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
     return base as any[];
   }, [dailyForChart, controlStatsLeft, controlStatsYoY]);
 
-  const anyTotalsShown = showUnitsSeries || showPrevYearSeries || (showControlLines && !!controlStatsLeft);
+  // Forecast rows after the last day (daily view of the raw series, range ending on the latest day)
+  const forecastRows = useMemo(() => {
+    if (!showForecast || !forecast || !chartRequest) return [];
+    if (chartRequest.view !== "daily" || chartAdjusted || chartRequest.toIso !== forecast.origin) return [];
+    return forecast.points.slice(0, forecastHorizon).map((p) => ({
+      label: formatDDMMYYYY(p.date),
+      units: null,
+      prev_year_units: null,
+      yoy_pct: null,
+      mom_pct: null,
+      incomplete: false,
+      forecast: p.mean,
+      fc80: [p.lo80, p.hi80],
+      fc95: [p.lo95, p.hi95],
+    }));
+  }, [showForecast, forecast, chartRequest, chartAdjusted, forecastHorizon]);
+
+  const chartData = useMemo(() => {
+    if (!forecastRows.length) return dailyForChartWithControl;
+    // the forecast line starts at the last actual value
+    const rows = dailyForChartWithControl.slice();
+    const last = rows[rows.length - 1];
+    if (last) rows[rows.length - 1] = { ...last, forecast: last.units };
+    return [...rows, ...forecastRows];
+  }, [dailyForChartWithControl, forecastRows]);
+
+  const anyTotalsShown =
+    showUnitsSeries || showPrevYearSeries || (showControlLines && !!controlStatsLeft) || forecastRows.length > 0;
   const anyPctShown = showYoYSeries || showMoMSeries || (showControlLines && !!controlStatsYoY);
 
   const leftAxisDomain = useMemo(() => {
@@ -1120,8 +1218,9 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
       vals.push(...dailyForChartWithControl.map((d) => d.__m1_units));
       vals.push(...dailyForChartWithControl.map((d) => d.__m2_units));
     }
+    for (const r of forecastRows) vals.push(r.fc95[0], r.fc95[1]);
     return computeDomain(vals, 0.05, 0.5);
-  }, [dailyForChartWithControl, showUnitsSeries, showPrevYearSeries, showControlLines]);
+  }, [dailyForChartWithControl, forecastRows, showUnitsSeries, showPrevYearSeries, showControlLines]);
 
   const rightAxisDomain = useMemo(() => {
     if (!dailyForChartWithControl.length) return undefined;
@@ -1145,13 +1244,22 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
   const monthlyForChart = useMemo(() => {
     if (!monthlyAgg.length) return [];
     const last = monthlyAgg.slice(Math.max(0, monthlyAgg.length - 24));
+    const lastIso = sortedDaily[sortedDaily.length - 1].date;
+
+    // other bases: YoY over the month's span (up to the latest day) under the basis
+    const monthYoY = (m: string) => {
+      const end = isoMinusDays(`${addMonths(m, 1)}-01`, 1);
+      const w = yoyWindows(filledSeries, isoToDay(`${m}-01`), isoToDay(end > lastIso ? lastIso : end), calcMode, gapPolicy, yoyBasis);
+      return w.curr.value != null && w.prev.value != null ? growthPct(w.curr.value, w.prev.value) : null;
+    };
+
     return last.map((m) => ({
       month: m.month,
       value: m.value,
-      yoy_pct: m.yoy_pct,
+      yoy_pct: yoyBasis === "calendar" ? m.yoy_pct : monthYoY(m.month),
       mom_pct: m.mom_pct,
     }));
-  }, [monthlyAgg]);
+  }, [monthlyAgg, sortedDaily, filledSeries, calcMode, gapPolicy, yoyBasis]);
 
   // ✅ Peak Demand Met requirement: average of 24 monthly values (only for this tab)
   const monthlyFooterAvgForPeakDemand = useMemo(() => {
@@ -1169,53 +1277,52 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
     return vals.reduce((a, b) => a + b, 0) / vals.length;
   }, [monthlyForChart]);
 
-  const kpis = useMemo(() => computeKPIs(sortedDaily, calcMode), [sortedDaily, calcMode]);
+  const kpis = useMemo(
+    () => computeKPIs(filledSeries, calcMode, gapPolicy, yoyBasis, showFyProjection ? forecast : null),
+    [filledSeries, calcMode, gapPolicy, yoyBasis, showFyProjection, forecast]
+  );
 
   const weeklyRows = useMemo(() => {
     if (!sortedDaily.length) return [];
 
-    const weekSum = new Map<string, number>();
-    const weekCount = new Map<string, number>();
+    const firstIso = sortedDaily[0].date;
+    const lastIso = sortedDaily[sortedDaily.length - 1].date;
 
-    for (const d of sortedDaily) {
-      const wk = startOfWeekISO(d.date);
-      weekSum.set(wk, (weekSum.get(wk) || 0) + d.value);
-      weekCount.set(wk, (weekCount.get(wk) || 0) + 1);
-    }
+    // weeks are clipped to the data span; a week the data starts part-way through is incomplete
+    const weekWindow = (wk: string) => {
+      const start = wk < firstIso ? firstIso : wk;
+      const end = isoPlusDays(wk, 6) > lastIso ? lastIso : isoPlusDays(wk, 6);
+      if (start > end) return null;
+      const w = windowValue(filledSeries, start, end, calcMode, gapPolicy);
+      return { ...w, incomplete: w.incomplete || start > wk };
+    };
 
-    const weeks = Array.from(weekSum.keys()).sort(sortISO);
+    const weeks = Array.from(new Set(filledSeries.points.map((d) => startOfWeekISO(d.date)))).sort(sortISO);
     const lastWeeks = weeks.slice(Math.max(0, weeks.length - 104));
 
     return lastWeeks.map((wk) => {
-      const sum = weekSum.get(wk)!;
-      const cnt = weekCount.get(wk)!;
-      const curr = calcMode === "sum" ? sum : sum / cnt;
-
-      const prevWk = isoMinusDays(wk, 7);
-      const prevSum = weekSum.get(prevWk);
-      const prevCnt = weekCount.get(prevWk);
-      const prevVal = prevSum != null && prevCnt ? (calcMode === "sum" ? prevSum : prevSum / prevCnt) : null;
-
-      const prevYearWk = isoMinusDays(wk, 364);
-      const pySum = weekSum.get(prevYearWk);
-      const pyCnt = weekCount.get(prevYearWk);
-      const pyVal = pySum != null && pyCnt ? (calcMode === "sum" ? pySum : pySum / pyCnt) : null;
+      const curr = weekWindow(wk)!;
+      const prev = weekWindow(isoMinusDays(wk, 7));
+      // YoY: the same (clipped) week span under the comparison basis
+      const start = wk < firstIso ? firstIso : wk;
+      const end = isoPlusDays(wk, 6) > lastIso ? lastIso : isoPlusDays(wk, 6);
+      const yoy = yoyWindows(filledSeries, isoToDay(start), isoToDay(end), calcMode, gapPolicy, yoyBasis);
 
       return {
         weekStart: wk,
-        value: curr,
-        wow_pct: prevVal != null ? growthPct(curr, prevVal) : null,
-        yoy_pct: pyVal != null ? growthPct(curr, pyVal) : null,
+        value: curr.value,
+        wow_pct: curr.value != null && prev?.value != null ? growthPct(curr.value, prev.value) : null,
+        yoy_pct: yoy.curr.value != null && yoy.prev.value != null ? growthPct(yoy.curr.value, yoy.prev.value) : null,
+        incomplete: curr.value != null && curr.incomplete,
       };
     });
-  }, [sortedDaily, calcMode]);
+  }, [sortedDaily, filledSeries, gapPolicy, calcMode, yoyBasis]);
 
   const yearlyFYRows = useMemo(() => {
     if (!sortedDaily.length) return [];
 
-    const fySum = new Map<string, number>();
-    const fyCount = new Map<string, number>();
-    const fyMaxDate = new Map<string, string>();
+    const firstIso = sortedDaily[0].date;
+    const lastIso = sortedDaily[sortedDaily.length - 1].date;
 
     const fyLabelFromIso = (iso: string) => {
       const y = Number(iso.slice(0, 4));
@@ -1224,30 +1331,9 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
       return `FY${String(fyEndYear).slice(2)}`;
     };
 
-    for (const d of sortedDaily) {
-      const fy = fyLabelFromIso(d.date);
-      fySum.set(fy, (fySum.get(fy) || 0) + d.value);
-      fyCount.set(fy, (fyCount.get(fy) || 0) + 1);
-      const curMax = fyMaxDate.get(fy) || "0000-00-00";
-      if (d.date > curMax) fyMaxDate.set(fy, d.date);
-    }
-
-    const fys = Array.from(fySum.keys()).sort((a, b) => Number(a.slice(2)) - Number(b.slice(2)));
-
-    const isoAddYears = (iso: string, deltaYears: number) => {
-      const y = Number(iso.slice(0, 4));
-      const m = Number(iso.slice(5, 7));
-      const d = Number(iso.slice(8, 10));
-      const tryDt = new Date(Date.UTC(y + deltaYears, m - 1, d));
-      if (
-        tryDt.getUTCFullYear() === y + deltaYears &&
-        tryDt.getUTCMonth() === m - 1 &&
-        tryDt.getUTCDate() === d
-      )
-        return tryDt.toISOString().slice(0, 10);
-      const lastDay = new Date(Date.UTC(y + deltaYears, m, 0));
-      return lastDay.toISOString().slice(0, 10);
-    };
+    const fys = Array.from(new Set(filledSeries.points.map((d) => fyLabelFromIso(d.date)))).sort(
+      (a, b) => Number(a.slice(2)) - Number(b.slice(2))
+    );
 
     const fyStartIsoFromFYLabel = (fy: string) => {
       const yy = Number(fy.slice(2));
@@ -1256,74 +1342,128 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
       return `${fyStartYear}-04-01`;
     };
 
-    const sumCountInclusive = (startIso: string, endIso: string, dailyLookup: Map<string, number>) => {
-      if (startIso > endIso) return { sum: null as number | null, count: 0 };
-      let sum = 0;
-      let count = 0;
-      let cur = startIso;
-      while (cur <= endIso) {
-        const v = dailyLookup.get(cur);
-        if (v != null) {
-          sum += v;
-          count += 1;
-        }
-        cur = isoPlusDays(cur, 1);
-      }
-      return { sum: count ? sum : null, count };
+    const windowOf = (startIso: string, endIso: string) =>
+      windowValue(filledSeries, startIso, endIso, calcMode, gapPolicy);
+
+    // FY value over the part of the year the data covers
+    const fyWindow = (fy: string) => {
+      const start = fyStartIsoFromFYLabel(fy);
+      const end = `${2000 + Number(fy.slice(2))}-03-31`;
+      const s = start < firstIso ? firstIso : start;
+      const e = end > lastIso ? lastIso : end;
+      if (s > e) return null;
+      const w = windowOf(s, e);
+      return { ...w, incomplete: w.incomplete || s > start, minDate: s, maxDate: e };
     };
 
     return fys.map((fy) => {
-      const sum = fySum.get(fy)!;
-      const cnt = fyCount.get(fy)!;
-      const curr = calcMode === "sum" ? sum : sum / cnt;
+      const curr = fyWindow(fy)!;
 
       const prevFY = `FY${String(Number(fy.slice(2)) - 1).padStart(2, "0")}`;
-      const prevSum = fySum.get(prevFY);
-      const prevCnt = fyCount.get(prevFY);
-      const prev = prevSum != null && prevCnt ? (calcMode === "sum" ? prevSum : prevSum / prevCnt) : null;
+      const prev = fyWindow(prevFY);
 
       const fyEndYear = 2000 + Number(fy.slice(2));
       const fyEnd = `${fyEndYear}-03-31`;
-      const maxDate = fyMaxDate.get(fy)!;
-      const isComplete = maxDate >= fyEnd;
+      const isComplete = curr.maxDate >= fyEnd;
 
       let yoy: number | null = null;
 
-      if (prevSum != null && prevCnt) {
-        if (isComplete) {
-          yoy = prev != null ? growthPct(curr, prev) : null;
+      if (curr.value != null && prev?.value != null) {
+        if (isComplete && yoyBasis !== "leap") {
+          yoy = growthPct(curr.value, prev.value);
+        } else if (isComplete) {
+          // whole years with 29 Feb left out of both
+          const side = (w: { minDate: string; maxDate: string }) =>
+            comparableWindow(filledSeries, isoToDay(w.minDate), isoToDay(w.maxDate), calcMode, gapPolicy, yoyBasis);
+          const currW = side(curr);
+          const prevW = side(prev);
+          yoy = currW.value != null && prevW.value != null ? growthPct(currW.value, prevW.value) : null;
         } else {
-          const start = fyStartIsoFromFYLabel(fy);
-          const prevStart = fyStartIsoFromFYLabel(prevFY);
-          const prevEnd = isoAddYears(maxDate, -1);
-
-          const currSC = sumCountInclusive(start, maxDate, dailyLookup);
-          const prevSC = sumCountInclusive(prevStart, prevEnd, dailyLookup);
-
-          const currVal =
-            calcMode === "sum"
-              ? currSC.sum
-              : currSC.sum != null && currSC.count
-                ? currSC.sum / currSC.count
-                : null;
-
-          const prevVal =
-            calcMode === "sum"
-              ? prevSC.sum
-              : prevSC.sum != null && prevSC.count
-                ? prevSC.sum / prevSC.count
-                : null;
-
-          yoy = currVal != null && prevVal != null ? growthPct(currVal, prevVal) : null;
+          // FY-to-date vs the same span of the previous FY (under the comparison basis)
+          const w = yoyWindows(filledSeries, isoToDay(fyStartIsoFromFYLabel(fy)), isoToDay(curr.maxDate), calcMode, gapPolicy, yoyBasis);
+          yoy = w.curr.value != null && w.prev.value != null ? growthPct(w.curr.value, w.prev.value) : null;
         }
       }
 
-      return { fy, value: curr, yoy_pct: yoy };
+      return { fy, value: curr.value, yoy_pct: yoy, incomplete: curr.value != null && curr.incomplete };
     });
-  }, [sortedDaily, calcMode, dailyLookup]);
+  }, [sortedDaily, filledSeries, gapPolicy, calcMode, yoyBasis]);
 
   const hasData = sortedDaily.length > 0;
 
+  const qualityFindings = useMemo(
+    () => analyzeQuality(storedDaily, { fileDuplicates, journal }, (x) => fmtStored(x)),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [storedDaily, fileDuplicates, journal, valueDisplay, displayUnit]
+  );
+
+  // Entries table: latest 25, or 25 around the date picked in the data-quality panel
+  const entryRows = useMemo(() => {
+    if (!focusDate) return sortedDaily.slice(-25).reverse().map((r) => ({ date: r.date, value: r.value as number | null }));
+
+    let idx = sortedDaily.findIndex((r) => r.date >= focusDate);
+    if (idx < 0) idx = sortedDaily.length;
+    const rows: Array<{ date: string; value: number | null }> = sortedDaily
+      .slice(Math.max(0, idx - 12), idx + 12)
+      .map((r) => ({ date: r.date, value: r.value }));
+    if (!dailyLookup.has(focusDate)) {
+      rows.push({ date: focusDate, value: null });
+      rows.sort((a, b) => sortISO(a.date, b.date));
+    }
+    return rows.reverse();
+  }, [sortedDaily, dailyLookup, focusDate]);
+
+  useEffect(() => {
+    if (focusDate) focusRowRef.current?.scrollIntoView({ block: "center", behavior: "smooth" });
+  }, [focusDate]);
+
+  function toggleQualityReviewed(id: string) {
+    setQualityReviewed((prev) => {
+      const next = { ...prev };
+      if (next[id]) delete next[id];
+      else next[id] = Date.now();
+      return next;
+    });
+  }
+
+  function exportQualityChecklist() {
+    const text = findingsToChecklist(title, qualityFindings, qualityReviewed);
+    const blob = new Blob([text], { type: "text/markdown;charset=utf-8" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `india_${type}_data_quality_${new Date().toISOString().slice(0, 10)}.md`;
+    document.body.appendChild(a);
+    a.click();
+    a.remove();
+    URL.revokeObjectURL(url);
+  }
+
+  // Every user edit goes through here so it is journaled (undo / redo / audit log)
+  function commitEdit(action: JournalAction, note: string, edit: (prev: SeriesState) => SeriesState) {
+    const prev = seriesStateRef.current;
+    const next = edit(prev);
+    const changes = diffSeriesStates(prev, next);
+    seriesStateRef.current = next;
+    setSeriesState(next);
+    setJournal((j) => recordEdit(j, { action, note, author: editorName.trim(), changes }));
+    if (action === "import" || action === "fetch") setVintagesDue(true);
+    return changes.length;
+  }
+
+  function stepHistory(direction: "undo" | "redo") {
+    const res = stepJournal(journal, seriesStateRef.current, direction, editorName.trim());
+    if (!res) return;
+    seriesStateRef.current = res.state;
+    setSeriesState(res.state);
+    setJournal(res.journal);
+    setMsg(`${direction === "undo" ? "Undid" : "Redid"}: ${res.target.note || res.target.action}.`);
+  }
+
+  function exportJournal() {
+    downloadCSV(`india_${type}_audit_log_${new Date().toISOString().slice(0, 10)}.csv`, journalToCsv(journal));
+  }
+
   function upsertOne() {
     setMsg(null);
     setErrors([]);
@@ -1339,11 +1479,15 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
       setErrors([`Please enter a valid number.`]);
       return;
     }
-
-    setDataMap((prev) => {
-      const next = new Map(prev);
-      next.set(iso, v);
-      return next;
+    // typed in the display unit; stored in the series unit
+    const stored = unitScale === 1 ? v : Number((v / unitScale).toPrecision(12));
+
+    commitEdit("manual", `${formatDDMMYYYY(iso)} = ${stored}`, (prev) => {
+      const points = new Map(prev.points);
+      points.set(iso, makePoint(stored, "manual"));
+      const removed = new Map(prev.removed);
+      removed.delete(iso);
+      return { points, removed };
     });
 
     setMsg(`Saved ${formatDDMMYYYY(iso)}: ${fmtValue(v)}`);
@@ -1351,56 +1495,415 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
   }
 
   function removeDate(isoDate: string) {
-    setDataMap((prev) => {
-      const next = new Map(prev);
-      next.delete(isoDate);
-      return next;
+    commitEdit("remove", formatDDMMYYYY(isoDate), (prev) => {
+      const points = new Map(prev.points);
+      points.delete(isoDate);
+      // remember the removal so the bundled file doesn't bring the date back (user-edits-win)
+      const removed = new Map(prev.removed);
+      removed.set(isoDate, Date.now());
+      return { points, removed };
     });
   }
 
   function clearAll() {
-    if (!confirm(`Clear all stored data from this browser for ${seriesLabel}?`)) return;
-    setDataMap(new Map());
-    setMsg("Cleared all data.");
+    if (!confirm(`Clear all stored data from this browser for ${seriesLabel}? (You can undo this from the audit log.)`)) return;
+    const n = commitEdit("clear", `${dataMap.size} days`, () => ({ points: new Map(), removed: new Map() }));
+    setMsg(n ? "Cleared all data." : "Nothing to clear.");
   }
 
-  async function importCSV(file?: File) {
+  function stageImport(fileName: string, text: string) {
+    const { errors: errs, dateInference } = csvParse(text, valueColumnKey);
+    if (!dateInference) {
+      setErrors(errs.length ? errs.slice(0, 12) : ["No valid rows found in CSV."]);
+      return;
+    }
+
+    // Don't merge yet: date convention + merge diff are reviewed in the preview dialog
+    setPendingImport({ fileName, text, inference: dateInference, convention: dateInference.convention });
+  }
+
+  async function importFile(file?: File) {
     setMsg(null);
     setErrors([]);
+    setPendingImport(null);
+    setPendingExcel(null);
     if (!file) return;
 
     try {
-      const text = await file.text();
-      const { parsed, errors: errs } = csvParse(text, valueColumnKey);
-      if (errs.length) setErrors(errs.slice(0, 12));
-      if (!parsed.length) {
-        setErrors((e) => (e.length ? e : ["No valid rows found in CSV."]));
+      if (isExcelFile(file)) {
+        const wb = await readWorkbook(file);
+        if (!wb.sheets.some((s) => s.rows.length)) {
+          setErrors(["The workbook has no data."]);
+          return;
+        }
+        setPendingExcel(wb);
         return;
       }
-      setDataMap((prev) => mergeRecords(prev, parsed));
-      setMsg(`Imported ${parsed.length} rows${errs.length ? ` (with ${errs.length} issues)` : ""}.`);
+      stageImport(file.name, await file.text());
     } catch {
-      setErrors(["Could not read CSV."]);
+      setErrors([isExcelFile(file) ? "Could not read Excel file." : "Could not read CSV."]);
     } finally {
       if (fileRef.current) fileRef.current.value = "";
     }
   }
 
+  async function importPspFile(file?: File) {
+    setMsg(null);
+    setErrors([]);
+    setPendingPsp(null);
+    if (!file) return;
+
+    try {
+      if (!isPspFile(file)) {
+        setErrors(["Pick the PSP report as .xls / .xlsx or .pdf."]);
+        return;
+      }
+      const report = await readPspReport(file);
+      if (!Object.keys(report.values).length) {
+        setErrors([`No PSP figures found in ${file.name}.`, ...report.warnings]);
+        return;
+      }
+      setPendingPsp(report);
+    } catch (e) {
+      setErrors([`Could not read ${file.name}${(e as Error)?.message ? ` (${(e as Error).message})` : ""}.`]);
+    } finally {
+      if (pspFileRef.current) pspFileRef.current.value = "";
+    }
+  }
+
+  async function applyPsp(iso: string, seriesIds: string[]) {
+    if (!pendingPsp) return;
+    const report = pendingPsp;
+    const note = `PSP report ${formatDDMMYYYY(iso)} (${report.fileName})`;
+    const author = editorName.trim();
+    const updated: string[] = [];
+    const failed: string[] = [];
+
+    setPspBusy(true);
+    for (const t of pspTargets.filter((x) => seriesIds.includes(x.seriesId))) {
+      const value = pspValue(report, t.field, t.unit);
+      if (value == null) continue;
+      const rows = [{ date: iso, value }];
+      try {
+        if (t.seriesId === type) {
+          // this tab's series lives in memory; the others are merged in storage
+          commitEdit("import", note, (prev) => {
+            const diff = diffImport(valuesOf(prev.points), rows);
+            const removed = new Map(prev.removed);
+            removed.delete(iso);
+            return { points: applyMerge(prev.points, diff, "overwrite", "import").next, removed };
+          });
+        } else {
+          await mergeIntoStoredSeries(t.seriesId, rows, { action: "import", note, author, source: "import", policy: "overwrite" });
+        }
+        updated.push(t.label);
+      } catch {
+        failed.push(t.label);
+      }
+    }
+    setPspBusy(false);
+    setPendingPsp(null);
+
+    if (updated.length) setMsg(`PSP report for ${formatDDMMYYYY(iso)}: updated ${updated.join(", ")}.`);
+    if (failed.length) setErrors([`Could not save ${failed.join(", ")}.`]);
+  }
+
+  async function importIntradayFile(file?: File) {
+    setMsg(null);
+    setErrors([]);
+    if (!file || !intraday) return;
+
+    try {
+      const { days, errors: errs } = parseIntradayCsv(await file.text());
+      const dates = Object.keys(days);
+      if (!dates.length) {
+        setErrors([`No 15-minute blocks found in ${file.name}.`, ...errs.slice(0, 12)]);
+        return;
+      }
+
+      // incoming blocks replace stored ones; blocks the file leaves empty are kept.
+      // Stored blocks move to the file's unit so the record keeps one unit.
+      const merged = { ...convertBlocks(intradayRec.days, intradayRec.unit ?? unit, blockUnit) };
+      for (const d of dates) {
+        const prev = merged[d];
+        merged[d] = prev ? days[d].map((v, i) => (v == null ? prev[i] : v)) : days[d];
+      }
+      const touched = Object.fromEntries(dates.map((d) => [d, merged[d]] as const));
+      const { rows, skipped } = deriveDailyRows(touched, intraday, gapPolicy.minCoverage, convertBlock(1, blockUnit, unit));
+
+      setIntradayRec({ days: merged, unit: blockUnit });
+      if (rows.length) {
+        commitEdit("import", `15-minute blocks (${blockUnit}) from ${file.name} (${INTRADAY_AGGREGATE_LABELS[intraday]})`, (prev) => {
+          const diff = diffImport(valuesOf(prev.points), rows);
+          const removed = new Map(prev.removed);
+          for (const r of rows) removed.delete(r.date);
+          return { points: applyMerge(prev.points, diff, "overwrite", "import").next, removed };
+        });
+      }
+
+      setMsg(
+        `Imported 15-minute blocks (${blockUnit}) for ${dates.length} day(s); daily value derived for ${rows.length}` +
+          (skipped.length ? ` (${skipped.length} below ${Math.round(gapPolicy.minCoverage * 100)}% of blocks left out)` : "") +
+          "."
+      );
+      if (errs.length) setErrors(errs.slice(0, 12));
+    } catch {
+      setErrors([`Could not read ${file.name}.`]);
+    } finally {
+      if (intradayFileRef.current) intradayFileRef.current.value = "";
+    }
+  }
+
+  async function importIexFile(file?: File) {
+    setMsg(null);
+    setErrors([]);
+    setPendingIex(null);
+    if (!file) return;
+
+    try {
+      if (!isIexFile(file)) {
+        setErrors(["Pick the IEX market snapshot as .csv, .xls or .xlsx."]);
+        return;
+      }
+      const snapshot = await readIexSnapshot(file);
+      if (!snapshot.days.length) {
+        setErrors([`No market data found in ${file.name}.`, ...snapshot.warnings]);
+        return;
+      }
+      setPendingIex(snapshot);
+    } catch (e) {
+      setErrors([`Could not read ${file.name}${(e as Error)?.message ? ` (${(e as Error).message})` : ""}.`]);
+    } finally {
+      if (iexFileRef.current) iexFileRef.current.value = "";
+    }
+  }
+
+  async function applyIex(m: IexMarket) {
+    const target = iexTargets.find((t) => t.market === m);
+    if (!pendingIex || !target) return;
+    const snapshot = pendingIex;
+    const days = snapshot.days;
+    const note = `IEX ${m} snapshot ${formatDDMMYYYY(days[0].date)} – ${formatDDMMYYYY(days[days.length - 1].date)} (${snapshot.fileName})`;
+    const author = editorName.trim();
+    const saved: string[] = [];
+    const failed: string[] = [];
+
+    setIexBusy(true);
+    const prices = days.flatMap((d) => {
+      const value = iexPrice(d, target.unit);
+      return value == null ? [] : [{ date: d.date, value }];
+    });
+    if (prices.length) {
+      try {
+        if (target.seriesId === type) {
+          // this tab's series lives in memory; the others are merged in storage
+          commitEdit("import", note, (prev) => {
+            const diff = diffImport(valuesOf(prev.points), prices);
+            const removed = new Map(prev.removed);
+            for (const r of prices) removed.delete(r.date);
+            return { points: applyMerge(prev.points, diff, "overwrite", "import").next, removed };
+          });
+        } else {
+          await mergeIntoStoredSeries(target.seriesId, prices, { action: "import", note, author, source: "import", policy: "overwrite" });
+        }
+        saved.push("MCP");
+      } catch {
+        failed.push("MCP");
+      }
+    }
+    for (const field of Object.keys(IEX_VOLUME_FIELDS) as IexVolumeField[]) {
+      const rows = days.flatMap((d) => {
+        const value = d[field];
+        return value == null ? [] : [{ date: d.date, value }];
+      });
+      if (!rows.length) continue;
+      const label = IEX_VOLUME_FIELDS[field].label.toLowerCase();
+      try {
+        await mergeIntoStoredSeries(marketSeriesId(target.seriesId, field), rows, {
+          action: "import",
+          note,
+          author,
+          source: "import",
+          policy: "overwrite",
+        });
+        saved.push(label);
+      } catch {
+        failed.push(label);
+      }
+    }
+    setIexBusy(false);
+    setPendingIex(null);
+
+    if (saved.length) setMsg(`IEX ${m} snapshot (${days.length} days) imported into ${target.label}: ${saved.join(", ")}.`);
+    if (failed.length) setErrors([`Could not save ${failed.join(", ")}.`]);
+  }
+
+  function applyImport(policy: MergePolicy) {
+    if (!pendingImport || !importPreview) return;
+    const { parsed, errors: errs, diff, fileUnit } = importPreview;
+    setPendingImport(null);
+
+    if (errs.length) setErrors(errs.slice(0, 12));
+    if (!parsed.length) {
+      setErrors((e) => (e.length ? e : ["No valid rows found in CSV."]));
+      return;
+    }
+
+    const written = rowsToApply(diff, policy).length;
+    commitEdit("import", `${pendingImport.fileName} (${policy})`, (prev) => {
+      const points = applyMerge(prev.points, diff, policy, "import").next;
+      const removed = new Map(prev.removed);
+      for (const d of points.keys()) if (!prev.points.has(d)) removed.delete(d);
+      return { points, removed };
+    });
+    setMsg(
+      `Imported ${written} of ${parsed.length} rows (${diff.added.length} new, ${diff.changed.length} changed, ` +
+        `${diff.unchanged.length} unchanged)${errs.length ? ` with ${errs.length} issues` : ""}` +
+        `${fileUnit && fileUnit !== unit ? `, converted from ${UNITS[fileUnit].label} to ${UNITS[unit].label}` : ""}.`
+    );
+  }
+
   function exportCSV() {
-    const header = `date,${valueColumnKey}`;
+    // the unit is named in the header when it isn't the stored one, so the file re-imports correctly
+    const header = displayUnit === unit ? `date,${valueColumnKey}` : `date,${valueColumnKey} (${unitLabel})`;
     // ✅ export uses dd/mm/yyyy
     const lines = sortedDaily.map((d) => `${formatDDMMYYYYForCSV(d.date)},${d.value}`);
     downloadCSV(`india_${type}_${new Date().toISOString().slice(0, 10)}.csv`, [header, ...lines].join("\n"));
   }
 
+  async function exportExcel() {
+    const fyStart = (fy: string) => `${2000 + Number(fy.slice(2)) - 1}-04-01`;
+    const valueHeader = `${seriesLabel} (${unitLabel})`;
+    try {
+      await downloadWorkbook(
+        `india_${type}_${new Date().toISOString().slice(0, 10)}.xlsx`,
+        [
+          {
+            name: "Daily",
+            columns: [
+              { header: "Date", key: "date", format: "date" },
+              { header: valueHeader, key: "value", format: "number", width: 18 },
+              { header: "Source", key: "source", format: "text" },
+            ],
+            rows: sortedDaily.map((d) => {
+              const source = dataMap.get(d.date)?.source;
+              return { date: d.date, value: d.value, source: source ? POINT_SOURCE_LABELS[source] : "" };
+            }),
+          },
+          {
+            name: "Monthly",
+            columns: [
+              { header: "Month", key: "month", format: "month" },
+              { header: `${periodValueLabel} (${unitLabel})`, key: "value", format: "number", width: 18 },
+              { header: "YoY %", key: "yoy_pct", format: "percent" },
+              { header: "MoM %", key: "mom_pct", format: "percent" },
+            ],
+            rows: monthlyAgg,
+          },
+          {
+            name: "Weekly",
+            columns: [
+              { header: "Week starting", key: "weekStart", format: "date", width: 14 },
+              { header: `${periodValueLabel} (${unitLabel})`, key: "value", format: "number", width: 18 },
+              { header: "WoW %", key: "wow_pct", format: "percent" },
+              { header: "YoY %", key: "yoy_pct", format: "percent" },
+              { header: "Incomplete", key: "incomplete", format: "text" },
+            ],
+            rows: weeklyRows.map((r) => ({ ...r, incomplete: r.incomplete ? "yes" : "" })),
+          },
+          {
+            name: "FY",
+            columns: [
+              { header: "FY", key: "fy", format: "text" },
+              { header: "From", key: "from", format: "date" },
+              { header: `${periodValueLabel} (${unitLabel})`, key: "value", format: "number", width: 18 },
+              { header: "YoY %", key: "yoy_pct", format: "percent" },
+              { header: "Incomplete", key: "incomplete", format: "text" },
+            ],
+            rows: yearlyFYRows.map((r) => ({ ...r, from: fyStart(r.fy), incomplete: r.incomplete ? "yes" : "" })),
+          },
+        ],
+        { decimals: displayDecimals }
+      );
+    } catch {
+      setErrors(["Could not create the Excel file."]);
+    }
+  }
+
   function loadSample() {
     const { parsed } = csvParse(sampleCSV(valueColumnKey), valueColumnKey);
-    setDataMap((prev) => mergeRecords(prev, parsed));
+    commitEdit("sample", `${parsed.length} rows`, (prev) => ({ ...prev, points: mergeRecords(prev.points, parsed, "sample") }));
     setMsg("Loaded sample data.");
   }
 
-  async function fetchLatestFromCEA() {
-    setFetchStatus("Auto-fetch not enabled for this tab.");
+  // Last successful auto-fetch; an in-flight fetch is cancelled when the tab unmounts
+  const lastFetchKey = useMemo(() => storageKeys.lastFetch(type), [type]);
+
+  useEffect(() => {
+    let cancelled = false;
+    readKey(lastFetchKey)
+      .then((v) => {
+        if (!cancelled && v) setLastFetch(v);
+      })
+      .catch(() => undefined);
+    return () => {
+      cancelled = true;
+      fetchAbortRef.current?.abort();
+    };
+  }, [lastFetchKey]);
+
+  async function fetchLatest() {
+    if (!fetchSource || !FETCH_ENABLED || fetchBusy) return;
+    const adapter = getFetchAdapter(fetchSource);
+    const ctrl = new AbortController();
+    fetchAbortRef.current = ctrl;
+
+    setFetchBusy(true);
+    setMsg(null);
+    setErrors([]);
+
+    try {
+      const res = await runFetch(
+        adapter,
+        { seriesId: type, valueColumnKey },
+        { today: new Date().toISOString().slice(0, 10), lastStored: storedDaily[storedDaily.length - 1] ?? null },
+        {
+          signal: ctrl.signal,
+          onProgress: (p) =>
+            setFetchStatus(
+              p.state === "fetching"
+                ? `Fetching ${adapter.label}${p.attempt > 1 ? ` (attempt ${p.attempt} of ${p.attempts})` : ""}…`
+                : `${p.reason}; retrying in ${(p.delayMs / 1000).toFixed(1)}s (attempt ${p.attempt + 1} of ${p.attempts})…`
+            ),
+        }
+      );
+
+      // same merge path as an import; manual corrections and removed days are left alone
+      const { diff, kept, written } = fetchDiff(seriesStateRef.current, res);
+      if (written) {
+        commitEdit("fetch", `${adapter.label} (${written} rows)`, (prev) => ({
+          ...prev,
+          points: applyMerge(prev.points, diff, "overwrite", "fetch").next,
+        }));
+      }
+
+      const record: LastFetch = { at: Date.now(), source: adapter.label, added: diff.added.length, updated: diff.changed.length };
+      setLastFetch(record);
+      writeKey(lastFetchKey, record).catch(() => undefined); // reported by the storage banner
+
+      if (res.issues.length) setErrors(res.issues.slice(0, 12));
+      setFetchStatus(
+        `${adapter.label}: ${res.rows.length} rows checked — ${diff.added.length} new, ${diff.changed.length} updated` +
+          `${kept ? `, ${kept} manual edits kept` : ""}${res.issues.length ? `, ${res.issues.length} rejected` : ""}.`
+      );
+    } catch (e) {
+      if ((e as Error)?.name === "AbortError") return;
+      setFetchStatus(null);
+      setErrors([(e as Error)?.message || "Auto-fetch failed."]);
+    } finally {
+      if (fetchAbortRef.current === ctrl) fetchAbortRef.current = null;
+      setFetchBusy(false);
+    }
   }
 
   const periodValueLabel = calcMode === "avg" ? "Avg" : "Total";
@@ -1411,7 +1914,8 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
   const fortnightRollingAvgLabel = "Fortnightly Rolling (AVG) (last 14 days)";
   const weeklyRollingAvgLabel = "Weekly Rolling (AVG) (last 7 days)";
 
-  const isWeeklyRollingAvg7 = aggFreq === "weekly_roll7_avg";
+  // rolling views compare with the previous window, the others with the previous month
+  const popLabel = rollingSpec ? periodOverPeriodLabel(rollingSpec) : "MoM %";
 
   return (
     <div className="min-h-screen bg-slate-50">
@@ -1423,6 +1927,24 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
           </div>
 
           <div className="flex flex-wrap gap-2">
+            {compatibleUnits(unit).length > 1 ? (
+              <label className="flex items-center gap-2 rounded-xl bg-white px-3 py-2 text-sm text-slate-700 ring-1 ring-slate-200">
+                <span className="font-semibold">Units</span>
+                <select
+                  value={displayUnit}
+                  onChange={(e) => setDisplayUnit(e.target.value as UnitId)}
+                  className="bg-transparent text-sm font-semibold text-slate-900 outline-none"
+                >
+                  {compatibleUnits(unit).map((u) => (
+                    <option key={u} value={u}>
+                      {UNITS[u].label}
+                      {u === unit ? " (stored)" : ""}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            ) : null}
+
             <button
               onClick={() => downloadCSV(`sample_${type}.csv`, sampleCSV(valueColumnKey))}
               className="rounded-xl bg-white px-3 py-2 text-sm font-semibold text-slate-700 ring-1 ring-slate-200 hover:bg-slate-50"
@@ -1430,12 +1952,19 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
               Download sample CSV
             </button>
 
-            {enableAutoFetch ? (
+            {fetchSource && FETCH_ENABLED ? (
               <button
-                onClick={fetchLatestFromCEA}
-                className="rounded-xl bg-slate-900 px-3 py-2 text-sm font-semibold text-white hover:bg-slate-800"
+                onClick={fetchLatest}
+                disabled={fetchBusy}
+                title={
+                  lastFetch
+                    ? `Last fetched ${new Date(lastFetch.at).toLocaleString("en-IN")} from ${lastFetch.source} ` +
+                      `(${lastFetch.added} new, ${lastFetch.updated} updated)`
+                    : `Source: ${getFetchAdapter(fetchSource).label}`
+                }
+                className="rounded-xl bg-slate-900 px-3 py-2 text-sm font-semibold text-white hover:bg-slate-800 disabled:opacity-50"
               >
-                Auto-fetch latest (incl. RE)
+                {fetchBusy ? "Fetching…" : "Auto-fetch latest"}
               </button>
             ) : null}
 
@@ -1447,6 +1976,14 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
               Export CSV
             </button>
 
+            <button
+              onClick={exportExcel}
+              disabled={!hasData}
+              className="rounded-xl bg-white px-3 py-2 text-sm font-semibold text-slate-700 ring-1 ring-slate-200 hover:bg-slate-50 disabled:opacity-50"
+            >
+              Export Excel
+            </button>
+
             <button
               onClick={clearAll}
               disabled={!hasData}
@@ -1542,8 +2079,138 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
 
                           <option value="monthly">{calcMode === "avg" ? "Monthly (Avg)" : "Monthly (Sum)"}</option>
                           {supportsRollingSum ? <option value="rolling30_sum">{rollingSumLabel}</option> : null}
+                          <option value="rolling_custom">Custom rolling window…</option>
                         </select>
                       </div>
+
+                      {aggFreq === "rolling_custom" ? (
+                        <div className="mt-3 grid grid-cols-1 gap-3 sm:grid-cols-3">
+                          <div>
+                            <div className="text-xs font-medium text-slate-600">Window (days)</div>
+                            <input
+                              type="number"
+                              min={1}
+                              max={MAX_ROLLING_WINDOW}
+                              value={customRolling.window}
+                              onChange={(e) => setCustomRolling((r) => normalizeRollingSpec({ ...r, window: e.target.value }))}
+                              className="mt-1 w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-700 tabular-nums"
+                            />
+                          </div>
+                          <div>
+                            <div className="text-xs font-medium text-slate-600">Statistic</div>
+                            <select
+                              value={rollingSpec?.stat ?? customRolling.stat}
+                              onChange={(e) => setCustomRolling((r) => ({ ...r, stat: e.target.value as RollingStat }))}
+                              className="mt-1 w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-700"
+                            >
+                              {(Object.keys(ROLLING_STAT_LABELS) as RollingStat[])
+                                .filter((st) => st !== "sum" || supportsRollingSum)
+                                .map((st) => (
+                                  <option key={st} value={st}>
+                                    {ROLLING_STAT_LABELS[st]}
+                                  </option>
+                                ))}
+                            </select>
+                          </div>
+                          {customRolling.stat === "ewma" ? (
+                            <div>
+                              <div className="text-xs font-medium text-slate-600">Half-life (days)</div>
+                              <input
+                                type="number"
+                                min={1}
+                                max={MAX_ROLLING_WINDOW}
+                                value={customRolling.halfLife}
+                                onChange={(e) => setCustomRolling((r) => normalizeRollingSpec({ ...r, halfLife: e.target.value }))}
+                                className="mt-1 w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-700 tabular-nums"
+                              />
+                            </div>
+                          ) : null}
+                        </div>
+                      ) : null}
+
+                      {/* Missing-data rules + YoY basis */}
+                      <div className="mt-3 grid grid-cols-1 gap-3 sm:grid-cols-3">
+                        <div>
+                          <div className="text-xs font-medium text-slate-600">Min. days with data</div>
+                          <select
+                            value={String(gapPolicy.minCoverage)}
+                            onChange={(e) => setGapPolicy((p) => ({ ...p, minCoverage: Number(e.target.value) }))}
+                            className="mt-1 w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-700"
+                          >
+                            {[0.5, 0.7, 0.8, 0.9, 1].map((c) => (
+                              <option key={c} value={String(c)}>
+                                {Math.round(c * 100)}% of the window
+                              </option>
+                            ))}
+                          </select>
+                        </div>
+                        <div>
+                          <div className="text-xs font-medium text-slate-600">Fill gaps</div>
+                          <select
+                            value={gapPolicy.fill}
+                            onChange={(e) => setGapPolicy((p) => ({ ...p, fill: e.target.value as FillMode }))}
+                            className="mt-1 w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-700"
+                          >
+                            {(Object.keys(FILL_MODE_LABELS) as FillMode[]).map((m) => (
+                              <option key={m} value={m}>
+                                {FILL_MODE_LABELS[m]}
+                              </option>
+                            ))}
+                          </select>
+                        </div>
+                        <div>
+                          <div className="text-xs font-medium text-slate-600">YoY compares with (all tabs)</div>
+                          <select
+                            value={yoyBasis}
+                            onChange={(e) => setYoyBasis(e.target.value as YoyBasis)}
+                            className="mt-1 w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-700"
+                          >
+                            {(Object.keys(YOY_BASIS_LABELS) as YoyBasis[]).map((b) => (
+                              <option key={b} value={b}>
+                                {YOY_BASIS_LABELS[b]}
+                              </option>
+                            ))}
+                          </select>
+                          {yoyBasis === "festival" ? (
+                            <div className="mt-1 text-[11px] text-slate-500">
+                              Festival dates are bundled for {HOLIDAY_CALENDAR_YEARS.from}–{HOLIDAY_CALENDAR_YEARS.to}; other
+                              years compare calendar dates.
+                            </div>
+                          ) : null}
+                        </div>
+                      </div>
+
+                      {/* Forecast model (chart + FY-end projection) */}
+                      <div className="mt-3 grid grid-cols-1 gap-3 sm:grid-cols-3">
+                        <div>
+                          <div className="text-xs font-medium text-slate-600">Forecast model</div>
+                          <select
+                            value={forecastModel}
+                            onChange={(e) => setForecastModel(e.target.value as ForecastModel)}
+                            className="mt-1 w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-700"
+                          >
+                            {(Object.keys(FORECAST_MODEL_LABELS) as ForecastModel[]).map((m) => (
+                              <option key={m} value={m}>
+                                {FORECAST_MODEL_LABELS[m]}
+                              </option>
+                            ))}
+                          </select>
+                        </div>
+                        <div>
+                          <div className="text-xs font-medium text-slate-600">Forecast horizon</div>
+                          <select
+                            value={String(forecastHorizon)}
+                            onChange={(e) => setForecastHorizon(Number(e.target.value))}
+                            className="mt-1 w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-700"
+                          >
+                            {FORECAST_HORIZONS.map((h) => (
+                              <option key={h} value={String(h)}>
+                                {h} days
+                              </option>
+                            ))}
+                          </select>
+                        </div>
+                      </div>
                     </div>
 
                     <div className="lg:w-[360px] lg:shrink-0">
@@ -1605,7 +2272,42 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
                               onChange={(e) => setShowMoMSeries(e.target.checked)}
                               className="h-4 w-4 rounded border-slate-300"
                             />
-                            <span className="font-medium">{isWeeklyRollingAvg7 ? "WoW %" : "MoM %"}</span>
+                            <span className="font-medium">{popLabel}</span>
+                          </label>
+
+                          <label className="flex items-center gap-2">
+                            <input
+                              type="checkbox"
+                              checked={showHolidays}
+                              onChange={(e) => setShowHolidays(e.target.checked)}
+                              className="h-4 w-4 rounded border-slate-300"
+                            />
+                            <span
+                              className="font-medium"
+                              title={`National holidays and major festivals, ${HOLIDAY_CALENDAR_YEARS.from}–${HOLIDAY_CALENDAR_YEARS.to}`}
+                            >
+                              Holidays
+                            </span>
+                          </label>
+
+                          <label className="flex items-center gap-2">
+                            <input
+                              type="checkbox"
+                              checked={showAdjusted}
+                              onChange={(e) => setShowAdjusted(e.target.checked)}
+                              className="h-4 w-4 rounded border-slate-300"
+                            />
+                            <span className="font-medium">Seasonally adjusted</span>
+                          </label>
+
+                          <label className="flex items-center gap-2">
+                            <input
+                              type="checkbox"
+                              checked={showForecast}
+                              onChange={(e) => setShowForecast(e.target.checked)}
+                              className="h-4 w-4 rounded border-slate-300"
+                            />
+                            <span className="font-medium">Forecast</span>
                           </label>
                         </div>
 
@@ -1638,21 +2340,48 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
                       </div>
 
                       <div className="mt-2 text-[11px] text-slate-500">
-                        {aggFreq === "rolling30_avg" || aggFreq === "rolling30_sum"
-                          ? "Rolling Avg/Sum uses a 30-day window and compares against the same 30-day window last year."
-                          : aggFreq === "rolling14_avg"
-                            ? "Fortnightly Rolling (AVG) uses a 14-day window and compares against the same 14-day window last year."
-                            : aggFreq === "weekly_roll7_avg"
-                              ? "Weekly Rolling (AVG) uses a 7-day window and compares against the same 7-day window last year."
-                              : null}
+                        {rollingSpec
+                          ? `${describeRolling(rollingSpec)}; compares against the same window last year (YoY, ${YOY_BASIS_SHORT[yoyBasis]}) and ${rollingSpec.window} days earlier (${popLabel}).`
+                          : null}
+                      </div>
+                      <div className="mt-1 text-[11px] text-slate-500">
+                        Missing data: {describeGapPolicy(gapPolicy)}. Windows below the threshold are left blank; the rest are
+                        flagged as incomplete in the tooltip, KPIs and tables (*).
                       </div>
+                      {chartPending ? <div className="mt-1 text-[11px] text-slate-500">Calculating…</div> : null}
+                      {showHolidays && holidayCalendarGap ? (
+                        <div className="mt-1 text-[11px] text-slate-500">
+                          The holiday calendar covers {HOLIDAY_CALENDAR_YEARS.from}–{HOLIDAY_CALENDAR_YEARS.to}; {holidayCalendarGap} have no
+                          holiday bands or festival alignment.
+                        </div>
+                      ) : null}
+                      {showAdjusted ? (
+                        <div className="mt-1 text-[11px] text-slate-500">
+                          {!decomposition
+                            ? "Calculating the seasonal adjustment…"
+                            : decomposition.hasWeekly
+                              ? `Seasonally adjusted: weekly${decomposition.hasAnnual ? " and annual" : ""} pattern removed; YoY / MoM compare adjusted values.`
+                              : "Seasonal adjustment needs at least four weeks of data; showing raw values."}
+                        </div>
+                      ) : null}
+                      {showForecast ? (
+                        <div className="mt-1 text-[11px] text-slate-500">
+                          {!forecast
+                            ? forecastPending
+                              ? "Calculating the forecast…"
+                              : "Forecast needs at least four weeks of data."
+                            : forecastRows.length
+                              ? `Forecast: ${FORECAST_MODEL_LABELS[forecastModel]}, ${forecastHorizon} days from ${formatDDMMYYYY(forecast.origin)}, with 80% / 95% bands.`
+                              : "Forecast is drawn on the daily view of the raw series, when the range ends on the latest day."}
+                        </div>
+                      ) : null}
                     </div>
                   </div>
                 </div>
 
                 <div className="h-[380px] sm:h-[460px]">
                   <ResponsiveContainer width="100%" height="100%">
-                    <LineChart data={dailyForChartWithControl} margin={{ top: 12, right: 42, bottom: 12, left: 42 }}>
+                    <ComposedChart data={chartData} margin={{ top: 12, right: 42, bottom: 12, left: 42 }}>
                       <CartesianGrid strokeDasharray="3 3" />
                       <XAxis dataKey="label" tick={{ fontSize: 12 }} minTickGap={24} />
 
@@ -1668,9 +2397,9 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
                             const n = asFiniteNumber(v);
                             if (n == null) return "—";
                             return new Intl.NumberFormat("en-IN", {
-                              minimumFractionDigits: valueDisplay.decimals,
-                              maximumFractionDigits: valueDisplay.decimals,
-                            }).format(Number(n.toFixed(valueDisplay.decimals)));
+                              minimumFractionDigits: displayDecimals,
+                              maximumFractionDigits: displayDecimals,
+                            }).format(Number(n.toFixed(displayDecimals)));
                           }}
                         />
                       ) : null}
@@ -1695,6 +2424,7 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
                         wrapperStyle={{ outline: "none" }}
                         formatter={(v: any, name: any, item: any) => {
                           const key = (item && (item.dataKey as string)) || (name as string);
+                          if (Array.isArray(v)) return [`${fmtValue(v[0])} – ${fmtValue(v[1])}`, String(name)];
                           const num = asFiniteNumber(v);
 
                           const labelCurr =
@@ -1706,8 +2436,9 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
 
                           if (key === "units") return [fmtValue(num ?? null), labelCurr];
                           if (key === "prev_year_units") return [fmtValue(num ?? null), labelPY];
-                          if (key === "yoy_pct") return [fmtPct(num ?? null), "YoY %"];
-                          if (key === "mom_pct") return [fmtPct(num ?? null), isWeeklyRollingAvg7 ? "WoW %" : "MoM %"];
+                          if (key === "yoy_pct") return [fmtPct(num ?? null), `YoY % (${YOY_BASIS_SHORT[yoyBasis]})`];
+                          if (key === "mom_pct") return [fmtPct(num ?? null), popLabel];
+                          if (key === "forecast") return [fmtValue(num ?? null), String(name)];
 
                           if (key === "__mean_units") return [fmtValue(num ?? null), "Mean"];
                           if (key === "__p1_units") return [fmtValue(num ?? null), "+1σ"];
@@ -1723,10 +2454,63 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
 
                           return [v, String(name)];
                         }}
-                        labelFormatter={(l: any) => `Label: ${l}`}
+                        labelFormatter={(l: any, payload: any) => {
+                          const holiday = holidayMarks.byLabel.get(String(l));
+                          const text = holiday ? `Label: ${l} — ${holiday}` : `Label: ${l}`;
+                          return payload?.[0]?.payload?.incomplete ? `${text} (incomplete data)` : text;
+                        }}
                       />
                       <Legend />
 
+                      {anyTotalsShown || anyPctShown
+                        ? holidayMarks.marks.map((h) => (
+                            <ReferenceArea
+                              key={`${h.x1}-${h.name}`}
+                              yAxisId={anyTotalsShown ? "left" : "right"}
+                              x1={h.x1}
+                              x2={h.x2}
+                              fill={h.kind === "festival" ? "#f59e0b" : "#94a3b8"}
+                              fillOpacity={0.15}
+                              label={{ value: h.name, position: "insideTop", fontSize: 10, fill: "#64748b" }}
+                            />
+                          ))
+                        : null}
+
+                      {forecastRows.length ? (
+                        <>
+                          <Area
+                            yAxisId="left"
+                            type="monotone"
+                            dataKey="fc95"
+                            name="Forecast 95%"
+                            stroke="none"
+                            fill="#93c5fd"
+                            fillOpacity={0.3}
+                            isAnimationActive={false}
+                          />
+                          <Area
+                            yAxisId="left"
+                            type="monotone"
+                            dataKey="fc80"
+                            name="Forecast 80%"
+                            stroke="none"
+                            fill="#60a5fa"
+                            fillOpacity={0.35}
+                            isAnimationActive={false}
+                          />
+                          <Line
+                            yAxisId="left"
+                            type="monotone"
+                            dataKey="forecast"
+                            name={`Forecast (${FORECAST_MODEL_LABELS[forecastModel]})`}
+                            dot={false}
+                            strokeWidth={2}
+                            stroke="#2563eb"
+                            strokeDasharray="6 4"
+                          />
+                        </>
+                      ) : null}
+
                       {showUnitsSeries ? (
                         <Line
                           yAxisId="left"
@@ -1770,7 +2554,7 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
                           yAxisId="right"
                           type="monotone"
                           dataKey="mom_pct"
-                          name={isWeeklyRollingAvg7 ? "WoW %" : "MoM %"}
+                          name={popLabel}
                           dot={false}
                           strokeWidth={2}
                           stroke="#dc2626"
@@ -1895,7 +2679,7 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
                           />
                         </>
                       ) : null}
-                    </LineChart>
+                    </ComposedChart>
                   </ResponsiveContainer>
                 </div>
               </>
@@ -1935,21 +2719,154 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
               </button>
 
               <div className="mt-2">
-                <div className="text-xs font-medium text-slate-600">Import CSV</div>
+                <div className="text-xs font-medium text-slate-600">Import CSV / Excel</div>
                 <div className="mt-2 flex items-center gap-2">
                   <input
                     ref={fileRef}
                     type="file"
-                    accept=".csv,text/csv"
-                    onChange={(e) => importCSV(e.target.files?.[0])}
+                    accept=".csv,text/csv,.xlsx,.xlsm,.xls"
+                    onChange={(e) => importFile(e.target.files?.[0])}
                     className="block w-full text-sm text-slate-700 file:mr-3 file:rounded-xl file:border-0 file:bg-slate-900 file:px-3 file:py-2 file:text-sm file:font-semibold file:text-white hover:file:bg-slate-800"
                   />
                 </div>
                 <div className="mt-2 text-xs text-slate-500">
-                  Supported: <span className="font-mono">date,VALUE</span> (DD/MM/YYYY, number)
+                  Supported: <span className="font-mono">date,VALUE</span> (DD/MM/YYYY, number) or an .xlsx sheet
+                </div>
+              </div>
+
+              <div className="mt-2">
+                <label className="text-xs font-medium text-slate-600">When the bundled file reloads</label>
+                <select
+                  value={reconcilePolicy}
+                  onChange={(e) => setReconcilePolicy(e.target.value as ReconcilePolicy)}
+                  className="mt-1 w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 outline-none focus:ring-2 focus:ring-slate-300"
+                >
+                  {(Object.keys(RECONCILE_POLICY_LABELS) as ReconcilePolicy[]).map((p) => (
+                    <option key={p} value={p}>
+                      {RECONCILE_POLICY_LABELS[p]}
+                    </option>
+                  ))}
+                </select>
+                <div className="mt-1 text-xs text-slate-500">
+                  Manual entries, imports and removals are kept unless the file wins.
                 </div>
               </div>
 
+              {pspField ? (
+                <div className="mt-2">
+                  <div className="text-xs font-medium text-slate-600">Grid-India PSP report</div>
+                  <div className="mt-2 flex items-center gap-2">
+                    <input
+                      ref={pspFileRef}
+                      type="file"
+                      accept=".xls,.xlsx,.xlsm,.pdf,application/pdf"
+                      onChange={(e) => importPspFile(e.target.files?.[0])}
+                      className="block w-full text-sm text-slate-700 file:mr-3 file:rounded-xl file:border-0 file:bg-slate-900 file:px-3 file:py-2 file:text-sm file:font-semibold file:text-white hover:file:bg-slate-800"
+                    />
+                  </div>
+                  <div className="mt-2 text-xs text-slate-500">
+                    Daily report (.xls or .pdf); updates energy met, peak demand and generation tabs in one step
+                  </div>
+                </div>
+              ) : null}
+
+              {intraday ? (
+                <div className="mt-2">
+                  <div className="text-xs font-medium text-slate-600">15-minute blocks</div>
+                  <div className="mt-2 flex items-center gap-2">
+                    <select
+                      value={blockUnit}
+                      onChange={(e) => setBlockUnit(e.target.value as UnitId)}
+                      title="Unit of the block values in the file"
+                      className="rounded-xl border border-slate-200 bg-white px-2 py-2 text-sm text-slate-700"
+                    >
+                      {blockUnitOptions(unit).map((u) => (
+                        <option key={u} value={u}>
+                          {UNITS[u].label}
+                        </option>
+                      ))}
+                    </select>
+                    <input
+                      ref={intradayFileRef}
+                      type="file"
+                      accept=".csv,text/csv"
+                      disabled={!intradayStore.loaded}
+                      onChange={(e) => importIntradayFile(e.target.files?.[0])}
+                      className="block w-full text-sm text-slate-700 file:mr-3 file:rounded-xl file:border-0 file:bg-slate-900 file:px-3 file:py-2 file:text-sm file:font-semibold file:text-white hover:file:bg-slate-800"
+                    />
+                  </div>
+                  <div className="mt-2 text-xs text-slate-500">
+                    <span className="font-mono">date,block,value</span>, <span className="font-mono">datetime,value</span> or a date
+                    + 96 block columns; the daily value is the {INTRADAY_AGGREGATE_LABELS[intraday]}
+                    {UNITS[unit].dimension === "energy" ? " (MW blocks count as MW × 0.25 h)" : ""}
+                  </div>
+                </div>
+              ) : null}
+
+              {market ? (
+                <div className="mt-2">
+                  <div className="text-xs font-medium text-slate-600">IEX market snapshot</div>
+                  <div className="mt-2 flex items-center gap-2">
+                    <input
+                      ref={iexFileRef}
+                      type="file"
+                      accept=".csv,text/csv,.xls,.xlsx,.xlsm"
+                      onChange={(e) => importIexFile(e.target.files?.[0])}
+                      className="block w-full text-sm text-slate-700 file:mr-3 file:rounded-xl file:border-0 file:bg-slate-900 file:px-3 file:py-2 file:text-sm file:font-semibold file:text-white hover:file:bg-slate-800"
+                    />
+                  </div>
+                  <div className="mt-2 text-xs text-slate-500">
+                    DAM / RTM download with purchase bid, sell bid, MCV and MCP (daily or per block)
+                  </div>
+                </div>
+              ) : null}
+
+              {pendingIex && market ? (
+                <IexImportDialog
+                  snapshot={pendingIex}
+                  targets={iexTargets}
+                  defaultMarket={market}
+                  busy={iexBusy}
+                  onApply={applyIex}
+                  onCancel={() => setPendingIex(null)}
+                />
+              ) : null}
+
+              {pendingPsp ? (
+                <PspImportDialog
+                  report={pendingPsp}
+                  targets={pspTargets}
+                  busy={pspBusy}
+                  onApply={applyPsp}
+                  onCancel={() => setPendingPsp(null)}
+                />
+              ) : null}
+
+              {pendingExcel ? (
+                <ExcelImportDialog
+                  workbook={pendingExcel}
+                  valueColumnKey={valueColumnKey}
+                  onContinue={(text, label) => {
+                    setPendingExcel(null);
+                    stageImport(label, text);
+                  }}
+                  onCancel={() => setPendingExcel(null)}
+                />
+              ) : null}
+
+              {pendingImport && importPreview ? (
+                <ImportPreviewDialog
+                  fileName={pendingImport.fileName}
+                  inference={pendingImport.inference}
+                  convention={pendingImport.convention}
+                  onConventionChange={(convention) => setPendingImport((p) => (p ? { ...p, convention } : p))}
+                  diff={importPreview.diff}
+                  fmtValue={fmtStored}
+                  onApply={applyImport}
+                  onCancel={() => setPendingImport(null)}
+                />
+              ) : null}
+
               {msg ? (
                 <div className="mt-2 rounded-xl bg-emerald-50 p-3 text-sm text-emerald-800 ring-1 ring-emerald-200">
                   {msg}
@@ -1962,6 +2879,13 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
                 </div>
               ) : null}
 
+              {fetchSource && lastFetch ? (
+                <div className="mt-2 text-[11px] text-slate-500">
+                  Last auto-fetch: {new Date(lastFetch.at).toLocaleString("en-IN")} · {lastFetch.source} · {lastFetch.added} new,{" "}
+                  {lastFetch.updated} updated
+                </div>
+              ) : null}
+
               {errors.length ? (
                 <div className="mt-2 rounded-xl bg-rose-50 p-3 text-sm text-rose-800 ring-1 ring-rose-200">
                   <div className="font-semibold">Import / input issues</div>
@@ -2004,37 +2928,73 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
                 <Stat
                   label="Latest YoY (same day)"
                   value={fmtPct(kpis.latestYoY)}
-                  sub={<div className="text-sm text-slate-500">vs same date last year (if available)</div>}
+                  sub={<div className="text-sm text-slate-500">vs {YOY_BASIS_SHORT[yoyBasis]} (if available)</div>}
                 />
 
                 <Stat
                   label="Current 7-Day Average"
                   value={kpis.avg7 != null ? fmtValue(kpis.avg7) : "—"}
+                  incomplete={kpis.incomplete.avg7}
                   sub={<YoYSub value={kpis.avg7YoY} suffix="YoY" />}
                 />
 
                 <Stat
                   label="Current 30-Day Average"
                   value={kpis.avg30 != null ? fmtValue(kpis.avg30) : "—"}
+                  incomplete={kpis.incomplete.avg30}
                   sub={<YoYSub value={kpis.avg30YoY} suffix="YoY" />}
                 />
 
                 <Stat
                   label={ytdLabel}
                   value={kpis.ytdValue != null ? fmtValue(kpis.ytdValue) : "—"}
-                  sub={<YoYSub value={kpis.ytdYoY} suffix="YoY" />}
+                  incomplete={kpis.incomplete.ytd}
+                  sub={
+                    <>
+                      <YoYSub value={kpis.ytdYoY} suffix="YoY" />
+                      {showFyProjection && kpis.fyEndValue != null ? (
+                        <div className="mt-1 text-xs text-slate-600">
+                          FY-end projection: <span className="font-semibold tabular-nums">{fmtValue(kpis.fyEndValue)}</span>
+                          {kpis.fyEndYoY != null ? ` (${fmtPct(kpis.fyEndYoY)} vs last FY)` : ""} ·{" "}
+                          {FORECAST_MODEL_LABELS[forecastModel]}
+                        </div>
+                      ) : null}
+                      <label className="mt-1 flex items-center gap-1 text-xs text-slate-500">
+                        <input
+                          type="checkbox"
+                          checked={showFyProjection}
+                          onChange={(e) => setShowFyProjection(e.target.checked)}
+                          className="h-3 w-3 rounded border-slate-300"
+                        />
+                        {showFyProjection && kpis.fyEndValue == null && forecastPending ? "Projecting to 31 Mar…" : "Project to FY end"}
+                      </label>
+                    </>
+                  }
                 />
 
                 <Stat
                   label="MTD Average"
                   value={kpis.mtdAvg != null ? fmtValue(kpis.mtdAvg) : "—"}
+                  incomplete={kpis.incomplete.mtd}
                   sub={<YoYSub value={kpis.mtdYoY} suffix="YoY" />}
                 />
               </div>
             )}
           </Card>
 
-          <Card title="Recent entries">
+          <Card
+            title={focusDate ? `Entries around ${formatDDMMYYYY(focusDate)}` : "Recent entries"}
+            right={
+              focusDate ? (
+                <button
+                  onClick={() => setFocusDate(null)}
+                  className="rounded-lg px-2 py-1 text-xs font-semibold text-slate-700 hover:bg-slate-50"
+                >
+                  Back to latest
+                </button>
+              ) : null
+            }
+          >
             {!hasData ? (
               <div className="text-sm text-slate-600">Once you add data, the most recent entries will appear here.</div>
             ) : (
@@ -2046,27 +3006,46 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
                       <th className="px-3 py-2 text-xs font-semibold text-slate-600">
                         {seriesLabel} ({unitLabel})
                       </th>
+                      <th className="px-3 py-2 text-xs font-semibold text-slate-600">Source</th>
                       <th className="px-3 py-2 text-xs font-semibold text-slate-600"></th>
                     </tr>
                   </thead>
                   <tbody>
-                    {sortedDaily
-                      .slice(-25)
-                      .reverse()
-                      .map((r) => (
-                        <tr key={r.date} className="border-t border-slate-100">
-                          <td className="px-3 py-2 font-medium text-slate-900">{formatDDMMYYYY(r.date)}</td>
-                          <td className="px-3 py-2 text-slate-700">{fmtValue(r.value)}</td>
-                          <td className="px-3 py-2 text-right">
+                    {entryRows.map((r) => (
+                      <tr
+                        key={r.date}
+                        ref={r.date === focusDate ? focusRowRef : undefined}
+                        className={`border-t border-slate-100 ${r.date === focusDate ? "bg-amber-50" : ""}`}
+                      >
+                        <td className="px-3 py-2 font-medium text-slate-900">{formatDDMMYYYY(r.date)}</td>
+                        <td className="px-3 py-2 text-slate-700">
+                          {r.value == null ? <span className="text-rose-700">missing</span> : fmtValue(r.value)}
+                        </td>
+                        <td className="px-3 py-2 text-xs text-slate-500">
+                          {(() => {
+                            const source = dataMap.get(r.date)?.source;
+                            return source ? POINT_SOURCE_LABELS[source] : "—";
+                          })()}
+                        </td>
+                        <td className="px-3 py-2 text-right">
+                          {r.value == null ? (
+                            <button
+                              onClick={() => setDate(formatDDMMYYYY(r.date))}
+                              className="rounded-lg px-2 py-1 text-xs font-semibold text-slate-700 hover:bg-slate-50"
+                            >
+                              Fill in
+                            </button>
+                          ) : (
                             <button
                               onClick={() => removeDate(r.date)}
                               className="rounded-lg px-2 py-1 text-xs font-semibold text-rose-700 hover:bg-rose-50"
                             >
                               Remove
                             </button>
-                          </td>
-                        </tr>
-                      ))}
+                          )}
+                        </td>
+                      </tr>
+                    ))}
                   </tbody>
                 </table>
               </div>
@@ -2074,6 +3053,95 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
           </Card>
         </div>
 
+        {/* Seasonal overlay (FY lines on an Apr → Mar axis) */}
+        {hasData ? (
+          <div className="mt-6 grid grid-cols-1 gap-4">
+            <Card title="Seasonal view (Apr → Mar)" right={`${seriesLabel} by financial year`}>
+              <SeasonalPanel series={filledSeries} policy={gapPolicy} unitLabel={unitLabel} fmtValue={fmtValue} />
+            </Card>
+            <Card title="Trend & seasonality" right={`${seriesLabel} · trend + weekly + annual + residual`}>
+              {decomposition ? (
+                <DecompositionPanel
+                  decomposition={decomposition}
+                  adjusted={adjustedFilled}
+                  policy={gapPolicy}
+                  basis={yoyBasis}
+                  unitLabel={unitLabel}
+                  fmtValue={fmtValue}
+                />
+              ) : (
+                <div className="text-sm text-slate-600">Calculating…</div>
+              )}
+            </Card>
+            <Card title="Forecast accuracy" right={`${seriesLabel} · saved vintages and backtest`}>
+              <ForecastAccuracyPanel vintages={vintages} history={storedDaily} model={forecastModel} onUseModel={setForecastModel} />
+            </Card>
+          </div>
+        ) : null}
+
+        {/* Time of day (15-minute blocks) */}
+        {intraday ? (
+          <div className="mt-6 grid grid-cols-1 gap-4">
+            <Card
+              title="Time of day"
+              right={Object.keys(intradayRec.days).length ? `Days with blocks: ${Object.keys(intradayRec.days).length}` : null}
+            >
+              <IntradayPanel
+                record={intradayRec}
+                seriesUnit={unit}
+                displayUnit={displayUnit}
+                fromIso={fromIso}
+                toIso={toIso}
+              />
+            </Card>
+          </div>
+        ) : null}
+
+        {/* Market depth (IEX price tabs) */}
+        {market ? (
+          <div className="mt-6 grid grid-cols-1 gap-4">
+            <Card title="Market depth" right={`IEX ${market}`}>
+              <MarketPanel seriesId={type} prices={dailyLookup} priceLabel={unitLabel} fmtPrice={fmtValue} />
+            </Card>
+          </div>
+        ) : null}
+
+        {/* Data quality */}
+        <div className="mt-6 grid grid-cols-1 gap-4">
+          <Card
+            title="Data quality"
+            right={hasData ? `${qualityFindings.filter((f) => !qualityReviewed[f.id]).length} open findings` : null}
+          >
+            {!hasData ? (
+              <div className="text-sm text-slate-600">Add data to run the data-quality checks.</div>
+            ) : (
+              <QualityPanel
+                findings={qualityFindings}
+                reviewed={qualityReviewed}
+                onToggleReviewed={toggleQualityReviewed}
+                onJump={setFocusDate}
+                onExport={exportQualityChecklist}
+              />
+            )}
+          </Card>
+        </div>
+
+        {/* Edit history */}
+        <div className="mt-6 grid grid-cols-1 gap-4">
+          <Card title="Audit log" right={journal.entries.length ? `Entries: ${journal.entries.length}` : null}>
+            <AuditLogPanel
+              journal={journal}
+              fmtValue={fmtStored}
+              author={editorName}
+              onAuthorChange={setEditorName}
+              onUndo={() => stepHistory("undo")}
+              onRedo={() => stepHistory("redo")}
+              onExport={exportJournal}
+              disabled={!hydrated || !journalStore.loaded}
+            />
+          </Card>
+        </div>
+
         {/* Monthly totals + growth */}
         <div className="mt-6 grid grid-cols-1 gap-4">
           <Card title={`Monthly ${periodValueLabel} + growth`}>
@@ -2092,9 +3160,9 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
                           const n = asFiniteNumber(v);
                           if (n == null) return "—";
                           return new Intl.NumberFormat("en-IN", {
-                            minimumFractionDigits: valueDisplay.decimals,
-                            maximumFractionDigits: valueDisplay.decimals,
-                          }).format(Number(n.toFixed(valueDisplay.decimals)));
+                            minimumFractionDigits: displayDecimals,
+                            maximumFractionDigits: displayDecimals,
+                          }).format(Number(n.toFixed(displayDecimals)));
                         }}
                       />
 
@@ -2112,7 +3180,7 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
                         formatter={(v: any, n: any) => {
                           const num = asFiniteNumber(v);
                           if (n === "value") return [fmtValue(num ?? null), `Monthly ${periodValueLabel}`];
-                          if (n === "yoy_pct") return [fmtPct(num ?? null), "YoY"];
+                          if (n === "yoy_pct") return [fmtPct(num ?? null), `YoY (${YOY_BASIS_SHORT[yoyBasis]})`];
                           if (n === "mom_pct") return [fmtPct(num ?? null), "MoM"];
                           if (num != null) return [fmtValue(num), String(n)];
                           return [v, String(n)];
@@ -2182,7 +3250,9 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
                           {periodValueLabel} ({unitLabel})
                         </th>
                         <th className="px-3 py-2 text-xs font-semibold text-slate-600">MoM%</th>
-                        <th className="px-3 py-2 text-xs font-semibold text-slate-600">YoY%</th>
+                        <th className="px-3 py-2 text-xs font-semibold text-slate-600" title={`vs ${YOY_BASIS_SHORT[yoyBasis]}`}>
+                          YoY%
+                        </th>
                       </tr>
                     </thead>
                     <tbody>
@@ -2224,7 +3294,9 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
                           {periodValueLabel} ({unitLabel})
                         </th>
                         <th className="px-3 py-2 text-xs font-semibold text-slate-600">WoW%</th>
-                        <th className="px-3 py-2 text-xs font-semibold text-slate-600">YoY%</th>
+                        <th className="px-3 py-2 text-xs font-semibold text-slate-600" title={`vs ${YOY_BASIS_SHORT[yoyBasis]}`}>
+                          YoY%
+                        </th>
                       </tr>
                     </thead>
                     <tbody>
@@ -2234,7 +3306,10 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
                         .map((w) => (
                           <tr key={w.weekStart} className="border-t border-slate-100">
                             <td className="px-3 py-2 font-medium text-slate-900">Week starting {formatDDMMYY(w.weekStart)}</td>
-                            <td className="px-3 py-2 text-slate-700">{fmtValue(w.value)}</td>
+                            <td className="px-3 py-2 text-slate-700">
+                              {fmtValue(w.value)}
+                              <IncompleteMark show={w.incomplete} />
+                            </td>
                             <td className="px-3 py-2 text-slate-700">{fmtPct(w.wow_pct)}</td>
                             <td className="px-3 py-2 text-slate-700">{fmtPct(w.yoy_pct)}</td>
                           </tr>
@@ -2249,7 +3324,9 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
                         <th className="px-3 py-2 text-xs font-semibold text-slate-600">
                           {periodValueLabel} ({unitLabel})
                         </th>
-                        <th className="px-3 py-2 text-xs font-semibold text-slate-600">YoY%</th>
+                        <th className="px-3 py-2 text-xs font-semibold text-slate-600" title={`vs ${YOY_BASIS_SHORT[yoyBasis]}`}>
+                          YoY%
+                        </th>
                       </tr>
                     </thead>
                     <tbody>
@@ -2259,7 +3336,10 @@ export default function ElectricityDashboard(props: ElectricityDashboardProps) {
                         .map((r) => (
                           <tr key={r.fy} className="border-t border-slate-100">
                             <td className="px-3 py-2 font-medium text-slate-900">{r.fy}</td>
-                            <td className="px-3 py-2 text-slate-700">{fmtValue(r.value)}</td>
+                            <td className="px-3 py-2 text-slate-700">
+                              {fmtValue(r.value)}
+                              <IncompleteMark show={r.incomplete} />
+                            </td>
                             <td className="px-3 py-2 text-slate-700">{fmtPct(r.yoy_pct)}</td>
                           </tr>
                         ))}
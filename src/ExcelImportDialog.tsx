@@ -0,0 +1,141 @@
+import React, { useMemo, useState } from "react";
+import { dateCellText, guessColumns, sheetColumns, sheetToCsvText } from "./excel";
+import type { ExcelColumnChoice, ExcelWorkbook } from "./excel";
+
+/**
+ * Excel import: pick the sheet + date / value columns
+ * - "Continue" hands date,value CSV text to the regular import preview
+ *   (date format + merge policy are confirmed there)
+ */
+
+export default function ExcelImportDialog({
+  workbook,
+  valueColumnKey,
+  onContinue,
+  onCancel,
+}: {
+  workbook: ExcelWorkbook;
+  valueColumnKey: string;
+  onContinue: (csvText: string, label: string) => void;
+  onCancel: () => void;
+}) {
+  const [choice, setChoice] = useState<ExcelColumnChoice>(() => guessColumns(workbook.sheets[0], valueColumnKey));
+
+  const sheet = workbook.sheets.find((s) => s.name === choice.sheet) ?? workbook.sheets[0];
+  const columns = useMemo(() => sheetColumns(sheet, choice.hasHeader), [sheet, choice.hasHeader]);
+  const previewRows = (choice.hasHeader ? sheet.rows.slice(1) : sheet.rows).slice(0, 6);
+
+  const selectClass = "mt-1 w-full rounded-xl border border-slate-200 bg-white px-2 py-1 text-sm text-slate-700";
+  const cellText = (v: unknown) => (v == null ? "" : String(v));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/40 p-4">
+      <div className="flex max-h-[90vh] w-full max-w-3xl flex-col rounded-2xl bg-white shadow-xl ring-1 ring-slate-200">
+        <div className="border-b border-slate-100 p-4">
+          <div className="text-sm font-semibold text-slate-800">Import from Excel</div>
+          <div className="mt-1 text-xs text-slate-500">{workbook.fileName}</div>
+        </div>
+
+        <div className="flex-1 space-y-4 overflow-auto p-4">
+          <div className="grid grid-cols-1 gap-3 sm:grid-cols-3">
+            <div>
+              <label className="text-xs font-medium text-slate-600">Sheet</label>
+              <select
+                value={sheet.name}
+                onChange={(e) => {
+                  const next = workbook.sheets.find((s) => s.name === e.target.value);
+                  if (next) setChoice(guessColumns(next, valueColumnKey));
+                }}
+                className={selectClass}
+              >
+                {workbook.sheets.map((s) => (
+                  <option key={s.name} value={s.name}>
+                    {s.name} ({s.rows.length} rows)
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="text-xs font-medium text-slate-600">Date column</label>
+              <select
+                value={choice.dateCol}
+                onChange={(e) => setChoice((c) => ({ ...c, dateCol: Number(e.target.value) }))}
+                className={selectClass}
+              >
+                {columns.map((c) => (
+                  <option key={c.index} value={c.index}>
+                    {c.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="text-xs font-medium text-slate-600">Value column</label>
+              <select
+                value={choice.valueCol}
+                onChange={(e) => setChoice((c) => ({ ...c, valueCol: Number(e.target.value) }))}
+                className={selectClass}
+              >
+                {columns.map((c) => (
+                  <option key={c.index} value={c.index}>
+                    {c.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-slate-700">
+            <input
+              type="checkbox"
+              checked={choice.hasHeader}
+              onChange={(e) => setChoice((c) => ({ ...c, hasHeader: e.target.checked }))}
+              className="h-4 w-4 rounded border-slate-300"
+            />
+            First row is a header
+          </label>
+
+          <div className="max-h-[260px] overflow-auto rounded-xl ring-1 ring-slate-200">
+            <table className="w-full border-collapse bg-white text-left text-sm">
+              <thead className="sticky top-0 bg-slate-50">
+                <tr>
+                  <th className="px-3 py-2 text-xs font-semibold text-slate-600">Date (as read)</th>
+                  <th className="px-3 py-2 text-xs font-semibold text-slate-600">Value (as read)</th>
+                </tr>
+              </thead>
+              <tbody>
+                {previewRows.map((r, i) => (
+                  <tr key={i} className="border-t border-slate-100">
+                    <td className="px-3 py-1.5 font-mono text-slate-900">{dateCellText(r[choice.dateCol])}</td>
+                    <td className="px-3 py-1.5 font-mono text-slate-700">{cellText(r[choice.valueCol])}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="text-[11px] text-slate-500">
+            Excel date cells are converted exactly; text dates are checked in the next step.
+          </div>
+        </div>
+
+        <div className="flex items-center justify-end gap-2 border-t border-slate-100 p-4">
+          <button
+            onClick={onCancel}
+            className="rounded-xl bg-white px-3 py-2 text-sm font-semibold text-slate-700 ring-1 ring-slate-200 hover:bg-slate-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onContinue(sheetToCsvText(sheet, choice, valueColumnKey), `${workbook.fileName} › ${sheet.name}`)}
+            disabled={choice.dateCol === choice.valueCol || !sheet.rows.length}
+            className="rounded-xl bg-slate-900 px-3 py-2 text-sm font-semibold text-white hover:bg-slate-800 disabled:opacity-50"
+          >
+            Continue
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
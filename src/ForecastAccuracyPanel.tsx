@@ -0,0 +1,176 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { runInWorker } from "./analysisWorker";
+import { FORECAST_MODEL_LABELS } from "./forecast";
+import type { ForecastModel } from "./forecast";
+import { bestModel, DEFAULT_BACKTEST, FORECAST_MODELS, HORIZON_BUCKETS, scoreVintages } from "./forecastVintages";
+import type { AccuracyCell, AccuracyTable, ForecastVintages } from "./forecastVintages";
+
+/**
+ * Forecast accuracy for one series
+ * - Saved vintages scored against the actuals that arrived after them (import / auto-fetch)
+ * - Rolling-origin backtest over the history, with the best model one click away
+ * MAPE and bias are % of the actual; coverage = share of actuals inside the 80 / 95% band.
+ */
+
+function formatDDMMYYYY(iso: string) {
+  if (!iso || !/^\d{4}-\d{2}-\d{2}$/.test(iso)) return "—";
+  const [y, m, d] = iso.split("-");
+  return `${d}-${m}-${y}`;
+}
+
+function fmtPct(x: number | null, signed = false) {
+  if (x == null) return "—";
+  return `${signed && x > 0 ? "+" : ""}${x.toFixed(signed ? 2 : 1)}%`;
+}
+
+function Cell({ c }: { c: AccuracyCell }) {
+  if (!c.n) return <span className="text-slate-400">—</span>;
+  return (
+    <div className="tabular-nums">
+      <div className="font-semibold text-slate-800">{fmtPct(c.mape)}</div>
+      <div className="text-[11px] text-slate-500">
+        bias {fmtPct(c.bias, true)} · in 80%: {fmtPct(c.coverage80)} · 95%: {fmtPct(c.coverage95)} · n={c.n}
+      </div>
+    </div>
+  );
+}
+
+function AccuracyGrid({ table, best }: { table: AccuracyTable; best: ForecastModel | null }) {
+  return (
+    <div className="overflow-auto rounded-xl ring-1 ring-slate-200">
+      <table className="w-full border-collapse bg-white text-left text-sm">
+        <thead className="bg-slate-50">
+          <tr>
+            <th className="px-3 py-2 text-xs font-semibold text-slate-600">Model</th>
+            {HORIZON_BUCKETS.map((b) => (
+              <th key={b.label} className="px-3 py-2 text-xs font-semibold text-slate-600">
+                MAPE, {b.label} ahead
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {FORECAST_MODELS.map((m) => (
+            <tr key={m} className="border-t border-slate-100 align-top">
+              <td className="px-3 py-2 font-medium text-slate-700">
+                {FORECAST_MODEL_LABELS[m]}
+                {best === m ? (
+                  <span className="ml-2 rounded-md bg-emerald-50 px-1.5 py-0.5 text-[10px] font-semibold text-emerald-800 ring-1 ring-emerald-200">
+                    best
+                  </span>
+                ) : null}
+              </td>
+              {table[m].map((c, i) => (
+                <td key={HORIZON_BUCKETS[i].label} className="px-3 py-2">
+                  <Cell c={c} />
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export default function ForecastAccuracyPanel({
+  vintages,
+  history,
+  model,
+  onUseModel,
+}: {
+  vintages: ForecastVintages;
+  /** sorted daily values (stored unit) */
+  history: Array<{ date: string; value: number }>;
+  /** model currently used for the chart / FY-end projection */
+  model: ForecastModel;
+  onUseModel: (m: ForecastModel) => void;
+}) {
+  const actual = useMemo(() => new Map(history.map((p) => [p.date, p.value] as const)), [history]);
+  const vintageTable = useMemo(() => scoreVintages(vintages, actual), [vintages, actual]);
+  const vintageBest = useMemo(() => bestModel(vintageTable), [vintageTable]);
+  const scored = FORECAST_MODELS.some((m) => vintageTable[m].some((c) => c.n > 0));
+
+  const origins = useMemo(() => Array.from(new Set(vintages.vintages.map((v) => v.origin))).sort(), [vintages]);
+
+  const [result, setResult] = useState<{ table: AccuracyTable; origins: number } | null>(null);
+  const [running, setRunning] = useState(false);
+
+  // a backtest describes the history it ran on
+  const historyRef = useRef(history);
+  useEffect(() => {
+    historyRef.current = history;
+    setResult(null);
+  }, [history]);
+
+  const runBacktest = () => {
+    setRunning(true);
+    // the fits run in the analysis worker; a history edited meanwhile drops the answer
+    const ran = history;
+    runInWorker({ kind: "backtest", history: ran }).then((r) => {
+      if (ran === historyRef.current) setResult(r);
+      setRunning(false);
+    });
+  };
+
+  const backtestBest = result ? bestModel(result.table) : null;
+
+  return (
+    <div className="space-y-5">
+      <div>
+        <div className="text-xs font-semibold text-slate-700">Saved forecasts</div>
+        <div className="mt-1 text-xs text-slate-500">
+          {origins.length
+            ? `Every model's forecast is saved when a file load, import or auto-fetch brings a new latest day — ${origins.length} vintages from ${formatDDMMYYYY(
+                origins[0]
+              )} to ${formatDDMMYYYY(origins[origins.length - 1])}, scored against the actuals that came in afterwards.`
+            : "Every model's forecast is saved when a file load, import or auto-fetch brings a new latest day; accuracy shows up once later days arrive."}
+        </div>
+        {scored ? (
+          <div className="mt-2">
+            <AccuracyGrid table={vintageTable} best={vintageBest} />
+          </div>
+        ) : null}
+      </div>
+
+      <div>
+        <div className="flex flex-wrap items-center gap-2">
+          <div className="text-xs font-semibold text-slate-700">Backtest</div>
+          <button
+            type="button"
+            onClick={runBacktest}
+            disabled={running || !history.length}
+            className="rounded-lg bg-slate-900 px-2 py-1 text-[12px] font-semibold text-white hover:bg-slate-800 disabled:opacity-50"
+          >
+            {running ? "Running…" : result ? "Run again" : "Run backtest"}
+          </button>
+          {backtestBest && backtestBest !== model ? (
+            <button
+              type="button"
+              onClick={() => onUseModel(backtestBest)}
+              className="rounded-lg bg-white px-2 py-1 text-[12px] font-semibold text-slate-700 ring-1 ring-slate-200 hover:bg-slate-50"
+            >
+              Use {FORECAST_MODEL_LABELS[backtestBest]} for this series
+            </button>
+          ) : null}
+          {backtestBest && backtestBest === model ? (
+            <span className="text-xs text-emerald-700">{FORECAST_MODEL_LABELS[model]} (in use) scores best.</span>
+          ) : null}
+        </div>
+        <div className="mt-1 text-xs text-slate-500">
+          {DEFAULT_BACKTEST.origins} origins, {DEFAULT_BACKTEST.step} days apart, each forecasting {DEFAULT_BACKTEST.horizon} days
+          from the history up to that day only.
+        </div>
+        {result ? (
+          <div className="mt-2">
+            {result.origins ? (
+              <AccuracyGrid table={result.table} best={backtestBest} />
+            ) : (
+              <div className="text-sm text-slate-600">Not enough history to backtest.</div>
+            )}
+          </div>
+        ) : null}
+      </div>
+    </div>
+  );
+}
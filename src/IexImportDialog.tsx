@@ -0,0 +1,157 @@
+import React, { useState } from "react";
+import { IEX_MARKET_LABELS, IEX_VOLUME_FIELDS, iexPrice } from "./iex";
+import type { IexMarket, IexSnapshot, IexVolumeField } from "./iex";
+import { UNITS } from "./units";
+import type { UnitId } from "./units";
+
+/**
+ * IEX market snapshot import
+ * - Market comes from the file when it says so; otherwise it defaults to this tab's
+ * - Preview of every day read (volumes in MWh, MCP in the price series' unit)
+ */
+
+export type IexTarget = {
+  market: IexMarket;
+  seriesId: string;
+  label: string;
+  unit: UnitId;
+};
+
+function formatDDMMYYYY(iso: string) {
+  if (!iso || !/^\d{4}-\d{2}-\d{2}$/.test(iso)) return "—";
+  const [y, m, d] = iso.split("-");
+  return `${d}-${m}-${y}`;
+}
+
+function formatNumber(x: number | null | undefined, decimals: number) {
+  if (x == null || !Number.isFinite(x)) return "—";
+  return new Intl.NumberFormat("en-IN", { minimumFractionDigits: decimals, maximumFractionDigits: decimals }).format(x);
+}
+
+const VOLUME_FIELDS = Object.keys(IEX_VOLUME_FIELDS) as IexVolumeField[];
+
+export default function IexImportDialog({
+  snapshot,
+  targets,
+  defaultMarket,
+  busy,
+  onApply,
+  onCancel,
+}: {
+  snapshot: IexSnapshot;
+  targets: IexTarget[];
+  defaultMarket: IexMarket;
+  busy: boolean;
+  onApply: (market: IexMarket) => void;
+  onCancel: () => void;
+}) {
+  const [market, setMarket] = useState<IexMarket>(snapshot.market ?? defaultMarket);
+  const target = targets.find((t) => t.market === market) ?? null;
+  const days = snapshot.days;
+  const first = days[0]?.date;
+  const last = days[days.length - 1]?.date;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/40 p-4">
+      <div className="flex max-h-[90vh] w-full max-w-4xl flex-col rounded-2xl bg-white shadow-xl ring-1 ring-slate-200">
+        <div className="border-b border-slate-100 p-4">
+          <div className="text-sm font-semibold text-slate-800">Import IEX market snapshot</div>
+          <div className="mt-1 text-xs text-slate-500">
+            {snapshot.fileName} · {days.length} day{days.length === 1 ? "" : "s"}
+            {first ? ` (${formatDDMMYYYY(first)} → ${formatDDMMYYYY(last!)})` : ""}
+            {snapshot.blocksPerDay ? ` · rolled up from ${snapshot.blocksPerDay} blocks a day` : ""}
+          </div>
+        </div>
+
+        <div className="flex-1 space-y-4 overflow-auto p-4">
+          <div className="max-w-[260px]">
+            <label className="text-xs font-medium text-slate-600">Market</label>
+            <select
+              value={market}
+              onChange={(e) => setMarket(e.target.value as IexMarket)}
+              className="mt-1 w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900"
+            >
+              {targets.map((t) => (
+                <option key={t.market} value={t.market}>
+                  {IEX_MARKET_LABELS[t.market]} ({t.label})
+                </option>
+              ))}
+            </select>
+            {snapshot.market && snapshot.market !== market ? (
+              <div className="mt-1 text-xs text-amber-700">The file looks like {IEX_MARKET_LABELS[snapshot.market]} data.</div>
+            ) : null}
+          </div>
+
+          <div className="max-h-[360px] overflow-auto rounded-xl ring-1 ring-slate-200">
+            <table className="w-full border-collapse bg-white text-left text-sm">
+              <thead className="sticky top-0 bg-slate-50">
+                <tr>
+                  <th className="px-3 py-2 text-xs font-semibold text-slate-600">Date</th>
+                  {VOLUME_FIELDS.map((f) => (
+                    <th key={f} className="px-3 py-2 text-right text-xs font-semibold text-slate-600">
+                      {IEX_VOLUME_FIELDS[f].label} (MWh)
+                    </th>
+                  ))}
+                  <th className="px-3 py-2 text-right text-xs font-semibold text-slate-600">
+                    MCP{target ? ` (${UNITS[target.unit].label})` : ""}
+                  </th>
+                  <th className="px-3 py-2 text-right text-xs font-semibold text-slate-600">Buy / sell</th>
+                </tr>
+              </thead>
+              <tbody>
+                {days.map((d) => (
+                  <tr key={d.date} className="border-t border-slate-100">
+                    <td className="px-3 py-1.5 font-medium text-slate-900">{formatDDMMYYYY(d.date)}</td>
+                    {VOLUME_FIELDS.map((f) => (
+                      <td key={f} className="px-3 py-1.5 text-right tabular-nums text-slate-700">
+                        {formatNumber(d[f], 0)}
+                      </td>
+                    ))}
+                    <td className="px-3 py-1.5 text-right tabular-nums text-slate-900">
+                      {target ? formatNumber(iexPrice(d, target.unit), UNITS[target.unit].decimals) : "—"}
+                    </td>
+                    <td className="px-3 py-1.5 text-right tabular-nums text-slate-500">
+                      {d.purchaseBids != null && d.sellBids ? formatNumber(d.purchaseBids / d.sellBids, 2) : "—"}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {snapshot.warnings.length ? (
+            <div className="rounded-xl bg-amber-50 p-3 text-sm text-amber-900 ring-1 ring-amber-200">
+              <ul className="list-disc pl-5 text-xs">
+                {snapshot.warnings.map((w) => (
+                  <li key={w}>{w}</li>
+                ))}
+              </ul>
+            </div>
+          ) : null}
+        </div>
+
+        <div className="flex items-center justify-between gap-3 border-t border-slate-100 p-4">
+          <div className="text-sm text-slate-600">
+            MCP updates {target?.label ?? "the price series"}; bids and MCV are kept alongside it. Existing values for these days are overwritten.
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={onCancel}
+              disabled={busy}
+              className="rounded-xl bg-white px-3 py-2 text-sm font-semibold text-slate-700 ring-1 ring-slate-200 hover:bg-slate-50 disabled:opacity-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => onApply(market)}
+              disabled={busy || !target || !days.length}
+              className="rounded-xl bg-slate-900 px-3 py-2 text-sm font-semibold text-white hover:bg-slate-800 disabled:opacity-50"
+            >
+              Import {days.length} day{days.length === 1 ? "" : "s"}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
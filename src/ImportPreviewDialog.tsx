@@ -0,0 +1,239 @@
+import React, { useState } from "react";
+import { DATE_CONVENTION_LABELS, describeDateFormat } from "./dates";
+import type { DateConvention, DateInference } from "./dates";
+import { MERGE_POLICY_LABELS, rowsToApply } from "./merge";
+import type { ImportDiff, MergePolicy } from "./merge";
+
+/**
+ * Import preview
+ * - Shown after a CSV is read and BEFORE anything is merged
+ * - Date convention can be changed here; the diff is recomputed by the caller
+ * - Nothing is written until "Apply import"
+ */
+
+function formatDDMMYYYY(iso: string) {
+  if (!iso || !/^\d{4}-\d{2}-\d{2}$/.test(iso)) return "—";
+  const [y, m, d] = iso.split("-");
+  return `${d}-${m}-${y}`;
+}
+
+function SummaryTile({ label, value, tone }: { label: string; value: number; tone: string }) {
+  return (
+    <div className={`rounded-xl p-3 ring-1 ${tone}`}>
+      <div className="text-xs font-medium">{label}</div>
+      <div className="mt-1 text-xl font-semibold tabular-nums">{value}</div>
+    </div>
+  );
+}
+
+function DateFormatSection({
+  inference,
+  convention,
+  onConventionChange,
+}: {
+  inference: DateInference;
+  convention: DateConvention;
+  onConventionChange: (c: DateConvention) => void;
+}) {
+  const { counts } = inference;
+  const flagged = [
+    ...inference.conflicts.map((c) => ({ line: c.line, raw: c.raw, note: c.reason })),
+    ...inference.ambiguous.map((a) => ({ line: a.line, raw: a.raw, note: "ambiguous (DD/MM or MM/DD)" })),
+  ].sort((a, b) => a.line - b.line);
+
+  return (
+    <div className="rounded-xl bg-amber-50 p-3 text-sm text-amber-900 ring-1 ring-amber-200">
+      <div>
+        Detected date format <span className="font-mono">{describeDateFormat(inference)}</span>
+        {inference.confident ? "" : " (no row settles it — please check)"}
+      </div>
+      <div className="mt-1 text-xs text-amber-800">
+        {counts.dmy} rows only valid as DD/MM · {counts.mdy} only as MM/DD · {counts.ambiguous} ambiguous
+        {counts.iso ? ` · ${counts.iso} ISO` : ""}
+        {counts.monthOnly ? ` · ${counts.monthOnly} month-only` : ""}
+        {counts.invalid ? ` · ${counts.invalid} unreadable` : ""}
+      </div>
+
+      <label className="mt-2 block text-xs font-medium">Read dates as</label>
+      <select
+        value={convention}
+        onChange={(e) => onConventionChange(e.target.value as DateConvention)}
+        className="mt-1 w-full rounded-xl border border-amber-200 bg-white px-2 py-1 text-sm text-slate-700"
+      >
+        {(Object.keys(DATE_CONVENTION_LABELS) as DateConvention[]).map((c) => (
+          <option key={c} value={c}>
+            {DATE_CONVENTION_LABELS[c]}
+          </option>
+        ))}
+      </select>
+
+      {flagged.length ? (
+        <ul className="mt-2 max-h-28 list-disc overflow-auto pl-5 text-xs">
+          {flagged.slice(0, 20).map((f) => (
+            <li key={`${f.line}-${f.note}`}>
+              Line {f.line}: <span className="font-mono">{f.raw}</span> — {f.note}
+            </li>
+          ))}
+          {flagged.length > 20 ? <li>…and {flagged.length - 20} more</li> : null}
+        </ul>
+      ) : null}
+    </div>
+  );
+}
+
+type DetailView = "changed" | "added" | "unchanged" | "rejected";
+
+export default function ImportPreviewDialog({
+  fileName,
+  inference,
+  convention,
+  onConventionChange,
+  diff,
+  fmtValue,
+  onApply,
+  onCancel,
+}: {
+  fileName: string;
+  inference: DateInference;
+  convention: DateConvention;
+  onConventionChange: (c: DateConvention) => void;
+  diff: ImportDiff;
+  fmtValue: (x: number | null | undefined) => string;
+  onApply: (policy: MergePolicy) => void;
+  onCancel: () => void;
+}) {
+  const [policy, setPolicy] = useState<MergePolicy>("overwrite");
+  const [detail, setDetail] = useState<DetailView>(diff.changed.length ? "changed" : "added");
+
+  const toWrite = rowsToApply(diff, policy);
+  const LIMIT = 200;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/40 p-4">
+      <div className="flex max-h-[90vh] w-full max-w-3xl flex-col rounded-2xl bg-white shadow-xl ring-1 ring-slate-200">
+        <div className="border-b border-slate-100 p-4">
+          <div className="text-sm font-semibold text-slate-800">Import preview</div>
+          <div className="mt-1 text-xs text-slate-500">{fileName}</div>
+        </div>
+
+        <div className="flex-1 space-y-4 overflow-auto p-4">
+          <DateFormatSection inference={inference} convention={convention} onConventionChange={onConventionChange} />
+
+          <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+            <SummaryTile label="New dates" value={diff.added.length} tone="bg-emerald-50 text-emerald-800 ring-emerald-200" />
+            <SummaryTile label="Overwrite" value={diff.changed.length} tone="bg-amber-50 text-amber-800 ring-amber-200" />
+            <SummaryTile label="Unchanged" value={diff.unchanged.length} tone="bg-slate-50 text-slate-700 ring-slate-200" />
+            <SummaryTile label="Rejected rows" value={diff.rejected.length} tone="bg-rose-50 text-rose-800 ring-rose-200" />
+          </div>
+
+          <div>
+            <div className="flex flex-wrap gap-2">
+              {(["changed", "added", "unchanged", "rejected"] as DetailView[]).map((v) => (
+                <button
+                  key={v}
+                  type="button"
+                  onClick={() => setDetail(v)}
+                  className={
+                    detail === v
+                      ? "rounded-lg bg-slate-900 px-2 py-1 text-[12px] font-semibold text-white"
+                      : "rounded-lg bg-white px-2 py-1 text-[12px] font-semibold text-slate-700 ring-1 ring-slate-200 hover:bg-slate-50"
+                  }
+                >
+                  {v === "changed" ? "Overwrites" : v === "added" ? "New" : v === "unchanged" ? "Unchanged" : "Rejected"}
+                </button>
+              ))}
+            </div>
+
+            <div className="mt-2 max-h-[260px] overflow-auto rounded-xl ring-1 ring-slate-200">
+              {detail === "rejected" ? (
+                <ul className="list-disc space-y-1 p-3 pl-8 text-sm text-rose-800">
+                  {diff.rejected.slice(0, LIMIT).map((e, i) => (
+                    <li key={i}>{e}</li>
+                  ))}
+                  {!diff.rejected.length ? <li className="list-none text-slate-500">No rejected rows.</li> : null}
+                </ul>
+              ) : (
+                <table className="w-full border-collapse bg-white text-left text-sm">
+                  <thead className="sticky top-0 bg-slate-50">
+                    <tr>
+                      <th className="px-3 py-2 text-xs font-semibold text-slate-600">Date</th>
+                      {detail === "changed" ? (
+                        <>
+                          <th className="px-3 py-2 text-xs font-semibold text-slate-600">Stored</th>
+                          <th className="px-3 py-2 text-xs font-semibold text-slate-600">Incoming</th>
+                        </>
+                      ) : (
+                        <th className="px-3 py-2 text-xs font-semibold text-slate-600">Value</th>
+                      )}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {detail === "changed"
+                      ? diff.changed.slice(0, LIMIT).map((c) => (
+                          <tr key={c.date} className="border-t border-slate-100">
+                            <td className="px-3 py-1.5 font-medium text-slate-900">{formatDDMMYYYY(c.date)}</td>
+                            <td className="px-3 py-1.5 text-slate-500 tabular-nums">{fmtValue(c.before)}</td>
+                            <td className="px-3 py-1.5 text-slate-900 tabular-nums">→ {fmtValue(c.after)}</td>
+                          </tr>
+                        ))
+                      : (detail === "added" ? diff.added : diff.unchanged).slice(0, LIMIT).map((r) => (
+                          <tr key={r.date} className="border-t border-slate-100">
+                            <td className="px-3 py-1.5 font-medium text-slate-900">{formatDDMMYYYY(r.date)}</td>
+                            <td className="px-3 py-1.5 text-slate-700 tabular-nums">{fmtValue(r.value)}</td>
+                          </tr>
+                        ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+            <div className="mt-1 text-[11px] text-slate-500">Showing up to {LIMIT} rows per list.</div>
+          </div>
+
+          <div>
+            <div className="text-xs font-medium text-slate-600">Merge policy</div>
+            <div className="mt-1 grid grid-cols-1 gap-1 text-sm text-slate-700">
+              {(Object.keys(MERGE_POLICY_LABELS) as MergePolicy[]).map((p) => (
+                <label key={p} className="flex items-center gap-2">
+                  <input
+                    type="radio"
+                    name="merge-policy"
+                    checked={policy === p}
+                    onChange={() => setPolicy(p)}
+                    className="h-4 w-4 border-slate-300"
+                  />
+                  <span>{MERGE_POLICY_LABELS[p]}</span>
+                </label>
+              ))}
+            </div>
+            {policy === "fill-gaps" && diff.existingRange ? (
+              <div className="mt-1 text-[11px] text-slate-500">
+                Stored range: {formatDDMMYYYY(diff.existingRange.from)} – {formatDDMMYYYY(diff.existingRange.to)}
+              </div>
+            ) : null}
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between gap-3 border-t border-slate-100 p-4">
+          <div className="text-sm text-slate-600">
+            Will write <span className="font-semibold text-slate-900">{toWrite.length}</span> rows
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={onCancel}
+              className="rounded-xl bg-white px-3 py-2 text-sm font-semibold text-slate-700 ring-1 ring-slate-200 hover:bg-slate-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => onApply(policy)}
+              disabled={!toWrite.length}
+              className="rounded-xl bg-slate-900 px-3 py-2 text-sm font-semibold text-white hover:bg-slate-800 disabled:opacity-50"
+            >
+              Apply import
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,265 @@
+import React, { useMemo, useState } from "react";
+import { CartesianGrid, Legend, Line, LineChart, ReferenceArea, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { blockLabel, BLOCKS_PER_DAY, convertBlock, monthlyProfiles, solarSplits, TIME_WINDOWS } from "./intraday";
+import type { IntradayBlocks, IntradayRecord } from "./intraday";
+import { UNITS } from "./units";
+import type { UnitId } from "./units";
+
+/**
+ * Time-of-day views for series with 15-minute blocks
+ * - Heatmap: day × time of day over the chart's date range (latest days)
+ * - Average daily profile per month, solar hours shaded
+ * - Solar / non-solar / evening-peak averages per month
+ * Blocks arrive in the record's unit; energy series show them as average power (MW),
+ * other series in the chart's display unit.
+ */
+
+const HEATMAP_MAX_DAYS = 92;
+const PROFILE_MONTHS = [3, 6, 12];
+const PROFILE_COLORS = ["#2563eb", "#dc2626", "#16a34a", "#f97316", "#4f46e5", "#eab308", "#0891b2", "#db2777", "#65a30d", "#7c3aed", "#ea580c", "#000000"];
+const HEAT_STOPS = ["#fef9c3", "#fde047", "#fb923c", "#ef4444", "#7f1d1d"];
+
+const CELL_W = 8;
+const CELL_H = 6;
+const LABEL_W = 64;
+const AXIS_H = 16;
+
+function formatDDMMYYYY(iso: string) {
+  if (!iso || !/^\d{4}-\d{2}-\d{2}$/.test(iso)) return "—";
+  const [y, m, d] = iso.split("-");
+  return `${d}-${m}-${y}`;
+}
+
+function monthLabel(ym: string) {
+  const [y, m] = ym.split("-").map(Number);
+  return new Date(Date.UTC(y, m - 1, 1)).toLocaleString("en-IN", { month: "short", year: "numeric", timeZone: "UTC" });
+}
+
+function hexToRgb(hex: string) {
+  const n = parseInt(hex.slice(1), 16);
+  return [(n >> 16) & 255, (n >> 8) & 255, n & 255];
+}
+
+/** Colour for t in [0, 1] along HEAT_STOPS */
+function heatColor(t: number) {
+  const x = Math.min(1, Math.max(0, t)) * (HEAT_STOPS.length - 1);
+  const i = Math.min(HEAT_STOPS.length - 2, Math.floor(x));
+  const a = hexToRgb(HEAT_STOPS[i]);
+  const b = hexToRgb(HEAT_STOPS[i + 1]);
+  const f = x - i;
+  return `rgb(${a.map((v, k) => Math.round(v + (b[k] - v) * f)).join(",")})`;
+}
+
+function scaled(blocks: IntradayBlocks, from: UnitId, to: UnitId) {
+  return from === to ? blocks : blocks.map((v) => (v == null ? null : convertBlock(v, from, to)));
+}
+
+export default function IntradayPanel({
+  record,
+  seriesUnit,
+  displayUnit,
+  fromIso,
+  toIso,
+}: {
+  record: IntradayRecord;
+  seriesUnit: UnitId;
+  /** the dashboard's display unit (series of the same dimension) */
+  displayUnit: UnitId;
+  fromIso: string;
+  toIso: string;
+}) {
+  const [profileMonths, setProfileMonths] = useState(6);
+
+  const storedUnit = record.unit ?? seriesUnit;
+  const shownUnit: UnitId = UNITS[seriesUnit].dimension === "energy" ? "MW" : displayUnit;
+  const unitLabel = UNITS[shownUnit].label;
+  const fmtValue = (x: number | null | undefined) => {
+    if (x == null || Number.isNaN(x)) return "—";
+    const { decimals, suffix } = UNITS[shownUnit];
+    return `${new Intl.NumberFormat("en-IN", { minimumFractionDigits: decimals, maximumFractionDigits: decimals }).format(
+      Number(x.toFixed(decimals))
+    )}${suffix}`;
+  };
+
+  const heatmap = useMemo(() => {
+    const dates = Object.keys(record.days)
+      .filter((d) => (!fromIso || d >= fromIso) && (!toIso || d <= toIso))
+      .sort()
+      .slice(-HEATMAP_MAX_DAYS);
+    const rows = dates.map((date) => ({ date, blocks: scaled(record.days[date], storedUnit, shownUnit) }));
+    let min = Infinity;
+    let max = -Infinity;
+    for (const r of rows)
+      for (const v of r.blocks) {
+        if (v == null) continue;
+        if (v < min) min = v;
+        if (v > max) max = v;
+      }
+    return { rows, min: Number.isFinite(min) ? min : 0, max: Number.isFinite(max) ? max : 0 };
+  }, [record, storedUnit, shownUnit, fromIso, toIso]);
+
+  const profiles = useMemo(
+    () => monthlyProfiles(record.days).map((p) => ({ ...p, profile: scaled(p.profile, storedUnit, shownUnit) })),
+    [record, storedUnit, shownUnit]
+  );
+
+  const profileChart = useMemo(() => {
+    const shown = profiles.slice(-profileMonths);
+    const data = Array.from({ length: BLOCKS_PER_DAY }, (_, i) => {
+      const row: Record<string, string | number | null> = { time: blockLabel(i) };
+      for (const p of shown) row[p.month] = p.profile[i];
+      return row;
+    });
+    return { shown, data };
+  }, [profiles, profileMonths]);
+
+  const splits = useMemo(() => solarSplits(profiles).slice(-12).reverse(), [profiles]);
+
+  if (!Object.keys(record.days).length) {
+    return (
+      <div className="text-sm text-slate-600">
+        No 15-minute data yet. Import a block file (date,block,value · datetime,value · or a date + 96 block columns)
+        under “Add / Update a day”.
+      </div>
+    );
+  }
+
+  const span = heatmap.max - heatmap.min || 1;
+  const svgW = LABEL_W + BLOCKS_PER_DAY * CELL_W;
+  const svgH = AXIS_H + heatmap.rows.length * CELL_H;
+  const labelEvery = Math.max(1, Math.ceil(heatmap.rows.length / 12));
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <div className="mb-1 flex flex-wrap items-center justify-between gap-2">
+          <div className="text-xs font-medium text-slate-600">
+            Day × time of day ({unitLabel}){heatmap.rows.length ? ` — ${heatmap.rows.length} days up to ${formatDDMMYYYY(heatmap.rows[heatmap.rows.length - 1].date)}` : ""}
+          </div>
+          <div className="flex items-center gap-2 text-xs text-slate-500">
+            <span className="tabular-nums">{fmtValue(heatmap.min)}</span>
+            <span
+              className="inline-block h-2 w-24 rounded"
+              style={{ background: `linear-gradient(to right, ${HEAT_STOPS.join(", ")})` }}
+            />
+            <span className="tabular-nums">{fmtValue(heatmap.max)}</span>
+          </div>
+        </div>
+        {!heatmap.rows.length ? (
+          <div className="text-sm text-slate-600">No 15-minute data in the selected date range.</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <svg viewBox={`0 0 ${svgW} ${svgH}`} width="100%" style={{ minWidth: 560 }} role="img" aria-label="Time-of-day heatmap">
+              {Array.from({ length: 8 }, (_, k) => k * 12).map((b) => (
+                <text key={b} x={LABEL_W + b * CELL_W} y={10} fontSize={9} fill="#64748b">
+                  {blockLabel(b)}
+                </text>
+              ))}
+              {heatmap.rows.map((r, y) => (
+                <g key={r.date} transform={`translate(0, ${AXIS_H + y * CELL_H})`}>
+                  {y % labelEvery === 0 ? (
+                    <text x={0} y={CELL_H} fontSize={8} fill="#64748b">
+                      {formatDDMMYYYY(r.date)}
+                    </text>
+                  ) : null}
+                  {r.blocks.map((v, i) => (
+                    <rect
+                      key={i}
+                      x={LABEL_W + i * CELL_W}
+                      y={0}
+                      width={CELL_W}
+                      height={CELL_H}
+                      fill={v == null ? "#f1f5f9" : heatColor((v - heatmap.min) / span)}
+                    >
+                      <title>{`${formatDDMMYYYY(r.date)} ${blockLabel(i)}: ${v == null ? "missing" : fmtValue(v)}`}</title>
+                    </rect>
+                  ))}
+                </g>
+              ))}
+            </svg>
+          </div>
+        )}
+      </div>
+
+      <div>
+        <div className="mb-1 flex flex-wrap items-center justify-between gap-2">
+          <div className="text-xs font-medium text-slate-600">Average daily profile by month ({unitLabel})</div>
+          <div className="flex gap-1">
+            {PROFILE_MONTHS.map((n) => (
+              <button
+                key={n}
+                type="button"
+                onClick={() => setProfileMonths(n)}
+                className={
+                  profileMonths === n
+                    ? "rounded-lg bg-slate-900 px-2 py-1 text-[12px] font-semibold text-white"
+                    : "rounded-lg bg-white px-2 py-1 text-[12px] font-semibold text-slate-700 ring-1 ring-slate-200 hover:bg-slate-50"
+                }
+              >
+                Last {n} months
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="h-[300px]">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={profileChart.data} margin={{ top: 10, right: 18, bottom: 10, left: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="time" tick={{ fontSize: 11 }} interval={11} />
+              <YAxis tick={{ fontSize: 11 }} width={56} domain={["auto", "auto"]} />
+              <Tooltip formatter={(v) => (typeof v === "number" ? fmtValue(v) : "—")} />
+              <Legend />
+              <ReferenceArea
+                x1={blockLabel(TIME_WINDOWS.solar.from)}
+                x2={blockLabel(TIME_WINDOWS.solar.to - 1)}
+                fill="#fde047"
+                fillOpacity={0.15}
+              />
+              {profileChart.shown.map((p, k) => (
+                <Line
+                  key={p.month}
+                  type="monotone"
+                  dataKey={p.month}
+                  name={monthLabel(p.month)}
+                  dot={false}
+                  strokeWidth={2}
+                  stroke={PROFILE_COLORS[k % PROFILE_COLORS.length]}
+                  connectNulls
+                />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+        <div className="mt-1 text-xs text-slate-500">Shaded: {TIME_WINDOWS.solar.label.toLowerCase()}.</div>
+      </div>
+
+      <div>
+        <div className="mb-1 text-xs font-medium text-slate-600">Solar vs non-solar hours (average per block, {unitLabel})</div>
+        <div className="overflow-auto rounded-xl ring-1 ring-slate-200">
+          <table className="w-full border-collapse bg-white text-left text-sm">
+            <thead className="bg-slate-50">
+              <tr>
+                <th className="px-3 py-2 text-xs font-semibold text-slate-600">Month</th>
+                <th className="px-3 py-2 text-right text-xs font-semibold text-slate-600">{TIME_WINDOWS.solar.label}</th>
+                <th className="px-3 py-2 text-right text-xs font-semibold text-slate-600">Non-solar hours</th>
+                <th className="px-3 py-2 text-right text-xs font-semibold text-slate-600">{TIME_WINDOWS.evening.label}</th>
+                <th className="px-3 py-2 text-right text-xs font-semibold text-slate-600">Solar / non-solar</th>
+              </tr>
+            </thead>
+            <tbody>
+              {splits.map((s) => (
+                <tr key={s.month} className="border-t border-slate-100">
+                  <td className="px-3 py-1.5 font-medium text-slate-900">{monthLabel(s.month)}</td>
+                  <td className="px-3 py-1.5 text-right tabular-nums text-slate-700">{fmtValue(s.solar)}</td>
+                  <td className="px-3 py-1.5 text-right tabular-nums text-slate-700">{fmtValue(s.nonSolar)}</td>
+                  <td className="px-3 py-1.5 text-right tabular-nums text-slate-700">{fmtValue(s.evening)}</td>
+                  <td className="px-3 py-1.5 text-right tabular-nums text-slate-700">{s.ratio == null ? "—" : s.ratio.toFixed(2)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
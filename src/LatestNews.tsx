@@ -1,4 +1,5 @@
 import React, { useEffect, useMemo, useState } from "react";
+import { readKey, storageKeys, writeKey } from "./storage";
 
 type NewsItem = {
   id: string;
@@ -9,7 +10,6 @@ type NewsItem = {
   snippet: string;
 };
 
-const CACHE_KEY = "latestNews_cache_v4";
 const CACHE_TTL_MS = 60 * 60 * 1000; // 1 hour
 const MIN_DATE = "2015-01-01";
 
@@ -67,11 +67,9 @@ function isRelevant(item: NewsItem) {
   return mentionsIndia && mentionsPower;
 }
 
-function loadCache(): NewsItem[] | null {
+async function loadCache(): Promise<NewsItem[] | null> {
   try {
-    const raw = localStorage.getItem(CACHE_KEY);
-    if (!raw) return null;
-    const obj = JSON.parse(raw);
+    const obj = await readKey(storageKeys.newsCache);
     if (!obj || typeof obj !== "object") return null;
     if (typeof obj.ts !== "number" || !Array.isArray(obj.items)) return null;
     if (Date.now() - obj.ts > CACHE_TTL_MS) return null;
@@ -82,11 +80,8 @@ function loadCache(): NewsItem[] | null {
 }
 
 function saveCache(items: NewsItem[]) {
-  try {
-    localStorage.setItem(CACHE_KEY, JSON.stringify({ ts: Date.now(), items }));
-  } catch {
-    // ignore
-  }
+  // failures are reported through onStorageError; a missing cache only costs a refetch
+  writeKey(storageKeys.newsCache, { ts: Date.now(), items }).catch(() => undefined);
 }
 
 async function fetchGoogleNewsRSS(forceFresh: boolean): Promise<NewsItem[]> {
@@ -202,7 +197,7 @@ export default function LatestNews() {
 
     try {
       if (!force) {
-        const cached = loadCache();
+        const cached = await loadCache();
         if (cached) {
           setItems(cached);
           setLoading(false);
@@ -0,0 +1,232 @@
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ReferenceLine,
+  ResponsiveContainer,
+  Scatter,
+  ScatterChart,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { correlation, IEX_VOLUME_FIELDS, joinMarketDays, marketSeriesId } from "./iex";
+import type { IexVolumeField, MarketDay } from "./iex";
+import { storedSeriesKey } from "./seriesStore";
+import { readKey, storageKeys, subscribeKey } from "./storage";
+import { convertValue } from "./units";
+
+/**
+ * Market depth for a price tab (DAM / RTM)
+ * - Bids and MCV come from the related series filled by the IEX snapshot import
+ * - Buy / sell bid ratio over time + price vs cleared volume scatter
+ * - Volumes are shown in MU; prices in the tab's display unit
+ */
+
+type RangeId = "90" | "365" | "all";
+
+const RANGE_LABELS: Record<RangeId, string> = { "90": "Last 90 days", "365": "Last 1 year", all: "All" };
+
+const VOLUME_FIELDS = Object.keys(IEX_VOLUME_FIELDS) as IexVolumeField[];
+
+// days at the end of the range drawn in a second colour on the scatter
+const RECENT_DAYS = 30;
+
+function formatDDMMYYYY(iso: string) {
+  if (!iso || !/^\d{4}-\d{2}-\d{2}$/.test(iso)) return "—";
+  const [y, m, d] = iso.split("-");
+  return `${d}-${m}-${y}`;
+}
+
+function isoPlusDays(iso: string, days: number) {
+  const d = new Date(iso + "T00:00:00Z");
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+function toMU(mwh: number | null) {
+  return mwh == null ? null : convertValue(mwh, IEX_VOLUME_FIELDS.mcv.unit, "MU");
+}
+
+function formatMU(x: number | null | undefined) {
+  if (x == null || !Number.isFinite(x)) return "—";
+  return `${new Intl.NumberFormat("en-IN", { maximumFractionDigits: 1 }).format(x)} MU`;
+}
+
+function emptyVolumes(): Record<IexVolumeField, Map<string, number>> {
+  return { purchaseBids: new Map(), sellBids: new Map(), mcv: new Map() };
+}
+
+export default function MarketPanel({
+  seriesId,
+  prices,
+  priceLabel,
+  fmtPrice,
+}: {
+  seriesId: string;
+  /** date -> price in the display unit */
+  prices: Map<string, number>;
+  priceLabel: string;
+  fmtPrice: (x: number) => string;
+}) {
+  const [volumes, setVolumes] = useState(emptyVolumes);
+  const [range, setRange] = useState<RangeId>("365");
+
+  useEffect(() => {
+    let cancelled = false;
+    const unsubs = VOLUME_FIELDS.map((field) => {
+      const key = storageKeys.series(marketSeriesId(seriesId, field));
+      const set = (points: Record<string, { value: number }> | undefined) => {
+        if (cancelled) return;
+        const m = new Map<string, number>();
+        for (const [d, p] of Object.entries(points ?? {})) if (Number.isFinite(p?.value)) m.set(d, p.value);
+        setVolumes((v) => ({ ...v, [field]: m }));
+      };
+      storedSeriesKey(key.key)
+        .then(readKey)
+        .then((rec) => set(rec?.points))
+        .catch(() => undefined); // reported by storage
+      return subscribeKey(key, (rec) => set(rec?.points));
+    });
+    return () => {
+      cancelled = true;
+      for (const u of unsubs) u();
+    };
+  }, [seriesId]);
+
+  const allDays = useMemo(() => joinMarketDays(prices, volumes), [prices, volumes]);
+  const hasVolumes = allDays.some((d) => d.purchaseBids != null || d.mcv != null);
+
+  const days = useMemo(() => {
+    const withVolumes = allDays.filter((d) => d.purchaseBids != null || d.sellBids != null || d.mcv != null);
+    if (range === "all" || !withVolumes.length) return withVolumes;
+    const from = isoPlusDays(withVolumes[withVolumes.length - 1].date, -(Number(range) - 1));
+    return withVolumes.filter((d) => d.date >= from);
+  }, [allDays, range]);
+
+  const ratioSeries = useMemo(() => days.map((d) => ({ date: d.date, ratio: d.ratio })), [days]);
+
+  const scatter = useMemo(() => {
+    const pts = days.filter((d): d is MarketDay & { price: number; mcv: number } => d.price != null && d.mcv != null);
+    const cut = days.length ? isoPlusDays(days[days.length - 1].date, -(RECENT_DAYS - 1)) : "";
+    const toPoint = (d: MarketDay & { price: number; mcv: number }) => ({ date: d.date, mcv: toMU(d.mcv), price: d.price });
+    return {
+      earlier: pts.filter((d) => d.date < cut).map(toPoint),
+      recent: pts.filter((d) => d.date >= cut).map(toPoint),
+      r: correlation(pts.map((d) => [d.mcv, d.price])),
+    };
+  }, [days]);
+
+  const latest = days[days.length - 1] ?? null;
+  const ratios = days.map((d) => d.ratio).filter((x): x is number => x != null);
+  const avgRatio = ratios.length ? ratios.reduce((a, x) => a + x, 0) / ratios.length : null;
+
+  if (!hasVolumes) {
+    return (
+      <div className="text-sm text-slate-600">
+        No bid or volume data yet. Import an IEX market snapshot (under “Add / Update a day”) to add purchase bids, sell
+        bids and MCV for this market.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        {(Object.keys(RANGE_LABELS) as RangeId[]).map((r) => (
+          <button
+            key={r}
+            type="button"
+            onClick={() => setRange(r)}
+            className={
+              range === r
+                ? "rounded-lg bg-slate-900 px-2 py-1 text-[12px] font-semibold text-white"
+                : "rounded-lg bg-white px-2 py-1 text-[12px] font-semibold text-slate-700 ring-1 ring-slate-200 hover:bg-slate-50"
+            }
+          >
+            {RANGE_LABELS[r]}
+          </button>
+        ))}
+        {latest ? <span className="text-xs text-slate-500">Latest: {formatDDMMYYYY(latest.date)}</span> : null}
+      </div>
+
+      {latest ? (
+        <div className="grid grid-cols-2 gap-3 sm:grid-cols-5">
+          {VOLUME_FIELDS.map((f) => (
+            <div key={f} className="rounded-xl bg-slate-50 p-3 ring-1 ring-slate-200">
+              <div className="text-xs text-slate-500">{IEX_VOLUME_FIELDS[f].label}</div>
+              <div className="mt-1 text-lg font-semibold tabular-nums text-slate-900">{formatMU(toMU(latest[f]))}</div>
+            </div>
+          ))}
+          <div className="rounded-xl bg-slate-50 p-3 ring-1 ring-slate-200">
+            <div className="text-xs text-slate-500">Buy / sell bid ratio</div>
+            <div className="mt-1 text-lg font-semibold tabular-nums text-slate-900">{latest.ratio == null ? "—" : latest.ratio.toFixed(2)}</div>
+            <div className="text-xs text-slate-500">avg {avgRatio == null ? "—" : avgRatio.toFixed(2)} in range</div>
+          </div>
+          <div className="rounded-xl bg-slate-50 p-3 ring-1 ring-slate-200">
+            <div className="text-xs text-slate-500">Price</div>
+            <div className="mt-1 text-lg font-semibold tabular-nums text-slate-900">{latest.price == null ? "—" : fmtPrice(latest.price)}</div>
+          </div>
+        </div>
+      ) : null}
+
+      <div className="grid grid-cols-1 gap-4 lg:grid-cols-2">
+        <div>
+          <div className="mb-1 text-xs font-medium text-slate-600">Buy / sell bid ratio</div>
+          <div className="h-[260px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={ratioSeries} margin={{ top: 10, right: 18, bottom: 10, left: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="date" tick={{ fontSize: 11 }} minTickGap={24} tickFormatter={(v) => formatDDMMYYYY(String(v))} />
+                <YAxis tick={{ fontSize: 11 }} width={40} domain={["auto", "auto"]} />
+                <Tooltip
+                  labelFormatter={(v) => formatDDMMYYYY(String(v))}
+                  formatter={(v) => (typeof v === "number" ? v.toFixed(2) : "—")}
+                />
+                <ReferenceLine y={1} stroke="#6b7280" strokeDasharray="4 4" />
+                <Line type="monotone" dataKey="ratio" name="Purchase / sell bids" dot={false} strokeWidth={2} stroke="#2563eb" connectNulls={false} />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+          <div className="mt-1 text-xs text-slate-500">Above 1: more demand was bid than supply offered.</div>
+        </div>
+
+        <div>
+          <div className="mb-1 text-xs font-medium text-slate-600">
+            Price vs cleared volume
+            {scatter.r != null ? <span className="ml-2 font-normal text-slate-500">correlation {scatter.r.toFixed(2)}</span> : null}
+          </div>
+          <div className="h-[260px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <ScatterChart margin={{ top: 10, right: 18, bottom: 10, left: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis type="number" dataKey="mcv" name="MCV" unit=" MU" tick={{ fontSize: 11 }} domain={["auto", "auto"]} />
+                <YAxis type="number" dataKey="price" name="Price" tick={{ fontSize: 11 }} width={48} domain={["auto", "auto"]} />
+                <Tooltip
+                  cursor={{ strokeDasharray: "3 3" }}
+                  content={({ active, payload }) => {
+                    const p = active && payload?.length ? (payload[0].payload as { date: string; mcv: number; price: number }) : null;
+                    if (!p) return null;
+                    return (
+                      <div className="rounded-lg bg-white px-2 py-1 text-xs shadow ring-1 ring-slate-200">
+                        <div className="font-semibold text-slate-900">{formatDDMMYYYY(p.date)}</div>
+                        <div>MCV {formatMU(p.mcv)}</div>
+                        <div>Price {fmtPrice(p.price)}</div>
+                      </div>
+                    );
+                  }}
+                />
+                <Legend />
+                <Scatter name="Earlier" data={scatter.earlier} fill="#94a3b8" />
+                <Scatter name={`Last ${RECENT_DAYS} days`} data={scatter.recent} fill="#dc2626" />
+              </ScatterChart>
+            </ResponsiveContainer>
+          </div>
+          <div className="mt-1 text-xs text-slate-500">Price in {priceLabel}; one dot per day.</div>
+        </div>
+      </div>
+    </div>
+  );
+}
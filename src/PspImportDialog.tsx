@@ -0,0 +1,169 @@
+import React, { useEffect, useState } from "react";
+import { PSP_FIELDS, pspValue } from "./psp";
+import type { PspField, PspReport } from "./psp";
+import { storedSeriesKey } from "./seriesStore";
+import { readKey } from "./storage";
+import { UNITS } from "./units";
+import type { UnitId } from "./units";
+
+/**
+ * Grid-India PSP report import
+ * - Lists every series the report can update with the value it would write
+ *   and what is stored for that day now
+ * - The report date can be corrected before applying
+ */
+
+export type PspTarget = {
+  seriesId: string;
+  label: string;
+  unit: UnitId;
+  field: PspField;
+};
+
+function formatNumber(x: number | null | undefined, unit: UnitId) {
+  if (x == null || !Number.isFinite(x)) return "—";
+  const decimals = UNITS[unit].decimals;
+  return `${new Intl.NumberFormat("en-IN", { minimumFractionDigits: decimals, maximumFractionDigits: decimals }).format(x)}${UNITS[unit].suffix}`;
+}
+
+export default function PspImportDialog({
+  report,
+  targets,
+  busy,
+  onApply,
+  onCancel,
+}: {
+  report: PspReport;
+  targets: PspTarget[];
+  busy: boolean;
+  onApply: (date: string, seriesIds: string[]) => void;
+  onCancel: () => void;
+}) {
+  const [date, setDate] = useState(report.date ?? "");
+  const available = targets.filter((t) => pspValue(report, t.field, t.unit) != null);
+  const [selected, setSelected] = useState<Set<string>>(() => new Set(available.map((t) => t.seriesId)));
+  const [current, setCurrent] = useState<Record<string, number | null>>({});
+
+  useEffect(() => {
+    let cancelled = false;
+    if (!date) return;
+    Promise.all(
+      targets.map(async (t) => {
+        const rec = await storedSeriesKey(t.seriesId)
+          .then(readKey)
+          .catch(() => undefined);
+        return [t.seriesId, rec?.points?.[date]?.value ?? null] as const;
+      })
+    ).then((pairs) => {
+      if (!cancelled) setCurrent(Object.fromEntries(pairs));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [date, targets]);
+
+  const toggle = (id: string) =>
+    setSelected((s) => {
+      const next = new Set(s);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+
+  const count = available.filter((t) => selected.has(t.seriesId)).length;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/40 p-4">
+      <div className="flex max-h-[90vh] w-full max-w-3xl flex-col rounded-2xl bg-white shadow-xl ring-1 ring-slate-200">
+        <div className="border-b border-slate-100 p-4">
+          <div className="text-sm font-semibold text-slate-800">Import Grid-India PSP report</div>
+          <div className="mt-1 text-xs text-slate-500">{report.fileName}</div>
+        </div>
+
+        <div className="flex-1 space-y-4 overflow-auto p-4">
+          <div className="max-w-[220px]">
+            <label className="text-xs font-medium text-slate-600">Figures are for</label>
+            <input
+              type="date"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+              className="mt-1 w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 tabular-nums"
+            />
+          </div>
+
+          <div className="overflow-auto rounded-xl ring-1 ring-slate-200">
+            <table className="w-full border-collapse bg-white text-left text-sm">
+              <thead className="bg-slate-50">
+                <tr>
+                  <th className="w-10 px-3 py-2 text-xs font-semibold text-slate-600"></th>
+                  <th className="px-3 py-2 text-xs font-semibold text-slate-600">Series</th>
+                  <th className="px-3 py-2 text-xs font-semibold text-slate-600">Report row</th>
+                  <th className="px-3 py-2 text-xs font-semibold text-slate-600">Stored</th>
+                  <th className="px-3 py-2 text-xs font-semibold text-slate-600">From report</th>
+                </tr>
+              </thead>
+              <tbody>
+                {targets.map((t) => {
+                  const v = pspValue(report, t.field, t.unit);
+                  return (
+                    <tr key={t.seriesId} className={`border-t border-slate-100 ${v == null ? "text-slate-400" : ""}`}>
+                      <td className="px-3 py-1.5">
+                        <input
+                          type="checkbox"
+                          disabled={v == null}
+                          checked={v != null && selected.has(t.seriesId)}
+                          onChange={() => toggle(t.seriesId)}
+                          className="h-4 w-4 rounded border-slate-300"
+                        />
+                      </td>
+                      <td className="px-3 py-1.5 font-medium">{t.label}</td>
+                      <td className="px-3 py-1.5 text-xs text-slate-500">{PSP_FIELDS[t.field].label}</td>
+                      <td className="px-3 py-1.5 tabular-nums text-slate-500">{formatNumber(current[t.seriesId], t.unit)}</td>
+                      <td className="px-3 py-1.5 tabular-nums">{v == null ? "not in report" : formatNumber(v, t.unit)}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          {report.generation.length ? (
+            <div className="text-xs text-slate-500">
+              Source-wise generation read: {report.generation.map((g) => `${g.label} ${g.value}`).join(" · ")}
+            </div>
+          ) : null}
+
+          {report.warnings.length ? (
+            <div className="rounded-xl bg-amber-50 p-3 text-sm text-amber-900 ring-1 ring-amber-200">
+              <ul className="list-disc pl-5 text-xs">
+                {report.warnings.map((w) => (
+                  <li key={w}>{w}</li>
+                ))}
+              </ul>
+            </div>
+          ) : null}
+        </div>
+
+        <div className="flex items-center justify-between gap-3 border-t border-slate-100 p-4">
+          <div className="text-sm text-slate-600">Existing values for this day are overwritten.</div>
+          <div className="flex gap-2">
+            <button
+              onClick={onCancel}
+              disabled={busy}
+              className="rounded-xl bg-white px-3 py-2 text-sm font-semibold text-slate-700 ring-1 ring-slate-200 hover:bg-slate-50 disabled:opacity-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => onApply(date, available.filter((t) => selected.has(t.seriesId)).map((t) => t.seriesId))}
+              disabled={busy || !date || !count}
+              className="rounded-xl bg-slate-900 px-3 py-2 text-sm font-semibold text-white hover:bg-slate-800 disabled:opacity-50"
+            >
+              Update {count} series
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
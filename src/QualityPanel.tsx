@@ -0,0 +1,153 @@
+import React, { useState } from "react";
+import { QUALITY_KIND_LABELS } from "./quality";
+import type { QualityFinding, QualityKind } from "./quality";
+
+/**
+ * Data quality panel
+ * - Counts per check, filter by check, "show reviewed" toggle
+ * - Clicking a date jumps to it in the entries table
+ */
+
+const KIND_TONES: Record<QualityKind, string> = {
+  missing: "bg-amber-50 text-amber-800 ring-amber-200",
+  duplicate: "bg-violet-50 text-violet-800 ring-violet-200",
+  "zero-run": "bg-rose-50 text-rose-800 ring-rose-200",
+  "constant-run": "bg-slate-50 text-slate-700 ring-slate-200",
+  outlier: "bg-sky-50 text-sky-800 ring-sky-200",
+};
+
+function formatDDMMYYYY(iso: string) {
+  if (!iso || !/^\d{4}-\d{2}-\d{2}$/.test(iso)) return "—";
+  const [y, m, d] = iso.split("-");
+  return `${d}-${m}-${y}`;
+}
+
+export default function QualityPanel({
+  findings,
+  reviewed,
+  onToggleReviewed,
+  onJump,
+  onExport,
+}: {
+  findings: QualityFinding[];
+  reviewed: Record<string, number>;
+  onToggleReviewed: (id: string) => void;
+  onJump: (isoDate: string) => void;
+  onExport: () => void;
+}) {
+  const [kind, setKind] = useState<QualityKind | "all">("all");
+  const [showReviewed, setShowReviewed] = useState(false);
+  const LIMIT = 200;
+
+  const counts = new Map<QualityKind, number>();
+  for (const f of findings) counts.set(f.kind, (counts.get(f.kind) || 0) + 1);
+
+  const visible = findings.filter((f) => (kind === "all" || f.kind === kind) && (showReviewed || !reviewed[f.id]));
+  const reviewedCount = findings.filter((f) => reviewed[f.id]).length;
+
+  if (!findings.length) {
+    return <div className="text-sm text-slate-600">No gaps, duplicates, zero / constant runs or outliers found.</div>;
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          type="button"
+          onClick={() => setKind("all")}
+          className={
+            kind === "all"
+              ? "rounded-lg bg-slate-900 px-2 py-1 text-[12px] font-semibold text-white"
+              : "rounded-lg bg-white px-2 py-1 text-[12px] font-semibold text-slate-700 ring-1 ring-slate-200 hover:bg-slate-50"
+          }
+        >
+          All ({findings.length})
+        </button>
+        {(Object.keys(QUALITY_KIND_LABELS) as QualityKind[]).map((k) =>
+          counts.get(k) ? (
+            <button
+              key={k}
+              type="button"
+              onClick={() => setKind(k)}
+              className={
+                kind === k
+                  ? "rounded-lg bg-slate-900 px-2 py-1 text-[12px] font-semibold text-white"
+                  : `rounded-lg px-2 py-1 text-[12px] font-semibold ring-1 hover:opacity-80 ${KIND_TONES[k]}`
+              }
+            >
+              {QUALITY_KIND_LABELS[k]} ({counts.get(k)})
+            </button>
+          ) : null
+        )}
+
+        <label className="ml-auto flex items-center gap-2 text-xs text-slate-600">
+          <input
+            type="checkbox"
+            checked={showReviewed}
+            onChange={(e) => setShowReviewed(e.target.checked)}
+            className="h-4 w-4 rounded border-slate-300"
+          />
+          Show reviewed ({reviewedCount})
+        </label>
+        <button
+          onClick={onExport}
+          className="rounded-xl bg-white px-3 py-1.5 text-xs font-semibold text-slate-700 ring-1 ring-slate-200 hover:bg-slate-50"
+        >
+          Export checklist
+        </button>
+      </div>
+
+      <div className="max-h-[360px] overflow-auto rounded-xl ring-1 ring-slate-200">
+        <table className="w-full border-collapse bg-white text-left text-sm">
+          <thead className="sticky top-0 bg-slate-50">
+            <tr>
+              <th className="w-10 px-3 py-2 text-xs font-semibold text-slate-600"></th>
+              <th className="px-3 py-2 text-xs font-semibold text-slate-600">Date</th>
+              <th className="px-3 py-2 text-xs font-semibold text-slate-600">Check</th>
+              <th className="px-3 py-2 text-xs font-semibold text-slate-600">Finding</th>
+            </tr>
+          </thead>
+          <tbody>
+            {visible.slice(0, LIMIT).map((f) => (
+              <tr key={f.id} className={`border-t border-slate-100 ${reviewed[f.id] ? "text-slate-400" : ""}`}>
+                <td className="px-3 py-1.5">
+                  <input
+                    type="checkbox"
+                    title="Mark as reviewed"
+                    checked={!!reviewed[f.id]}
+                    onChange={() => onToggleReviewed(f.id)}
+                    className="h-4 w-4 rounded border-slate-300"
+                  />
+                </td>
+                <td className="px-3 py-1.5 whitespace-nowrap">
+                  <button
+                    onClick={() => onJump(f.date)}
+                    className="font-medium text-slate-900 underline decoration-slate-300 underline-offset-2 hover:decoration-slate-900 tabular-nums"
+                  >
+                    {formatDDMMYYYY(f.date)}
+                  </button>
+                </td>
+                <td className="px-3 py-1.5">
+                  <span className={`rounded-lg px-2 py-0.5 text-[11px] font-semibold ring-1 ${KIND_TONES[f.kind]}`}>
+                    {QUALITY_KIND_LABELS[f.kind]}
+                  </span>
+                </td>
+                <td className="px-3 py-1.5">{f.message}</td>
+              </tr>
+            ))}
+            {!visible.length ? (
+              <tr>
+                <td colSpan={4} className="px-3 py-3 text-sm text-slate-500">
+                  Everything in this view is marked as reviewed.
+                </td>
+              </tr>
+            ) : null}
+          </tbody>
+        </table>
+      </div>
+      {visible.length > LIMIT ? (
+        <div className="text-[11px] text-slate-500">Showing {LIMIT} of {visible.length}; the exported checklist has all of them.</div>
+      ) : null}
+    </div>
+  );
+}
@@ -9,6 +9,9 @@ import {
   XAxis,
   YAxis,
 } from "recharts";
+import { parseCsv } from "./csv";
+import { storageKeys, usePersistentState } from "./storage";
+import type { StorageKey } from "./storage";
 
 /**
  * Rated Capacity Tab
@@ -17,7 +20,7 @@ import {
  *
  * IMPORTANT:
  * - Does NOT change formatting/behavior of the Rated Capacity card above (manual inputs still allowed)
- * - Uses localStorage keys:
+ * - Persists (IndexedDB via ./storage, settings store):
  *    - ratedCapacity_installed
  *    - ratedCapacity_plf
  * - Reads initial installed capacities from /data/capacity.csv (latest row in monthly CSV)
@@ -64,46 +67,10 @@ function sumSources(obj: Record<string, number>, keys: string[]) {
   return keys.reduce((acc, k) => acc + safeNum(obj[k]), 0);
 }
 
-function parseCSVSimple(text: string) {
-  const lines = text
-    .split(/\r?\n/)
-    .map((l) => l.trim())
-    .filter(Boolean);
-
-  if (!lines.length) return { header: [], rows: [] as string[][] };
-
-  const parseLine = (line: string) => {
-    const out: string[] = [];
-    let cur = "";
-    let inQuotes = false;
-
-    for (let i = 0; i < line.length; i++) {
-      const ch = line[i];
-      const next = line[i + 1];
-
-      if (ch === '"' && inQuotes && next === '"') {
-        cur += '"';
-        i++;
-        continue;
-      }
-      if (ch === '"') {
-        inQuotes = !inQuotes;
-        continue;
-      }
-      if (ch === "," && !inQuotes) {
-        out.push(cur.trim());
-        cur = "";
-        continue;
-      }
-      cur += ch;
-    }
-    out.push(cur.trim());
-    return out;
-  };
-
-  const header = parseLine(lines[0]);
-  const rows = lines.slice(1).map(parseLine);
-  return { header, rows };
+function parseCapacityCSV(text: string) {
+  const { rows } = parseCsv(text);
+  if (!rows.length) return { header: [] as string[], rows: [] as string[][] };
+  return { header: rows[0].cells, rows: rows.slice(1).map((r) => r.cells) };
 }
 
 function Card({
@@ -964,32 +931,17 @@ export default function RatedCapacity() {
   // ----------------------------
   // Rated Capacity (top card)
   // ----------------------------
-  const INSTALLED_KEY = "ratedCapacity_installed";
-  const PLF_KEY = "ratedCapacity_plf";
+  const zeroBySource = () => Object.fromEntries(SOURCES.map((s) => [s, 0])) as Record<SourceKey, number>;
 
-  const [installed, setInstalled] = useState<Record<SourceKey, number>>(() => {
-    const base = Object.fromEntries(SOURCES.map((s) => [s, 0])) as Record<SourceKey, number>;
-    try {
-      const raw = localStorage.getItem(INSTALLED_KEY);
-      if (raw) {
-        const obj = JSON.parse(raw);
-        for (const s of SOURCES) base[s] = safeNum(obj?.[s]);
-      }
-    } catch {}
-    return base;
-  });
+  const [installed, setInstalled, installedStore] = usePersistentState(
+    storageKeys.ratedCapacityInstalled as StorageKey<Record<SourceKey, number>>,
+    zeroBySource
+  );
 
-  const [plf, setPlf] = useState<Record<SourceKey, number>>(() => {
-    const base = Object.fromEntries(SOURCES.map((s) => [s, 0])) as Record<SourceKey, number>;
-    try {
-      const raw = localStorage.getItem(PLF_KEY);
-      if (raw) {
-        const obj = JSON.parse(raw);
-        for (const s of SOURCES) base[s] = safeNum(obj?.[s]);
-      }
-    } catch {}
-    return base;
-  });
+  const [plf, setPlf] = usePersistentState(
+    storageKeys.ratedCapacityPLF as StorageKey<Record<SourceKey, number>>,
+    zeroBySource
+  );
 
   const [capacityCsvMissing, setCapacityCsvMissing] = useState(false);
   const [capacityCsvMsg, setCapacityCsvMsg] = useState<string | null>(null);
@@ -1005,7 +957,7 @@ export default function RatedCapacity() {
           "/data/Capacity.csv", // fallback if repo ever has it
         ]);
 
-        const { header, rows } = parseCSVSimple(text);
+        const { header, rows } = parseCapacityCSV(text);
         if (!header.length || !rows.length) throw new Error("Empty CSV");
 
         const normHeaders = header.map(normalizeHeader);
@@ -1060,7 +1012,9 @@ export default function RatedCapacity() {
       }
     }
 
-    // Preserve existing behavior: if user already has non-zero local values, don't override
+    // Preserve existing behavior: if user already has non-zero saved values, don't override
+    // (wait for storage to hydrate before deciding)
+    if (!installedStore.loaded) return;
     const hasNonZeroLocal = Object.values(installed).some((v) => Number(v) !== 0);
     if (!hasNonZeroLocal) loadInstalledFromLatestRow();
 
@@ -1068,19 +1022,7 @@ export default function RatedCapacity() {
       cancelled = true;
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
-
-  useEffect(() => {
-    try {
-      localStorage.setItem(INSTALLED_KEY, JSON.stringify(installed));
-    } catch {}
-  }, [installed]);
-
-  useEffect(() => {
-    try {
-      localStorage.setItem(PLF_KEY, JSON.stringify(plf));
-    } catch {}
-  }, [plf]);
+  }, [installedStore.loaded]);
 
   const installedTotal = useMemo(() => {
     return sumSources(installed as unknown as Record<string, number>, SOURCES);
@@ -1139,7 +1081,7 @@ export default function RatedCapacity() {
           "/data/Capacity.csv",
         ]);
 
-        const { header, rows } = parseCSVSimple(text);
+        const { header, rows } = parseCapacityCSV(text);
         if (!header.length || !rows.length) throw new Error("Empty CSV");
 
         const normHeaders = header.map(normalizeHeader);
@@ -1273,30 +1215,15 @@ export default function RatedCapacity() {
 
   /* =========================================================
      ✅ ONLY REQUESTED ADDITION (INSIDE Historical Capacity card)
-     - PLF % row (editable) persisted in localStorage
+     - PLF % row (editable) persisted via ./storage
      - Rated Net Additions (GW) row computed from Net Addition × (PLF/100)
-     - LocalStorage key: ratedCapacity_history_plf
+     - Storage key: settings/ratedCapacity_history_plf
   ========================================================= */
 
-  const HISTORY_PLF_KEY = "ratedCapacity_history_plf";
-
-  const [historyPLF, setHistoryPLF] = useState<Record<SourceKey, number>>(() => {
-    const base = Object.fromEntries(SOURCES.map((s) => [s, 0])) as Record<SourceKey, number>;
-    try {
-      const raw = localStorage.getItem(HISTORY_PLF_KEY);
-      if (raw) {
-        const obj = JSON.parse(raw);
-        for (const s of SOURCES) base[s] = safeNum(obj?.[s]);
-      }
-    } catch {}
-    return base;
-  });
-
-  useEffect(() => {
-    try {
-      localStorage.setItem(HISTORY_PLF_KEY, JSON.stringify(historyPLF));
-    } catch {}
-  }, [historyPLF]);
+  const [historyPLF, setHistoryPLF] = usePersistentState(
+    storageKeys.ratedCapacityHistoryPLF as StorageKey<Record<SourceKey, number>>,
+    zeroBySource
+  );
 
   const ratedNetAdditions = useMemo(() => {
     const out: Record<SourceKey, number> = {} as any;
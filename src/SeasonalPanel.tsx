@@ -0,0 +1,151 @@
+import React, { useMemo, useState } from "react";
+import { Area, CartesianGrid, ComposedChart, Legend, Line, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import type { FilledSeries, GapPolicy } from "./gaps";
+import { fyAxisIndex, fyName, seasonalOverlay, seasonalStanding } from "./seasonal";
+
+/**
+ * Seasonal view: each FY as its own line on an Apr → Mar axis
+ * - Current FY drawn bold; earlier FYs thin
+ * - Shaded min–max band + dashed median from the previous N FYs
+ * - Readout: where the latest value sits against that band
+ * Values are in the display unit (the dashboard's filled series).
+ */
+
+const SMOOTHING = [
+  { days: 1, label: "Daily" },
+  { days: 7, label: "7-day avg" },
+  { days: 30, label: "30-day avg" },
+];
+const BAND_YEARS = [3, 5, 10];
+const PAST_COLORS = ["#94a3b8", "#60a5fa", "#a78bfa", "#34d399", "#fbbf24", "#f472b6", "#22d3ee", "#a3e635", "#fb923c", "#c084fc"];
+
+function formatDDMMYYYY(iso: string) {
+  if (!iso || !/^\d{4}-\d{2}-\d{2}$/.test(iso)) return "—";
+  const [y, m, d] = iso.split("-");
+  return `${d}-${m}-${y}`;
+}
+
+export default function SeasonalPanel({
+  series,
+  policy,
+  unitLabel,
+  fmtValue,
+}: {
+  series: FilledSeries;
+  policy: GapPolicy;
+  unitLabel: string;
+  fmtValue: (x: number | null | undefined) => string;
+}) {
+  const [smoothing, setSmoothing] = useState(7);
+  const [bandYears, setBandYears] = useState(5);
+
+  const overlay = useMemo(
+    () => seasonalOverlay(series, { smoothing, bandYears, policy }),
+    [series, smoothing, bandYears, policy]
+  );
+
+  const latest = series.points[series.points.length - 1] ?? null;
+  const standing = useMemo(() => {
+    if (!latest || overlay.current == null) return null;
+    const i = fyAxisIndex(latest.date);
+    const v = i == null ? null : overlay.rows[i][fyName(overlay.current)];
+    return typeof v === "number" ? { value: v, rank: seasonalStanding(overlay, latest.date, v) } : null;
+  }, [overlay, latest]);
+
+  if (!overlay.rows.length || overlay.current == null) {
+    return <div className="text-sm text-slate-600">Add data to compare financial years.</div>;
+  }
+
+  const currentKey = fyName(overlay.current);
+  const pill = (active: boolean) =>
+    active
+      ? "rounded-lg bg-slate-900 px-2 py-1 text-[12px] font-semibold text-white"
+      : "rounded-lg bg-white px-2 py-1 text-[12px] font-semibold text-slate-700 ring-1 ring-slate-200 hover:bg-slate-50";
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        {SMOOTHING.map((s) => (
+          <button key={s.days} type="button" onClick={() => setSmoothing(s.days)} className={pill(smoothing === s.days)}>
+            {s.label}
+          </button>
+        ))}
+        <span className="mx-1 h-4 w-px bg-slate-200" />
+        <span className="text-xs text-slate-500">Band from the previous</span>
+        {BAND_YEARS.map((n) => (
+          <button key={n} type="button" onClick={() => setBandYears(n)} className={pill(bandYears === n)}>
+            {n} FYs
+          </button>
+        ))}
+      </div>
+
+      {standing && latest ? (
+        <div className="text-sm text-slate-700">
+          {formatDDMMYYYY(latest.date)}: <span className="font-semibold tabular-nums">{fmtValue(standing.value)}</span>
+          {standing.rank ? (
+            <>
+              {" — "}
+              <span className={standing.rank.position === "within" ? "font-semibold text-slate-700" : "font-semibold text-amber-700"}>
+                {standing.rank.position} the {standing.rank.of}-year range
+              </span>
+              {`; higher than ${standing.rank.lower} of ${standing.rank.of} previous FYs (median ${fmtValue(standing.rank.median)})`}
+            </>
+          ) : (
+            " — no earlier FYs to compare with yet"
+          )}
+        </div>
+      ) : null}
+
+      <div className="h-[360px]">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={overlay.rows} margin={{ top: 10, right: 18, bottom: 10, left: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="label" tick={{ fontSize: 11 }} interval={29} />
+            <YAxis tick={{ fontSize: 11 }} width={56} domain={["auto", "auto"]} />
+            <Tooltip
+              formatter={(v: any, name: any) => {
+                if (Array.isArray(v)) return [`${fmtValue(v[0])} – ${fmtValue(v[1])}`, name];
+                return [typeof v === "number" ? fmtValue(v) : "—", name];
+              }}
+            />
+            <Legend />
+            {overlay.bandYears.length ? (
+              <Area
+                type="monotone"
+                dataKey="band"
+                name={`Min–max (${overlay.bandYears.length} FYs)`}
+                stroke="none"
+                fill="#cbd5e1"
+                fillOpacity={0.5}
+                connectNulls
+                isAnimationActive={false}
+              />
+            ) : null}
+            {overlay.bandYears.length ? (
+              <Line type="monotone" dataKey="median" name="Median" dot={false} strokeWidth={1.5} stroke="#475569" strokeDasharray="5 4" connectNulls />
+            ) : null}
+            {overlay.bandYears.map((y, k) => (
+              <Line
+                key={y}
+                type="monotone"
+                dataKey={fyName(y)}
+                name={fyName(y)}
+                dot={false}
+                strokeWidth={1}
+                stroke={PAST_COLORS[(overlay.bandYears.length - 1 - k) % PAST_COLORS.length]}
+                strokeOpacity={0.8}
+                connectNulls={false}
+                isAnimationActive={false}
+              />
+            ))}
+            <Line type="monotone" dataKey={currentKey} name={`${currentKey} (current)`} dot={false} strokeWidth={2.5} stroke="#dc2626" connectNulls={false} />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+      <div className="text-xs text-slate-500">
+        {unitLabel} · {SMOOTHING.find((s) => s.days === smoothing)?.label.toLowerCase()} · 29 Feb is left out so every FY has
+        the same 365 positions.
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+import React, { useEffect, useState } from "react";
+import { onStorageError } from "./storage";
+
+/**
+ * App-wide banner for storage failures (quota, unavailable IndexedDB, schema).
+ * Individual tabs also show their own save errors; this one makes sure a
+ * failed write is never silent, whichever tab triggered it.
+ */
+export default function StorageErrorBanner() {
+  const [messages, setMessages] = useState<string[]>([]);
+
+  useEffect(
+    () =>
+      onStorageError((e) => {
+        setMessages((prev) => (prev.includes(e.message) ? prev : [...prev, e.message].slice(-3)));
+      }),
+    []
+  );
+
+  if (!messages.length) return null;
+
+  return (
+    <div className="mt-2 flex items-start justify-between gap-3 rounded-xl bg-rose-50 p-3 text-sm text-rose-800 ring-1 ring-rose-200">
+      <div>
+        <div className="font-semibold">Storage problem</div>
+        <ul className="mt-1 list-disc pl-5">
+          {messages.map((m) => (
+            <li key={m}>{m}</li>
+          ))}
+        </ul>
+      </div>
+      <button
+        onClick={() => setMessages([])}
+        className="rounded-lg px-2 py-1 text-xs font-semibold text-rose-700 hover:bg-rose-100"
+      >
+        Dismiss
+      </button>
+    </div>
+  );
+}
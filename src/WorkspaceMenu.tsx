@@ -0,0 +1,237 @@
+import React, { useRef, useState } from "react";
+import {
+  buildWorkspaceBundle,
+  parseWorkspaceBundle,
+  previewWorkspaceRestore,
+  restoreWorkspace,
+  workspaceFileName,
+} from "./workspace";
+import type { WorkspaceBundle, WorkspaceChange, WorkspacePreview } from "./workspace";
+
+/**
+ * Workspace backup / restore (all tabs at once)
+ * - Export writes every stored series, audit log, view preference and the
+ *   Rated Capacity inputs to one JSON file
+ * - Import validates the file and lists what it will add / replace / remove
+ *   before anything is written; the page reloads after a restore so every tab
+ *   starts from the restored state
+ */
+
+function downloadJSON(filename: string, data: unknown) {
+  const blob = new Blob([JSON.stringify(data)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  URL.revokeObjectURL(url);
+}
+
+const KIND_STYLES: Record<WorkspaceChange["kind"], { label: string; cls: string }> = {
+  add: { label: "Add", cls: "bg-emerald-50 text-emerald-800 ring-emerald-200" },
+  replace: { label: "Replace", cls: "bg-amber-50 text-amber-800 ring-amber-200" },
+  remove: { label: "Remove", cls: "bg-rose-50 text-rose-800 ring-rose-200" },
+};
+
+function RestoreDialog({
+  preview,
+  replaceAll,
+  onReplaceAllChange,
+  busy,
+  onApply,
+  onCancel,
+}: {
+  preview: WorkspacePreview;
+  replaceAll: boolean;
+  onReplaceAllChange: (v: boolean) => void;
+  busy: boolean;
+  onApply: () => void;
+  onCancel: () => void;
+}) {
+  const exportedAt = preview.bundle.exportedAt ? new Date(preview.bundle.exportedAt) : null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/40 p-4">
+      <div className="flex max-h-[90vh] w-full max-w-3xl flex-col rounded-2xl bg-white shadow-xl ring-1 ring-slate-200">
+        <div className="border-b border-slate-100 p-4">
+          <div className="text-sm font-semibold text-slate-800">Restore workspace</div>
+          <div className="mt-1 text-xs text-slate-500">
+            Bundle v{preview.bundle.version}
+            {exportedAt && !Number.isNaN(exportedAt.getTime()) ? ` · exported ${exportedAt.toLocaleString("en-IN")}` : ""}
+            {` · ${preview.bundle.records.length} records`}
+          </div>
+        </div>
+
+        <div className="flex-1 space-y-4 overflow-auto p-4">
+          <label className="flex items-center gap-2 text-sm text-slate-700">
+            <input
+              type="checkbox"
+              checked={replaceAll}
+              onChange={(e) => onReplaceAllChange(e.target.checked)}
+              className="h-4 w-4 rounded border-slate-300"
+            />
+            Also remove stored data that is not in the bundle
+          </label>
+
+          <div className="max-h-[340px] overflow-auto rounded-xl ring-1 ring-slate-200">
+            <table className="w-full border-collapse bg-white text-left text-sm">
+              <thead className="sticky top-0 bg-slate-50">
+                <tr>
+                  <th className="px-3 py-2 text-xs font-semibold text-slate-600"></th>
+                  <th className="px-3 py-2 text-xs font-semibold text-slate-600">Item</th>
+                  <th className="px-3 py-2 text-xs font-semibold text-slate-600">Now</th>
+                  <th className="px-3 py-2 text-xs font-semibold text-slate-600">After restore</th>
+                </tr>
+              </thead>
+              <tbody>
+                {preview.changes.map((c) => (
+                  <tr key={`${c.store}/${c.key}`} className="border-t border-slate-100">
+                    <td className="px-3 py-1.5">
+                      <span className={`rounded-lg px-2 py-0.5 text-[11px] font-semibold ring-1 ${KIND_STYLES[c.kind].cls}`}>
+                        {KIND_STYLES[c.kind].label}
+                      </span>
+                    </td>
+                    <td className="px-3 py-1.5 font-medium text-slate-900">{c.label}</td>
+                    <td className="px-3 py-1.5 text-slate-500">{c.current}</td>
+                    <td className="px-3 py-1.5 text-slate-900">{c.incoming}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {preview.skipped.length ? (
+            <div className="rounded-xl bg-amber-50 p-3 text-sm text-amber-900 ring-1 ring-amber-200">
+              <div className="font-semibold">Skipped ({preview.skipped.length})</div>
+              <ul className="mt-1 max-h-28 list-disc overflow-auto pl-5 text-xs">
+                {preview.skipped.map((s) => (
+                  <li key={s}>{s}</li>
+                ))}
+              </ul>
+            </div>
+          ) : null}
+        </div>
+
+        <div className="flex items-center justify-between gap-3 border-t border-slate-100 p-4">
+          <div className="text-sm text-slate-600">The page reloads after restoring.</div>
+          <div className="flex gap-2">
+            <button
+              onClick={onCancel}
+              disabled={busy}
+              className="rounded-xl bg-white px-3 py-2 text-sm font-semibold text-slate-700 ring-1 ring-slate-200 hover:bg-slate-50 disabled:opacity-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={onApply}
+              disabled={busy}
+              className="rounded-xl bg-slate-900 px-3 py-2 text-sm font-semibold text-white hover:bg-slate-800 disabled:opacity-50"
+            >
+              Restore workspace
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default function WorkspaceMenu() {
+  const fileRef = useRef<HTMLInputElement | null>(null);
+  const [pending, setPending] = useState<{ bundle: WorkspaceBundle; skipped: string[] } | null>(null);
+  const [preview, setPreview] = useState<WorkspacePreview | null>(null);
+  const [replaceAll, setReplaceAll] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function exportWorkspace() {
+    setError(null);
+    try {
+      downloadJSON(workspaceFileName(), await buildWorkspaceBundle());
+    } catch (e) {
+      setError(`Could not export workspace (${(e as Error)?.message || "unknown error"}).`);
+    }
+  }
+
+  async function showPreview(p: { bundle: WorkspaceBundle; skipped: string[] }, all: boolean) {
+    setPreview(await previewWorkspaceRestore(p.bundle, p.skipped, all));
+  }
+
+  async function importWorkspace(file?: File) {
+    setError(null);
+    if (!file) return;
+    try {
+      const parsed = parseWorkspaceBundle(await file.text());
+      setPending(parsed);
+      setReplaceAll(false);
+      await showPreview(parsed, false);
+    } catch (e) {
+      setError((e as Error)?.message || "Could not read workspace file.");
+    } finally {
+      if (fileRef.current) fileRef.current.value = "";
+    }
+  }
+
+  async function apply() {
+    if (!preview) return;
+    setBusy(true);
+    try {
+      await restoreWorkspace(preview);
+      window.location.reload();
+    } catch (e) {
+      setError((e as Error)?.message || "Could not restore workspace.");
+      setBusy(false);
+    }
+  }
+
+  function cancel() {
+    setPending(null);
+    setPreview(null);
+  }
+
+  return (
+    <div className="mt-2">
+      <div className="flex flex-wrap items-center justify-end gap-2">
+        <button
+          onClick={exportWorkspace}
+          className="rounded-xl bg-white px-3 py-1.5 text-xs font-semibold text-slate-700 ring-1 ring-slate-200 hover:bg-slate-50"
+        >
+          Export workspace
+        </button>
+        <button
+          onClick={() => fileRef.current?.click()}
+          className="rounded-xl bg-white px-3 py-1.5 text-xs font-semibold text-slate-700 ring-1 ring-slate-200 hover:bg-slate-50"
+        >
+          Import workspace
+        </button>
+        <input
+          ref={fileRef}
+          type="file"
+          accept=".json,application/json"
+          onChange={(e) => importWorkspace(e.target.files?.[0])}
+          className="hidden"
+        />
+      </div>
+
+      {error ? (
+        <div className="mt-2 rounded-xl bg-rose-50 p-3 text-sm text-rose-800 ring-1 ring-rose-200">{error}</div>
+      ) : null}
+
+      {pending && preview ? (
+        <RestoreDialog
+          preview={preview}
+          replaceAll={replaceAll}
+          onReplaceAllChange={(v) => {
+            setReplaceAll(v);
+            showPreview(pending, v).catch((e: Error) => setError(e.message));
+          }}
+          busy={busy}
+          onApply={apply}
+          onCancel={cancel}
+        />
+      ) : null}
+    </div>
+  );
+}
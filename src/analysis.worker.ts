@@ -0,0 +1,15 @@
+import { runTask } from "./analysisTasks";
+import type { AnalysisTask } from "./analysisTasks";
+
+/* -----------------------------
+   Analysis worker: heavy chart / decomposition / forecast work off the UI thread
+----------------------------- */
+
+self.onmessage = (e: MessageEvent<{ id: number; task: AnalysisTask }>) => {
+  const { id, task } = e.data;
+  try {
+    self.postMessage({ id, result: runTask(task) });
+  } catch (err) {
+    self.postMessage({ id, error: err instanceof Error ? err.message : String(err) });
+  }
+};
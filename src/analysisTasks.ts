@@ -0,0 +1,60 @@
+import { computeChartSeries } from "./chartSeries";
+import type { ChartRequest, DailyChartPoint } from "./chartSeries";
+import { adjustedSeries, decompose } from "./decompose";
+import type { Decomposition } from "./decompose";
+import { forecastSeries } from "./forecast";
+import type { Forecast, ForecastModel } from "./forecast";
+import { backtest, vintagesFor } from "./forecastVintages";
+import type { AccuracyTable, ForecastVintage } from "./forecastVintages";
+import type { FilledSeries } from "./gaps";
+
+/* -----------------------------
+   Heavy analysis tasks (analysis.worker.ts)
+   - Each task is a pure function of structured-cloneable input, so
+     runTask() answers the same inline when there is no worker
+   - chart:     "View as" series (only heavy requests; see isHeavyChartRequest)
+   - decompose: trend / weekly / annual split + the adjusted series
+   - forecast:  one model's forecast
+   - vintages:  forecasts saved as vintages for the given models
+   - backtest:  rolling-origin backtest of every model
+----------------------------- */
+
+type History = Array<{ date: string; value: number }>;
+
+type TaskInputs = {
+  chart: { req: ChartRequest };
+  decompose: { series: FilledSeries };
+  forecast: { history: History; model: ForecastModel; horizon: number };
+  vintages: { history: History; models: ForecastModel[]; createdAt: number };
+  backtest: { history: History };
+};
+
+export type TaskResults = {
+  chart: DailyChartPoint[];
+  decompose: { decomposition: Decomposition; adjusted: FilledSeries };
+  forecast: Forecast | null;
+  vintages: ForecastVintage[];
+  backtest: { table: AccuracyTable; origins: number };
+};
+
+export type TaskKind = keyof TaskInputs;
+
+export type AnalysisTask<K extends TaskKind = TaskKind> = { [P in K]: { kind: P } & TaskInputs[P] }[K];
+
+export function runTask<K extends TaskKind>(task: AnalysisTask<K>): TaskResults[K] {
+  const t = task as AnalysisTask;
+  switch (t.kind) {
+    case "chart":
+      return computeChartSeries(t.req) as TaskResults[K];
+    case "decompose": {
+      const decomposition = decompose(t.series);
+      return { decomposition, adjusted: adjustedSeries(decomposition, t.series) } as TaskResults[K];
+    }
+    case "forecast":
+      return forecastSeries(t.history, t.model, t.horizon) as TaskResults[K];
+    case "vintages":
+      return vintagesFor(t.history, t.models, t.createdAt) as TaskResults[K];
+    case "backtest":
+      return backtest(t.history) as TaskResults[K];
+  }
+}
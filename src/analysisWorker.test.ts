@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { runInWorker } from "./analysisWorker";
+import { decompose } from "./decompose";
+import { forecastSeries } from "./forecast";
+import { fillGaps } from "./gaps";
+import { dayToIso, isoToDay } from "./dayIndex";
+
+const start = isoToDay("2024-04-01");
+const history = Array.from({ length: 120 }, (_, i) => ({ date: dayToIso(start + i), value: 100 + (i % 7) * 3 + i * 0.1 }));
+
+// no Worker under node: every task is answered inline by the same runTask()
+describe("runInWorker without a worker", () => {
+  it("decomposes like decompose()", async () => {
+    const series = fillGaps(history, "none");
+    const { decomposition, adjusted } = await runInWorker({ kind: "decompose", series });
+    expect(decomposition).toEqual(decompose(series));
+    expect(adjusted.points).toHaveLength(decomposition.rows.filter((r) => r.adjusted != null).length);
+  });
+
+  it("forecasts like forecastSeries()", async () => {
+    const f = await runInWorker({ kind: "forecast", history, model: "holtwinters", horizon: 14 });
+    expect(f).toEqual(forecastSeries(history, "holtwinters", 14));
+  });
+
+  it("makes one vintage per model", async () => {
+    const fresh = await runInWorker({ kind: "vintages", history, models: ["snaive", "regression"], createdAt: 1 });
+    expect(fresh.map((v) => [v.model, v.origin])).toEqual([
+      ["snaive", history[history.length - 1].date],
+      ["regression", history[history.length - 1].date],
+    ]);
+  });
+});
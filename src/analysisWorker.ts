@@ -0,0 +1,77 @@
+import { useEffect, useState } from "react";
+import { runTask } from "./analysisTasks";
+import type { AnalysisTask, TaskKind, TaskResults } from "./analysisTasks";
+
+/* -----------------------------
+   Analysis worker client
+   - One shared module worker (analysis.worker.ts) for every tab
+   - runInWorker() resolves with the task's result; no worker (or a worker
+     error) => the task is computed inline as before
+   - useAnalysis(): latest result of a memoized task; the previous result
+     stays on screen until the new one arrives and stale answers are dropped
+----------------------------- */
+
+type WorkerReply = { id: number; result?: unknown; error?: string };
+
+let worker: Worker | null = null;
+let workerBroken = false;
+let nextId = 1;
+const waiting = new Map<number, { resolve: (r: unknown) => void; reject: (e: Error) => void }>();
+
+function getWorker() {
+  if (workerBroken || typeof Worker === "undefined") return null;
+  if (worker) return worker;
+  try {
+    worker = new Worker(new URL("./analysis.worker.ts", import.meta.url), { type: "module" });
+  } catch {
+    workerBroken = true;
+    return null;
+  }
+  worker.onmessage = (e: MessageEvent<WorkerReply>) => {
+    const w = waiting.get(e.data.id);
+    if (!w) return;
+    waiting.delete(e.data.id);
+    if (e.data.error == null) w.resolve(e.data.result);
+    else w.reject(new Error(e.data.error));
+  };
+  worker.onerror = () => {
+    // e.g. the worker script failed to load: fall back to inline for good
+    workerBroken = true;
+    worker?.terminate();
+    worker = null;
+    for (const w of waiting.values()) w.reject(new Error("Analysis worker unavailable"));
+    waiting.clear();
+  };
+  return worker;
+}
+
+export function runInWorker<K extends TaskKind>(task: AnalysisTask<K>): Promise<TaskResults[K]> {
+  const w = getWorker();
+  if (!w) return Promise.resolve().then(() => runTask(task));
+  const id = nextId++;
+  return new Promise<unknown>((resolve, reject) => {
+    waiting.set(id, { resolve, reject });
+    w.postMessage({ id, task });
+  }).then(
+    (r) => r as TaskResults[K],
+    () => runTask(task)
+  );
+}
+
+export function useAnalysis<K extends TaskKind>(task: AnalysisTask<K> | null): { result: TaskResults[K] | null; pending: boolean } {
+  const [answer, setAnswer] = useState<{ task: AnalysisTask<K>; result: TaskResults[K] } | null>(null);
+
+  useEffect(() => {
+    if (!task) return;
+    let cancelled = false;
+    runInWorker(task).then((result) => {
+      if (!cancelled) setAnswer({ task, result });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [task]);
+
+  if (!task) return { result: null, pending: false };
+  return { result: answer?.result ?? null, pending: answer?.task !== task };
+}
@@ -0,0 +1,175 @@
+import { dayToIso, isoToDay, valueAtDay } from "./dayIndex";
+import { windowValueDays } from "./gaps";
+import type { FilledSeries, GapPolicy, WindowValue } from "./gaps";
+import { createRolling } from "./rolling";
+import type { RollingSpec } from "./rolling";
+import { priorYearDay, priorYearWindow, yoyWindows } from "./yoy";
+import type { YoyBasis } from "./yoy";
+
+/* -----------------------------
+   Main chart series ("View as": daily / rolling / monthly)
+   - Pure: the same function runs on the main thread for light requests and
+     in analysis.worker.ts for heavy ones (long ranges, median / max windows)
+   - Loops run over day numbers against the series' day index; no per-day
+     ISO string arithmetic except for the point labels
+----------------------------- */
+
+export type DailyChartPoint = {
+  label: string;
+  units: number | null; // null = not enough data in the window (drawn as a gap)
+  prev_year_units: number | null;
+  yoy_pct: number | null;
+  mom_pct: number | null; // weekly rolling: WoW%, monthly: MoM%
+  incomplete: boolean; // value rests on missing / interpolated days
+};
+
+export type ChartRequest = {
+  series: FilledSeries;
+  policy: GapPolicy;
+  /** inclusive, from <= to */
+  fromIso: string;
+  toIso: string;
+  view: "daily" | "monthly" | "rolling";
+  rolling: RollingSpec | null;
+  calcMode: "sum" | "avg";
+  basis: YoyBasis;
+};
+
+// rough cost (window-days touched) above which the chart is computed in the worker
+const HEAVY_REQUEST_COST = 250_000;
+
+function formatDDMMYYYY(iso: string) {
+  if (!iso || !/^\d{4}-\d{2}-\d{2}$/.test(iso)) return "—";
+  const [y, m, d] = iso.split("-");
+  return `${d}-${m}-${y}`;
+}
+
+function addMonths(ym: string, delta: number) {
+  const [y, m] = ym.split("-").map(Number);
+  const d = new Date(Date.UTC(y, m - 1 + delta, 1));
+  return `${d.getUTCFullYear()}-${String(d.getUTCMonth() + 1).padStart(2, "0")}`;
+}
+
+function growthPct(curr: number, prev: number) {
+  return prev === 0 ? null : ((curr - prev) / prev) * 100;
+}
+
+export function isHeavyChartRequest(req: ChartRequest) {
+  const days = isoToDay(req.toIso) - isoToDay(req.fromIso) + 1;
+  const perPoint = req.view === "rolling" && req.rolling && (req.rolling.stat === "median" || req.rolling.stat === "max") ? req.rolling.window : 1;
+  return days * perPoint > HEAVY_REQUEST_COST;
+}
+
+export function computeChartSeries(req: ChartRequest): DailyChartPoint[] {
+  const { series, policy, calcMode, basis } = req;
+  const { points, index, lookup } = series;
+  if (!points.length) return [];
+
+  const firstIso = points[0].date;
+  const lastIso = points[points.length - 1].date;
+  const fromDay = isoToDay(req.fromIso);
+  const toDay = isoToDay(req.toIso);
+
+  if (req.view === "daily") {
+    const sameDayPrevMonth = (iso: string) => {
+      const y = Number(iso.slice(0, 4));
+      const m = Number(iso.slice(5, 7));
+      const d = Number(iso.slice(8, 10));
+      const dt = new Date(Date.UTC(y, m - 2, d));
+      const iso2 = dt.toISOString().slice(0, 10);
+      return Number(iso2.slice(8, 10)) === d ? iso2 : null;
+    };
+
+    const out: DailyChartPoint[] = [];
+    const a = Math.max(fromDay, isoToDay(firstIso));
+    const b = Math.min(toDay, isoToDay(lastIso));
+    for (let day = a; day <= b; day++) {
+      const d = dayToIso(day);
+      const v = valueAtDay(index, day);
+      const pmDate = sameDayPrevMonth(d);
+      const pyDay = priorYearDay(day, basis);
+      const py = pyDay == null ? null : valueAtDay(index, pyDay);
+      const pm = pmDate ? lookup.get(pmDate) ?? null : null;
+      out.push({
+        label: formatDDMMYYYY(d),
+        units: v,
+        prev_year_units: py,
+        yoy_pct: v != null && py != null ? growthPct(v, py) : null,
+        mom_pct: v != null && pm != null ? growthPct(v, pm) : null,
+        incomplete: series.filled.has(d),
+      });
+    }
+    return out;
+  }
+
+  // rolling windows (any length / statistic); YoY vs the window ending on the prior-year day
+  // of the basis, period-over-period vs the window `window` days earlier
+  if (req.view === "rolling" && req.rolling) {
+    const spec = req.rolling;
+    const at = createRolling(series, spec, policy);
+    // leap basis: sum / avg windows drop 29 Feb on both sides of the YoY
+    const leapWindows = basis === "leap" && (spec.stat === "sum" || spec.stat === "avg") ? spec.stat : null;
+    const out: DailyChartPoint[] = [];
+    // ✅ every calendar day in range gets a point, so missing days break the line
+    for (let day = fromDay; day <= toDay; day++) {
+      const curr = at(day);
+      let prev = at(priorYearWindow(day, day, basis)[1]);
+      let yoyCurr = curr;
+      if (leapWindows) {
+        const w = yoyWindows(series, day - (spec.window - 1), day, leapWindows, policy, basis);
+        yoyCurr = w.curr;
+        prev = w.prev;
+      }
+      const prevP = at(day - spec.window);
+      out.push({
+        label: formatDDMMYYYY(dayToIso(day)),
+        units: curr.value,
+        prev_year_units: prev.value,
+        yoy_pct: yoyCurr.value != null && prev.value != null ? growthPct(yoyCurr.value, prev.value) : null,
+        mom_pct: curr.value != null && prevP.value != null ? growthPct(curr.value, prevP.value) : null,
+        incomplete: curr.value != null && (curr.incomplete || (prev.value != null && prev.incomplete)),
+      });
+    }
+    return out;
+  }
+
+  // monthly: months below the coverage threshold are gaps; sums are pro-rata when days are missing
+  const months = new Set(points.map((p) => p.date.slice(0, 7)));
+  const firstDay = isoToDay(firstIso);
+  const lastDay = isoToDay(lastIso);
+
+  // the first / last month only count the days the series covers
+  const monthSpan = (m: string): [number, number] => [
+    Math.max(isoToDay(`${m}-01`), firstDay),
+    Math.min(isoToDay(`${addMonths(m, 1)}-01`) - 1, lastDay),
+  ];
+  const monthWindow = (m: string): WindowValue | null => {
+    if (!months.has(m)) return null;
+    const [start, end] = monthSpan(m);
+    return windowValueDays(series, start, end, calcMode, policy);
+  };
+
+  const shown: string[] = [];
+  const endYM = req.toIso.slice(0, 7);
+  for (let cursor = req.fromIso.slice(0, 7); cursor <= endYM; cursor = addMonths(cursor, 1)) {
+    if (months.has(cursor)) shown.push(cursor);
+    if (shown.length > 600) break;
+  }
+
+  return shown.map((m) => {
+    const curr = monthWindow(m)!;
+    const prev = monthWindow(addMonths(m, -1));
+    // YoY: the same span under the basis (a part month compares with the same part last year)
+    const yoy = yoyWindows(series, ...monthSpan(m), calcMode, policy, basis);
+    const py = yoy.prev;
+
+    return {
+      label: m,
+      units: curr.value,
+      prev_year_units: py.value,
+      yoy_pct: yoy.curr.value != null && py.value != null ? growthPct(yoy.curr.value, py.value) : null,
+      mom_pct: curr.value != null && prev?.value != null ? growthPct(curr.value, prev.value) : null,
+      incomplete: curr.value != null && curr.incomplete,
+    };
+  });
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import { detectDelimiter, formatCsvDiagnostic, numberText, parseCsv } from "./csv";
+
+describe("parseCsv", () => {
+  it("reads quoted fields, escaped quotes and embedded newlines", () => {
+    const res = parseCsv('date,note,value\r\n01/04/2024,"a, ""b""\r\nc",5\r\n02/04/2024, x ,6');
+    expect(res.delimiter).toBe(",");
+    expect(res.diagnostics).toEqual([]);
+    expect(res.rows.map((r) => r.cells)).toEqual([
+      ["date", "note", "value"],
+      ["01/04/2024", 'a, "b"\nc', "5"],
+      ["02/04/2024", "x", "6"],
+    ]);
+  });
+
+  it("keeps the line each record starts on and skips empty rows", () => {
+    const res = parseCsv('a,b\n1,"two\nlines"\n\n,\n3,4\n');
+    expect(res.rows.map((r) => [r.line, r.cells[0]])).toEqual([
+      [1, "a"],
+      [2, "1"],
+      [6, "3"],
+    ]);
+    expect(parseCsv("a,b\n\n3,4", { skipEmptyRows: false }).rows.map((r) => r.line)).toEqual([1, 2, 3]);
+  });
+
+  it("strips a leading BOM", () => {
+    const res = parseCsv("\uFEFFDate;Total\n01/04/2024;1,5\n");
+    expect(res.delimiter).toBe(";");
+    expect(res.rows[0].cells).toEqual(["Date", "Total"]);
+  });
+
+  it("keeps whitespace in quoted cells and, with trim off, in every cell", () => {
+    expect(parseCsv('" a ", b ').rows[0].cells).toEqual([" a ", "b"]);
+    expect(parseCsv('" a ", b ', { trim: false }).rows[0].cells).toEqual([" a ", " b "]);
+  });
+
+  it("honours a forced delimiter", () => {
+    expect(parseCsv("a;b,c", { delimiter: "," }).rows[0].cells).toEqual(["a;b", "c"]);
+  });
+
+  it("reports unterminated quotes, stray quotes and text after a closing quote", () => {
+    expect(parseCsv('a,b\n1,"open\n2,3\n').diagnostics).toEqual([
+      { line: 2, severity: "error", message: "Unterminated quoted field (reached end of file)" },
+    ]);
+
+    const stray = parseCsv('a,b"c\n');
+    expect(stray.rows[0].cells).toEqual(["a", 'b"c']);
+    expect(stray.diagnostics.map(formatCsvDiagnostic)).toEqual(["Line 1: Stray quote inside an unquoted field"]);
+
+    const after = parseCsv('x\na,"b" c,d');
+    expect(after.rows[1].cells).toEqual(["a", "bc", "d"]);
+    expect(after.diagnostics).toEqual([{ line: 2, severity: "warning", message: "Unexpected text after closing quote" }]);
+  });
+});
+
+describe("detectDelimiter", () => {
+  it("picks the most frequent delimiter outside quotes", () => {
+    expect(detectDelimiter("a;b;c\n1;2,5;3\n")).toBe(";");
+    expect(detectDelimiter("a\tb\tc\n1\t2\t3\n")).toBe("\t");
+    expect(detectDelimiter('"a;b;c;d",x\n"1;2;3",y\n')).toBe(",");
+    expect(detectDelimiter("single column\n")).toBe(",");
+  });
+
+  it("only samples the first few records", () => {
+    expect(detectDelimiter("a,b\n1,2\n3;4;5;6;7;8\n", 2)).toBe(",");
+  });
+});
+
+describe("numberText", () => {
+  it("drops thousands commas in comma-delimited files", () => {
+    expect(numberText(" 1,234.5 ", ",")).toBe("1234.5");
+    expect(numberText("1,5", ",")).toBe("15");
+  });
+
+  it("reads a lone comma as the decimal point in ; and tab files", () => {
+    expect(numberText("1,5", ";")).toBe("1.5");
+    expect(numberText("1.234,5", ";")).toBe("1234.5");
+    expect(numberText("-0,25", "\t")).toBe("-0.25");
+  });
+
+  it("still reads grouping commas in ; files", () => {
+    expect(numberText("1,234.5", ";")).toBe("1234.5");
+    expect(numberText("1,234,567", ";")).toBe("1234567");
+    expect(numberText("42", ";")).toBe("42");
+  });
+});
@@ -0,0 +1,187 @@
+/* -----------------------------
+   Shared CSV reader (RFC 4180)
+   - Quoted fields, "" escapes, delimiters/newlines inside quotes
+   - Strips a leading BOM (U+FEFF) — our exported files carry one
+   - Detects "," / ";" / tab when no delimiter is given
+   - numberText(): number cells by delimiter ("1,5" is 1.5 in a ";" file)
+   - Every row keeps the physical line it started on, so callers
+     can report "Line N: ..." against the file the user opened
+----------------------------- */
+
+export type CsvDelimiter = "," | ";" | "\t";
+
+export type CsvRow = {
+  /** 1-based line number where the record starts */
+  line: number;
+  cells: string[];
+};
+
+export type CsvDiagnostic = {
+  line: number;
+  severity: "error" | "warning";
+  message: string;
+};
+
+export type CsvParseResult = {
+  delimiter: CsvDelimiter;
+  rows: CsvRow[];
+  diagnostics: CsvDiagnostic[];
+};
+
+export type CsvParseOptions = {
+  /** Force a delimiter instead of detecting it */
+  delimiter?: CsvDelimiter;
+  /** Trim whitespace around unquoted cells (default true) */
+  trim?: boolean;
+  /** Drop records whose cells are all empty (default true) */
+  skipEmptyRows?: boolean;
+};
+
+const DELIMITERS: CsvDelimiter[] = [",", ";", "\t"];
+
+export function stripBOM(text: string) {
+  return text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+}
+
+/** Picks the delimiter that occurs most often (outside quotes) in the first few records. */
+export function detectDelimiter(text: string, sampleLines = 5): CsvDelimiter {
+  const counts: Record<CsvDelimiter, number> = { ",": 0, ";": 0, "\t": 0 };
+  let inQuotes = false;
+  let lines = 0;
+
+  for (let i = 0; i < text.length && lines < sampleLines; i++) {
+    const ch = text[i];
+    if (ch === '"') {
+      inQuotes = !inQuotes;
+      continue;
+    }
+    if (inQuotes) continue;
+    if (ch === "\n") {
+      lines++;
+      continue;
+    }
+    if (ch === "," || ch === ";" || ch === "\t") counts[ch]++;
+  }
+
+  let best: CsvDelimiter = ",";
+  for (const d of DELIMITERS) if (counts[d] > counts[best]) best = d;
+  return best;
+}
+
+export function parseCsv(input: string, options: CsvParseOptions = {}): CsvParseResult {
+  const text = stripBOM(input ?? "");
+  const delimiter = options.delimiter ?? detectDelimiter(text);
+  const trim = options.trim ?? true;
+  const skipEmptyRows = options.skipEmptyRows ?? true;
+
+  const rows: CsvRow[] = [];
+  const diagnostics: CsvDiagnostic[] = [];
+
+  let cells: string[] = [];
+  let cell = "";
+  let cellQuoted = false;
+  let inQuotes = false;
+  let afterQuote = false; // closing quote seen, waiting for delimiter / EOL
+
+  let line = 1;
+  let rowLine = 1;
+  let quoteLine = 1;
+
+  const endCell = () => {
+    cells.push(cellQuoted || !trim ? cell : cell.trim());
+    cell = "";
+    cellQuoted = false;
+    afterQuote = false;
+  };
+
+  const endRow = () => {
+    endCell();
+    const empty = cells.every((c) => c === "");
+    if (!(skipEmptyRows && empty)) rows.push({ line: rowLine, cells });
+    cells = [];
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+
+    if (inQuotes) {
+      if (ch === '"') {
+        if (text[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else {
+          inQuotes = false;
+          afterQuote = true;
+        }
+        continue;
+      }
+      if (ch === "\n") line++;
+      if (ch === "\r" && text[i + 1] === "\n") {
+        // keep embedded CRLF as a plain newline
+        continue;
+      }
+      cell += ch;
+      continue;
+    }
+
+    if (ch === delimiter) {
+      endCell();
+      continue;
+    }
+
+    if (ch === "\r" || ch === "\n") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      endRow();
+      line++;
+      rowLine = line;
+      continue;
+    }
+
+    if (ch === '"') {
+      if (!cellQuoted && !afterQuote && cell.trim() === "") {
+        cell = "";
+        cellQuoted = true;
+        inQuotes = true;
+        quoteLine = line;
+        continue;
+      }
+      diagnostics.push({ line, severity: "warning", message: "Stray quote inside an unquoted field" });
+      cell += ch;
+      continue;
+    }
+
+    if (afterQuote) {
+      if (ch === " " || ch === "\t") continue;
+      diagnostics.push({ line, severity: "warning", message: "Unexpected text after closing quote" });
+      afterQuote = false;
+    }
+    cell += ch;
+  }
+
+  if (inQuotes) {
+    diagnostics.push({ line: quoteLine, severity: "error", message: "Unterminated quoted field (reached end of file)" });
+  }
+
+  // last record (no trailing newline)
+  if (cell !== "" || cells.length || cellQuoted) endRow();
+
+  return { delimiter, rows, diagnostics };
+}
+
+/**
+ * Number cell -> text Number() understands.
+ * With "," as the delimiter a comma can only group thousands ("1,234.5").
+ * In ";" / tab files a lone comma is the decimal point ("1,5", "1.234,5");
+ * a comma before a dot, or several commas without one, still groups thousands.
+ */
+export function numberText(cell: string, delimiter: CsvDelimiter) {
+  const t = (cell ?? "").trim();
+  if (delimiter === ",") return t.replace(/,/g, "");
+  const comma = t.lastIndexOf(",");
+  if (comma < 0 || comma < t.lastIndexOf(".") || t.indexOf(",") !== comma) return t.replace(/,/g, "");
+  return t.replace(/\./g, "").replace(",", ".");
+}
+
+export function formatCsvDiagnostic(d: CsvDiagnostic) {
+  return `Line ${d.line}: ${d.message}`;
+}
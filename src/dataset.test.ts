@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { numberText } from "./csv";
+import { csvParse, datasetColumn, parseDataset } from "./dataset";
+
+describe("numberText", () => {
+  it("strips thousands separators in comma-delimited files", () => {
+    expect(numberText("1,234.5", ",")).toBe("1234.5");
+    expect(numberText(" 12,345 ", ",")).toBe("12345");
+  });
+
+  it("reads a lone comma as the decimal point otherwise", () => {
+    expect(numberText("1,5", ";")).toBe("1.5");
+    expect(numberText("1.234,5", ";")).toBe("1234.5");
+    expect(numberText("1,5", "\t")).toBe("1.5");
+  });
+
+  it("keeps grouping commas before a dot or repeated without one", () => {
+    expect(numberText("1,234.5", ";")).toBe("1234.5");
+    expect(numberText("1,234,567", "\t")).toBe("1234567");
+  });
+});
+
+describe("parseDataset", () => {
+  it("reads decimal commas in semicolon files", () => {
+    const ds = parseDataset("Date;Total;Coal\n01/04/2024;1,5;1.234,25\n02/04/2024;2;3\n");
+    expect(ds.columns.map((c) => c.key)).toEqual(["total", "coal"]);
+    expect(datasetColumn(ds, "total")?.values.get("2024-04-01")).toBe(1.5);
+    expect(datasetColumn(ds, "coal")?.values.get("2024-04-01")).toBe(1234.25);
+  });
+
+  it("reads quoted thousands in comma files", () => {
+    const ds = parseDataset('Date,Total\n01/04/2024,"4,512.6"\n');
+    expect(datasetColumn(ds, "total")?.values.get("2024-04-01")).toBe(4512.6);
+  });
+
+  it("reports line-accurate errors and duplicates", () => {
+    const { parsed, errors, duplicates } = csvParse("Date,Total\n01/04/2024,1\nnot a date,2\n02/04/2024,x\n01/04/2024,3\n", "total");
+    expect(parsed).toEqual([{ date: "2024-04-01", value: 3 }]);
+    expect(errors).toEqual(["Line 3: invalid date 'not a date' (expected DD/MM/YYYY)", "Line 4: invalid value 'x'"]);
+    expect(duplicates).toEqual([{ date: "2024-04-01", lines: [2, 5] }]);
+  });
+});
@@ -0,0 +1,233 @@
+import { formatCsvDiagnostic, numberText, parseCsv } from "./csv";
+import { describeDateFormat, inferDateFormat, parseDateAs } from "./dates";
+import type { DateConvention, DateInference } from "./dates";
+
+/* -----------------------------
+   Multi-column datasets
+   - A wide CSV (date + N value columns) is parsed ONCE into a Dataset
+     that exposes every column as its own date -> value series
+   - Accepts:
+     1) legacy: date,<value> with any 2nd column name (or no header)
+     2) wide: date,total,coal,renewable (and more columns)
+   - loadDataset() keeps an in-memory cache shared by every tab that
+     points at the same file; it is replaced only when the file content
+     actually changes (revalidated with a content hash)
+----------------------------- */
+
+export type DatasetColumn = {
+  /** normalized header (see normalizeKey); "colN" when the file has no header */
+  key: string;
+  /** header as written in the file */
+  label: string;
+  values: Map<string, number>;
+  errors: string[];
+};
+
+export type Dataset = {
+  path: string | null;
+  columns: DatasetColumn[];
+  /** rows rejected for every column (bad date, CSV syntax) */
+  rowErrors: string[];
+  rowCount: number;
+  /** content hash; equal versions => identical file */
+  version: string;
+  /** date convention detected across the whole date column */
+  dateInference: DateInference | null;
+  /** convention actually used (forced by caller or inferred) */
+  dateConvention: DateConvention;
+  /** dates that appear on more than one row (the last row wins) */
+  duplicates: Array<{ date: string; lines: number[] }>;
+};
+
+export type ParseDatasetOptions = {
+  /** Skip inference and read dates with this convention (user-confirmed imports) */
+  dateConvention?: DateConvention;
+};
+
+type LineError = { line: number; message: string };
+
+export function normalizeKey(s: string) {
+  return (s || "")
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, "")
+    .replace(/–/g, "-")
+    .replace(/—/g, "-");
+}
+
+function hashText(text: string) {
+  // FNV-1a (32-bit) — only used to tell "same file" from "changed file"
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return `${text.length.toString(36)}-${(h >>> 0).toString(36)}`;
+}
+
+function byLine(a: LineError, b: LineError) {
+  return a.line - b.line;
+}
+
+export function parseDataset(text: string, path: string | null = null, opts: ParseDatasetOptions = {}): Dataset {
+  const { rows: records, diagnostics, delimiter } = parseCsv(text);
+  const rowErrors: LineError[] = diagnostics
+    .filter((d) => d.severity === "error")
+    .map((d) => ({ line: d.line, message: formatCsvDiagnostic(d) }));
+
+  const rows = records.filter((r) => r.cells.length >= 2);
+  const version = hashText(text);
+
+  if (!rows.length) {
+    return {
+      path,
+      columns: [],
+      rowErrors: rowErrors.map((e) => e.message),
+      rowCount: 0,
+      version,
+      dateInference: null,
+      dateConvention: opts.dateConvention ?? "DMY",
+      duplicates: [],
+    };
+  }
+
+  // Optional header: if col0 contains "date", use it for column names
+  const h0 = (rows[0].cells[0] || "").toLowerCase();
+  const hasHeader = h0.includes("date");
+  const width = Math.max(...rows.map((r) => r.cells.length));
+
+  const labels: string[] = [];
+  for (let j = 1; j < width; j++) {
+    labels.push(hasHeader ? rows[0].cells[j] ?? `col${j}` : `col${j}`);
+  }
+  if (hasHeader) rows.shift();
+
+  const dateInference = inferDateFormat(rows.map((r) => ({ line: r.line, raw: r.cells[0] ?? "" })));
+  const dateConvention = opts.dateConvention ?? dateInference.convention;
+  const expected = describeDateFormat({ convention: dateConvention, yearDigits: dateInference.yearDigits ?? 4 });
+
+  const columns = labels.map((label, idx) => ({
+    key: hasHeader ? normalizeKey(label) : `col${idx + 1}`,
+    label: label.trim(),
+    values: new Map<string, number>(),
+    errors: [] as LineError[],
+  }));
+
+  const linesByDate = new Map<string, number[]>();
+
+  for (const row of rows) {
+    const dRaw = row.cells[0];
+    const date = parseDateAs(dRaw, dateConvention);
+    if (!date) {
+      rowErrors.push({ line: row.line, message: `Line ${row.line}: invalid date '${dRaw}' (expected ${expected})` });
+      continue;
+    }
+
+    const seen = linesByDate.get(date);
+    if (seen) seen.push(row.line);
+    else linesByDate.set(date, [row.line]);
+
+    for (let j = 0; j < columns.length; j++) {
+      const vRaw = row.cells[j + 1];
+      if (vRaw == null) {
+        columns[j].errors.push({ line: row.line, message: `Line ${row.line}: missing value` });
+        continue;
+      }
+      const v = Number(numberText(vRaw, delimiter));
+      if (!Number.isFinite(v)) {
+        columns[j].errors.push({ line: row.line, message: `Line ${row.line}: invalid value '${vRaw}'` });
+        continue;
+      }
+      columns[j].values.set(date, v);
+    }
+  }
+
+  return {
+    path,
+    columns: columns.map((c) => ({ ...c, errors: c.errors.map((e) => e.message) })),
+    rowErrors: rowErrors.sort(byLine).map((e) => e.message),
+    rowCount: rows.length,
+    version,
+    dateInference,
+    dateConvention,
+    duplicates: Array.from(linesByDate.entries())
+      .filter(([, lines]) => lines.length > 1)
+      .map(([date, lines]) => ({ date, lines }))
+      .sort((a, b) => (a.date < b.date ? -1 : 1)),
+  };
+}
+
+/** Column matching valueColumnKey; falls back to the first value column (legacy date,<value> files). */
+export function datasetColumn(ds: Dataset, valueColumnKey: string) {
+  if (!ds.columns.length) return null;
+  const want = normalizeKey(valueColumnKey);
+  return ds.columns.find((c) => c.key === want) ?? ds.columns[0];
+}
+
+/** Single-column view used by CSV import / sample data. */
+export function csvParse(text: string, valueColumnKey: string, opts: ParseDatasetOptions = {}) {
+  const ds = parseDataset(text, null, opts);
+  const col = datasetColumn(ds, valueColumnKey);
+
+  const parsed: Array<{ date: string; value: number }> = [];
+  if (col) for (const [date, value] of col.values) parsed.push({ date, value });
+
+  return {
+    parsed,
+    /** header of the column that was read ("colN" without a header row) */
+    column: col?.label ?? null,
+    errors: [...ds.rowErrors, ...(col?.errors ?? [])],
+    dateInference: ds.dateInference,
+    dateConvention: ds.dateConvention,
+    duplicates: ds.duplicates,
+  };
+}
+
+/* -----------------------------
+   Shared loader + cache
+----------------------------- */
+
+// Tabs re-mount on every switch; within this window the cached dataset is
+// returned without touching the network at all.
+const REVALIDATE_AFTER_MS = 60 * 1000;
+
+const cache = new Map<string, { dataset: Dataset; checkedAt: number }>();
+const inflight = new Map<string, Promise<Dataset>>();
+
+export function loadDataset(path: string, opts: { force?: boolean } = {}): Promise<Dataset> {
+  const hit = cache.get(path);
+  if (hit && !opts.force && Date.now() - hit.checkedAt < REVALIDATE_AFTER_MS) return Promise.resolve(hit.dataset);
+
+  const pending = inflight.get(path);
+  if (pending) return pending;
+
+  const req = (async () => {
+    // "no-cache" revalidates with the server (ETag / Last-Modified) instead of
+    // the old ?v=Date.now() buster, so an unchanged file costs a 304.
+    const res = await fetch(encodeURI(path), { cache: "no-cache" });
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    const text = await res.text();
+
+    const prev = cache.get(path);
+    if (prev && prev.dataset.version === hashText(text)) {
+      prev.checkedAt = Date.now();
+      return prev.dataset;
+    }
+
+    const dataset = parseDataset(text, path);
+    cache.set(path, { dataset, checkedAt: Date.now() });
+    return dataset;
+  })();
+
+  inflight.set(path, req);
+  req.then(
+    () => inflight.delete(path),
+    () => inflight.delete(path)
+  );
+  return req;
+}
+
+export function invalidateDataset(path?: string) {
+  if (path) cache.delete(path);
+  else cache.clear();
+}
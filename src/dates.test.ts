@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import { describeDateFormat, inferDateFormat, parseDateAs, parseInputDate, parseISOKey } from "./dates";
+import { parseDataset } from "./dataset";
+
+const samples = (raws: string[]) => raws.map((raw, i) => ({ line: i + 2, raw }));
+
+describe("parseInputDate", () => {
+  it("reads day-first dates with / or - and two- or four-digit years", () => {
+    expect(parseInputDate("1/4/2024")).toBe("2024-04-01");
+    expect(parseInputDate("01-04-24")).toBe("2024-04-01");
+    expect(parseInputDate(" 29/02/2024 ")).toBe("2024-02-29");
+    expect(parseInputDate("2024-04-01")).toBe("2024-04-01");
+  });
+
+  it("reads month-only dates as the first of the month", () => {
+    expect(parseInputDate("04/2024")).toBe("2024-04-01");
+    expect(parseInputDate("4/24")).toBe("2024-04-01");
+    expect(parseInputDate("13/2024")).toBeNull();
+  });
+
+  it("rejects impossible dates and non-strings", () => {
+    expect(parseInputDate("29/02/2023")).toBeNull();
+    expect(parseInputDate("31-04-2024")).toBeNull();
+    expect(parseInputDate("April 1")).toBeNull();
+    expect(parseInputDate(45383)).toBeNull();
+    expect(parseISOKey("01/04/2024")).toBeNull();
+  });
+});
+
+describe("parseDateAs", () => {
+  it("reads YMD year first only", () => {
+    expect(parseDateAs("2024-04-01", "YMD")).toBe("2024-04-01");
+    expect(parseDateAs("2024/4/1", "YMD")).toBe("2024-04-01");
+    expect(parseDateAs("2024-02-30", "YMD")).toBeNull();
+    expect(parseDateAs("01/04/2024", "YMD")).toBeNull();
+  });
+
+  it("reads MY as the first of the month without guessing a day", () => {
+    expect(parseDateAs("04/2024", "MY")).toBe("2024-04-01");
+    expect(parseDateAs("4-24", "MY")).toBe("2024-04-01");
+    expect(parseDateAs("2024-04", "MY")).toBe("2024-04-01");
+    expect(parseDateAs("13/2024", "MY")).toBeNull();
+    expect(parseDateAs("15/04/2024", "MY")).toBeNull();
+  });
+
+  it("swaps day and month for MDY", () => {
+    expect(parseDateAs("04/15/2024", "MDY")).toBe("2024-04-15");
+    expect(parseDateAs("15/04/2024", "MDY")).toBeNull();
+    expect(parseDateAs("15/04/2024", "DMY")).toBe("2024-04-15");
+  });
+});
+
+describe("inferDateFormat", () => {
+  it("settles DD/MM or MM/DD from rows that read only one way and lists the rest", () => {
+    const dmy = inferDateFormat(samples(["01/04/2024", "13/04/2024", "14/04/2024"]));
+    expect(dmy).toMatchObject({ convention: "DMY", confident: true, yearDigits: 4 });
+    expect(dmy.ambiguous.map((s) => s.raw)).toEqual(["01/04/2024"]);
+
+    const mdy = inferDateFormat(samples(["04/13/24", "04/14/24", "15/04/24"]));
+    expect(mdy.convention).toBe("MDY");
+    expect(mdy.conflicts).toEqual([{ line: 4, raw: "15/04/24", reason: "only valid as DD/MM" }]);
+    expect(describeDateFormat(mdy)).toBe("MM/DD/YY");
+  });
+
+  it("falls back to day-to-day continuity when every row is ambiguous", () => {
+    // daily as MM/DD (1, 2, 3 April), monthly jumps as DD/MM
+    const inf = inferDateFormat(samples(["04/01/2024", "04/02/2024", "04/03/2024"]));
+    expect(inf).toMatchObject({ convention: "MDY", confident: false });
+    expect(inf.ambiguous).toHaveLength(3);
+  });
+
+  it("reports mixed year widths and unreadable rows", () => {
+    const inf = inferDateFormat(samples(["13/04/2024", "14/04/24", "nope"]));
+    expect(inf.yearDigits).toBeNull();
+    expect(inf.counts.invalid).toBe(1);
+    expect(describeDateFormat(inf)).toBe("DD/MM/YY(YY)");
+  });
+
+  it("infers ISO and month-only columns", () => {
+    expect(inferDateFormat(samples(["2024/04/01", "2024/04/02"])).convention).toBe("YMD");
+    expect(inferDateFormat(samples(["2024-04", "2024-05"])).convention).toBe("MY");
+  });
+});
+
+describe("parseDataset with a forced convention", () => {
+  it("reads month-only rows and rejects day-level ones", () => {
+    const ds = parseDataset("Date,Total\n04/2024,10\n05/2024,11\n15/06/2024,12\n", null, { dateConvention: "MY" });
+    expect(Array.from(ds.columns[0].values.keys())).toEqual(["2024-04-01", "2024-05-01"]);
+    expect(ds.rowErrors).toEqual(["Line 4: invalid date '15/06/2024' (expected MM/YYYY)"]);
+  });
+});
@@ -0,0 +1,317 @@
+/* -----------------------------
+   Date parsing shared by CSV loaders and manual entry
+----------------------------- */
+
+export function parseISOKey(s: string) {
+  const ok = /^\d{4}-\d{2}-\d{2}$/.test(s);
+  if (!ok) return null;
+  const d = new Date(s + "T00:00:00Z");
+  return Number.isNaN(d.getTime()) ? null : s;
+}
+
+// ✅ Universal date parser
+// Accepts ALL formats:
+// DD/MM/YYYY, DD/MM/YY, MM/YYYY, MM/YY,
+// DD-MM-YYYY, DD-MM-YY,
+// ISO YYYY-MM-DD
+//
+// Month-only formats are normalized to FIRST DAY of month (YYYY-MM-01).
+export function parseInputDate(s: unknown) {
+  if (typeof s !== "string") return null;
+  const t = s.trim();
+
+  let m: RegExpMatchArray | null;
+
+  // DD/MM/YYYY
+  m = t.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (m) {
+    const dd = Number(m[1]);
+    const mm = Number(m[2]);
+    const yyyy = Number(m[3]);
+    const d = new Date(Date.UTC(yyyy, mm - 1, dd));
+    if (
+      !Number.isNaN(d.getTime()) &&
+      d.getUTCFullYear() === yyyy &&
+      d.getUTCMonth() === mm - 1 &&
+      d.getUTCDate() === dd
+    ) {
+      return `${yyyy}-${String(mm).padStart(2, "0")}-${String(dd).padStart(2, "0")}`;
+    }
+    return null;
+  }
+
+  // DD/MM/YY -> 20YY
+  m = t.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2})$/);
+  if (m) {
+    const dd = Number(m[1]);
+    const mm = Number(m[2]);
+    const yyyy = 2000 + Number(m[3]);
+    const d = new Date(Date.UTC(yyyy, mm - 1, dd));
+    if (
+      !Number.isNaN(d.getTime()) &&
+      d.getUTCFullYear() === yyyy &&
+      d.getUTCMonth() === mm - 1 &&
+      d.getUTCDate() === dd
+    ) {
+      return `${yyyy}-${String(mm).padStart(2, "0")}-${String(dd).padStart(2, "0")}`;
+    }
+    return null;
+  }
+
+  // MM/YYYY -> YYYY-MM-01
+  m = t.match(/^(\d{1,2})\/(\d{4})$/);
+  if (m) {
+    const mm = Number(m[1]);
+    const yyyy = Number(m[2]);
+    if (Number.isFinite(mm) && mm >= 1 && mm <= 12 && Number.isFinite(yyyy) && yyyy >= 1900) {
+      return `${yyyy}-${String(mm).padStart(2, "0")}-01`;
+    }
+    return null;
+  }
+
+  // MM/YY -> 20YY-MM-01
+  m = t.match(/^(\d{1,2})\/(\d{2})$/);
+  if (m) {
+    const mm = Number(m[1]);
+    const yyyy = 2000 + Number(m[2]);
+    if (Number.isFinite(mm) && mm >= 1 && mm <= 12) {
+      return `${yyyy}-${String(mm).padStart(2, "0")}-01`;
+    }
+    return null;
+  }
+
+  // DD-MM-YYYY
+  m = t.match(/^(\d{1,2})-(\d{1,2})-(\d{4})$/);
+  if (m) {
+    const dd = Number(m[1]);
+    const mm = Number(m[2]);
+    const yyyy = Number(m[3]);
+    const d = new Date(Date.UTC(yyyy, mm - 1, dd));
+    if (
+      !Number.isNaN(d.getTime()) &&
+      d.getUTCFullYear() === yyyy &&
+      d.getUTCMonth() === mm - 1 &&
+      d.getUTCDate() === dd
+    ) {
+      return `${yyyy}-${String(mm).padStart(2, "0")}-${String(dd).padStart(2, "0")}`;
+    }
+    return null;
+  }
+
+  // DD-MM-YY -> 20YY
+  m = t.match(/^(\d{1,2})-(\d{1,2})-(\d{2})$/);
+  if (m) {
+    const dd = Number(m[1]);
+    const mm = Number(m[2]);
+    const yyyy = 2000 + Number(m[3]);
+    const d = new Date(Date.UTC(yyyy, mm - 1, dd));
+    if (
+      !Number.isNaN(d.getTime()) &&
+      d.getUTCFullYear() === yyyy &&
+      d.getUTCMonth() === mm - 1 &&
+      d.getUTCDate() === dd
+    ) {
+      return `${yyyy}-${String(mm).padStart(2, "0")}-${String(dd).padStart(2, "0")}`;
+    }
+    return null;
+  }
+
+  // ISO
+  if (/^\d{4}-\d{2}-\d{2}$/.test(t)) return parseISOKey(t);
+
+  return null;
+}
+
+/* -----------------------------
+   Date-format inference
+   - parseInputDate() alone always reads a/b/c as DD/MM, so an MM/DD
+     export from Excel is silently misread
+   - inferDateFormat() looks at the WHOLE column and decides the
+     convention from rows that can only be read one way (13/01 vs 01/13),
+     falling back to day-to-day continuity when every row is ambiguous
+----------------------------- */
+
+export type DateConvention = "DMY" | "MDY" | "YMD" | "MY";
+
+export const DATE_CONVENTION_LABELS: Record<DateConvention, string> = {
+  DMY: "Day / Month / Year",
+  MDY: "Month / Day / Year",
+  YMD: "ISO (YYYY-MM-DD)",
+  MY: "Month only (MM/YYYY, first of the month)",
+};
+
+export type DateSample = { line: number; raw: string };
+
+export type DateInference = {
+  convention: DateConvention;
+  /** 2 or 4 when every dated row agrees, null when mixed / unknown */
+  yearDigits: 2 | 4 | null;
+  /** false => nothing in the file pins the convention; ask the user */
+  confident: boolean;
+  counts: { dmy: number; mdy: number; ambiguous: number; iso: number; monthOnly: number; invalid: number };
+  /** rows that parse as two different dates depending on DD/MM vs MM/DD */
+  ambiguous: DateSample[];
+  /** rows that contradict the chosen convention or use a different format family */
+  conflicts: Array<DateSample & { reason: string }>;
+};
+
+const DAY_MONTH_YEAR = /^(\d{1,2})[/-](\d{1,2})[/-](\d{2}|\d{4})$/;
+const MONTH_YEAR = /^(\d{1,2})[/-](\d{2}|\d{4})$/;
+const YEAR_MONTH = /^(\d{4})[/-](\d{1,2})$/;
+const YEAR_MONTH_DAY = /^(\d{4})[/-](\d{1,2})[/-](\d{1,2})$/;
+
+function validYMD(y: number, m: number, d: number) {
+  const dt = new Date(Date.UTC(y, m - 1, d));
+  return dt.getUTCFullYear() === y && dt.getUTCMonth() === m - 1 && dt.getUTCDate() === d;
+}
+
+function fullYear(yy: string) {
+  return yy.length === 2 ? 2000 + Number(yy) : Number(yy);
+}
+
+type SampleKind = "dmy" | "mdy" | "ambiguous" | "same" | "iso" | "monthOnly" | "invalid";
+
+function classify(raw: string): { kind: SampleKind; yearDigits: 2 | 4 | null } {
+  const t = (raw || "").trim();
+  if (YEAR_MONTH_DAY.test(t)) return { kind: parseDateAs(t, "YMD") ? "iso" : "invalid", yearDigits: 4 };
+
+  const mm = t.match(MONTH_YEAR);
+  if (mm) {
+    const m = Number(mm[1]);
+    return { kind: m >= 1 && m <= 12 ? "monthOnly" : "invalid", yearDigits: mm[2].length as 2 | 4 };
+  }
+  if (YEAR_MONTH.test(t)) return { kind: parseDateAs(t, "MY") ? "monthOnly" : "invalid", yearDigits: 4 };
+
+  const m = t.match(DAY_MONTH_YEAR);
+  if (!m) return { kind: "invalid", yearDigits: null };
+
+  const a = Number(m[1]);
+  const b = Number(m[2]);
+  const y = fullYear(m[3]);
+  const yearDigits = m[3].length as 2 | 4;
+  const asDMY = validYMD(y, b, a);
+  const asMDY = validYMD(y, a, b);
+
+  if (asDMY && asMDY) return { kind: a === b ? "same" : "ambiguous", yearDigits };
+  if (asDMY) return { kind: "dmy", yearDigits };
+  if (asMDY) return { kind: "mdy", yearDigits };
+  return { kind: "invalid", yearDigits };
+}
+
+function isoOf(y: number, m: number, d: number) {
+  return validYMD(y, m, d) ? `${y}-${String(m).padStart(2, "0")}-${String(d).padStart(2, "0")}` : null;
+}
+
+/**
+ * Parses with an explicit convention (DMY is the dashboard default).
+ * - DMY: anything parseInputDate() reads
+ * - MDY: a/b/c read as month/day/year
+ * - YMD: year first only (YYYY-MM-DD, YYYY/MM/DD)
+ * - MY:  month + year only (MM/YYYY, MM-YY, YYYY-MM) -> first of the month; day-level dates are rejected
+ */
+export function parseDateAs(raw: unknown, convention: DateConvention) {
+  if (typeof raw !== "string") return null;
+  const t = raw.trim();
+
+  if (convention === "YMD") {
+    const m = t.match(YEAR_MONTH_DAY);
+    return m ? isoOf(Number(m[1]), Number(m[2]), Number(m[3])) : null;
+  }
+
+  if (convention === "MY") {
+    const m = t.match(MONTH_YEAR);
+    if (m) return isoOf(fullYear(m[2]), Number(m[1]), 1);
+    const y = t.match(YEAR_MONTH);
+    return y ? isoOf(Number(y[1]), Number(y[2]), 1) : null;
+  }
+
+  if (convention !== "MDY") return parseInputDate(raw);
+
+  const m = t.match(DAY_MONTH_YEAR);
+  if (!m) return parseInputDate(t);
+  const sep = t.includes("/") ? "/" : "-";
+  return parseInputDate(`${m[2]}${sep}${m[1]}${sep}${m[3]}`);
+}
+
+// How "daily-looking" a column is under a convention: share of consecutive
+// rows whose dates step forward/back by at most a week.
+function continuityScore(samples: DateSample[], convention: DateConvention) {
+  let prev: number | null = null;
+  let good = 0;
+  let pairs = 0;
+  for (const s of samples) {
+    const iso = parseDateAs(s.raw, convention);
+    if (!iso) continue;
+    const t = Date.parse(iso + "T00:00:00Z") / 86400000;
+    if (prev != null) {
+      pairs++;
+      if (Math.abs(t - prev) <= 7) good++;
+    }
+    prev = t;
+  }
+  return pairs ? good / pairs : 0;
+}
+
+export function inferDateFormat(samples: DateSample[]): DateInference {
+  const counts = { dmy: 0, mdy: 0, ambiguous: 0, iso: 0, monthOnly: 0, invalid: 0 };
+  const kinds: SampleKind[] = [];
+  const digits = new Set<number>();
+  let same = 0; // e.g. 05/05/2024 — reads the same either way
+
+  for (const s of samples) {
+    const c = classify(s.raw);
+    kinds.push(c.kind);
+    if (c.kind === "same") same++;
+    else counts[c.kind] += 1;
+    if (c.kind !== "invalid" && c.yearDigits) digits.add(c.yearDigits);
+  }
+
+  const dayRows = counts.dmy + counts.mdy + counts.ambiguous + same;
+
+  let convention: DateConvention = "DMY";
+  let confident = true;
+
+  if (counts.iso > dayRows && counts.iso >= counts.monthOnly) convention = "YMD";
+  else if (counts.monthOnly > dayRows && counts.monthOnly > counts.iso) convention = "MY";
+  else if (counts.mdy > counts.dmy) convention = "MDY";
+  else if (counts.dmy > 0) convention = "DMY";
+  else if (counts.ambiguous > 0) {
+    // Nothing decisive: prefer the reading that gives a continuous daily series
+    const dmyScore = continuityScore(samples, "DMY");
+    const mdyScore = continuityScore(samples, "MDY");
+    convention = mdyScore > dmyScore ? "MDY" : "DMY";
+    confident = false;
+  }
+
+  const ambiguous: DateSample[] = [];
+  const conflicts: DateInference["conflicts"] = [];
+  const isDayConvention = convention === "DMY" || convention === "MDY";
+
+  samples.forEach((s, i) => {
+    const k = kinds[i];
+    if (k === "ambiguous") ambiguous.push(s);
+    else if (k === "dmy" && convention === "MDY") conflicts.push({ ...s, reason: "only valid as DD/MM" });
+    else if (k === "mdy" && convention !== "MDY") conflicts.push({ ...s, reason: "only valid as MM/DD" });
+    else if (k === "iso" && convention !== "YMD") conflicts.push({ ...s, reason: "ISO date in a non-ISO file" });
+    else if (k === "monthOnly" && convention !== "MY") conflicts.push({ ...s, reason: "month-only date" });
+    else if ((k === "dmy" || k === "mdy" || k === "same") && !isDayConvention)
+      conflicts.push({ ...s, reason: "day-level date in a month/ISO file" });
+  });
+
+  return {
+    convention,
+    yearDigits: digits.size === 1 ? (Array.from(digits)[0] as 2 | 4) : null,
+    confident,
+    counts,
+    ambiguous,
+    conflicts,
+  };
+}
+
+export function describeDateFormat(inf: Pick<DateInference, "convention" | "yearDigits">) {
+  const yy = inf.yearDigits === 2 ? "YY" : inf.yearDigits === 4 ? "YYYY" : "YY(YY)";
+  if (inf.convention === "DMY") return `DD/MM/${yy}`;
+  if (inf.convention === "MDY") return `MM/DD/${yy}`;
+  if (inf.convention === "MY") return `MM/${yy}`;
+  return "YYYY-MM-DD";
+}
@@ -0,0 +1,109 @@
+/* -----------------------------
+   Day-indexed series
+   - Values laid out by day number (days since 1970-01-01) in typed arrays,
+     with prefix sums / counts so the total, count and interpolated-day
+     count of any date range is O(1)
+   - Missing days are NaN in `values` and simply don't add to the prefixes
+   - Built once per series (see fillGaps); windows, rolling views and KPIs
+     read from it instead of walking ISO dates
+----------------------------- */
+
+const MS_PER_DAY = 86400000;
+
+export type DayIndex = {
+  /** day number of values[0] */
+  start: number;
+  length: number;
+  values: Float64Array;
+  /** prefix arrays have length + 1 entries; [i] covers values[0 .. i-1] */
+  sum: Float64Array;
+  count: Int32Array;
+  filled: Int32Array;
+};
+
+export type RangeTotals = {
+  sum: number;
+  count: number;
+  /** interpolated days among `count` */
+  filled: number;
+  /** calendar days in the range (present or not) */
+  expected: number;
+};
+
+/** "2024-04-01" -> day number (no Date parsing of strings). */
+export function isoToDay(iso: string) {
+  const y = Number(iso.slice(0, 4));
+  const m = Number(iso.slice(5, 7));
+  const d = Number(iso.slice(8, 10));
+  return Math.round(Date.UTC(y, m - 1, d) / MS_PER_DAY);
+}
+
+export function dayToIso(day: number) {
+  return new Date(day * MS_PER_DAY).toISOString().slice(0, 10);
+}
+
+export function emptyDayIndex(): DayIndex {
+  return {
+    start: 0,
+    length: 0,
+    values: new Float64Array(0),
+    sum: new Float64Array(1),
+    count: new Int32Array(1),
+    filled: new Int32Array(1),
+  };
+}
+
+/** `points` sorted by date; `filled` marks interpolated dates. */
+export function buildDayIndex(points: Array<{ date: string; value: number }>, filled?: Set<string>): DayIndex {
+  if (!points.length) return emptyDayIndex();
+
+  const start = isoToDay(points[0].date);
+  const length = isoToDay(points[points.length - 1].date) - start + 1;
+  const values = new Float64Array(length).fill(NaN);
+  const isFilled = new Uint8Array(length);
+  for (const p of points) {
+    const i = isoToDay(p.date) - start;
+    values[i] = p.value;
+    if (filled?.has(p.date)) isFilled[i] = 1;
+  }
+
+  const sum = new Float64Array(length + 1);
+  const count = new Int32Array(length + 1);
+  const filledPrefix = new Int32Array(length + 1);
+  for (let i = 0; i < length; i++) {
+    const v = values[i];
+    const has = !Number.isNaN(v);
+    sum[i + 1] = sum[i] + (has ? v : 0);
+    count[i + 1] = count[i] + (has ? 1 : 0);
+    filledPrefix[i + 1] = filledPrefix[i] + isFilled[i];
+  }
+
+  return { start, length, values, sum, count, filled: filledPrefix };
+}
+
+/** Totals over day numbers [fromDay, toDay] (inclusive); days outside the index count as missing. */
+export function rangeTotals(idx: DayIndex, fromDay: number, toDay: number): RangeTotals {
+  const expected = toDay - fromDay + 1;
+  if (expected <= 0) return { sum: 0, count: 0, filled: 0, expected: 0 };
+  const a = Math.max(0, fromDay - idx.start);
+  const b = Math.min(idx.length - 1, toDay - idx.start);
+  if (a > b) return { sum: 0, count: 0, filled: 0, expected };
+  return {
+    sum: idx.sum[b + 1] - idx.sum[a],
+    count: idx.count[b + 1] - idx.count[a],
+    filled: idx.filled[b + 1] - idx.filled[a],
+    expected,
+  };
+}
+
+export function valueAtDay(idx: DayIndex, day: number): number | null {
+  const i = day - idx.start;
+  if (i < 0 || i >= idx.length) return null;
+  const v = idx.values[i];
+  return Number.isNaN(v) ? null : v;
+}
+
+export function isFilledDay(idx: DayIndex, day: number) {
+  const i = day - idx.start;
+  return i >= 0 && i < idx.length && idx.filled[i + 1] - idx.filled[i] > 0;
+}
@@ -0,0 +1,205 @@
+import { buildDayIndex, dayToIso } from "./dayIndex";
+import type { FilledSeries } from "./gaps";
+import { fyAxisIndex, FY_AXIS_DAYS } from "./seasonal";
+
+/* -----------------------------
+   Seasonal-trend decomposition (STL-style, robust)
+   value = trend + weekly + annual + residual
+   - Alternating passes like STL: weekly = smoothed same-weekday subseries of
+     the detrended values, annual = smoothed day-of-FY profile averaged over
+     the years, trend = centred moving average of the deseasonalised values
+   - Outer passes re-weight days with large residuals (bisquare), so outages
+     or one-off spikes don't bend the trend / seasonal shapes
+   - Annual seasonality needs two years of data, weekly four weeks; below
+     that the component is zero
+   - Every moving average is a prefix-sum window (O(n) per pass)
+----------------------------- */
+
+export const MIN_DAYS_WEEKLY = 28;
+export const MIN_DAYS_ANNUAL = 730;
+
+const TREND_HALF_WINDOW = 45; // 91-day centred trend
+const WEEKLY_HALF_WINDOW = 6; // ±6 weeks of the same weekday
+const ANNUAL_HALF_WINDOW = 7; // ±7 days on the FY profile
+const INNER_PASSES = 2;
+const OUTER_PASSES = 2;
+
+export type DecompositionRow = {
+  date: string;
+  /** null on days without data */
+  value: number | null;
+  trend: number | null;
+  weekly: number;
+  annual: number;
+  residual: number | null;
+  /** value - weekly - annual */
+  adjusted: number | null;
+};
+
+export type Decomposition = {
+  rows: DecompositionRow[];
+  hasWeekly: boolean;
+  hasAnnual: boolean;
+  /** 0..1: share of (seasonal + residual) variance explained by the component */
+  strength: { weekly: number | null; annual: number | null };
+};
+
+/** Weighted centred moving average; NaN where the window has no weight */
+function weightedMovingAverage(y: Float64Array, w: Float64Array, half: number) {
+  const n = y.length;
+  const sy = new Float64Array(n + 1);
+  const sw = new Float64Array(n + 1);
+  for (let i = 0; i < n; i++) {
+    const wi = Number.isNaN(y[i]) ? 0 : w[i];
+    sy[i + 1] = sy[i] + (wi ? wi * y[i] : 0);
+    sw[i + 1] = sw[i] + wi;
+  }
+  const out = new Float64Array(n);
+  for (let i = 0; i < n; i++) {
+    const a = Math.max(0, i - half);
+    const b = Math.min(n - 1, i + half);
+    const W = sw[b + 1] - sw[a];
+    out[i] = W > 0 ? (sy[b + 1] - sy[a]) / W : NaN;
+  }
+  return out;
+}
+
+function variance(xs: number[]) {
+  if (xs.length < 2) return 0;
+  const m = xs.reduce((a, x) => a + x, 0) / xs.length;
+  return xs.reduce((a, x) => a + (x - m) * (x - m), 0) / xs.length;
+}
+
+function strengthOf(component: Float64Array, residual: Float64Array) {
+  const r: number[] = [];
+  const sr: number[] = [];
+  for (let i = 0; i < residual.length; i++) {
+    if (Number.isNaN(residual[i])) continue;
+    r.push(residual[i]);
+    sr.push(component[i] + residual[i]);
+  }
+  const v = variance(sr);
+  return v > 0 ? Math.max(0, 1 - variance(r) / v) : null;
+}
+
+export function decompose(series: FilledSeries): Decomposition {
+  const { index } = series;
+  const n = index.length;
+  if (!n) return { rows: [], hasWeekly: false, hasAnnual: false, strength: { weekly: null, annual: null } };
+
+  const y = index.values;
+  const dates = Array.from({ length: n }, (_, i) => dayToIso(index.start + i));
+  const present = Array.from(y).filter((v) => !Number.isNaN(v)).length;
+  const hasWeekly = present >= MIN_DAYS_WEEKLY;
+  const hasAnnual = n >= MIN_DAYS_ANNUAL && present >= MIN_DAYS_ANNUAL * 0.8;
+
+  // day-of-FY position per day (29 Feb shares 28 Feb's)
+  const pos = dates.map((d) => fyAxisIndex(d) ?? fyAxisIndex(`${d.slice(0, 4)}-02-28`)!);
+
+  const robust = new Float64Array(n).fill(1);
+  let trend = new Float64Array(n);
+  const weekly = new Float64Array(n);
+  const annual = new Float64Array(n);
+  const residual = new Float64Array(n);
+
+  for (let outer = 0; outer < OUTER_PASSES; outer++) {
+    for (let inner = 0; inner < INNER_PASSES; inner++) {
+      // 1) weekly: same-weekday subseries of (value - trend - annual), smoothed, then de-meaned over 7 days
+      if (hasWeekly) {
+        // first pass: detrend with a plain centred average
+        const t0 = inner || outer ? trend : weightedMovingAverage(y, robust, TREND_HALF_WINDOW);
+        const base = new Float64Array(n);
+        for (let i = 0; i < n; i++) base[i] = y[i] - t0[i] - annual[i];
+        for (let k = 0; k < 7; k++) {
+          const idx: number[] = [];
+          for (let i = k; i < n; i += 7) idx.push(i);
+          const sub = Float64Array.from(idx, (i) => base[i]);
+          const sw = Float64Array.from(idx, (i) => robust[i]);
+          const sm = weightedMovingAverage(sub, sw, WEEKLY_HALF_WINDOW);
+          idx.forEach((i, j) => (weekly[i] = Number.isNaN(sm[j]) ? 0 : sm[j]));
+        }
+        const level = weightedMovingAverage(weekly, new Float64Array(n).fill(1), 3);
+        for (let i = 0; i < n; i++) weekly[i] -= level[i];
+      }
+
+      // 2) annual: FY-position profile of (value - trend - weekly), averaged over years, smoothed circularly
+      if (hasAnnual) {
+        // first pass: a ~1-year average, so the trend doesn't soak up the annual shape
+        const t0 = inner || outer ? trend : weightedMovingAverage(y, robust, TREND_HALF_WINDOW * 4);
+        const sum = new Float64Array(FY_AXIS_DAYS);
+        const wsum = new Float64Array(FY_AXIS_DAYS);
+        for (let i = 0; i < n; i++) {
+          const x = y[i] - t0[i] - weekly[i];
+          if (Number.isNaN(x)) continue;
+          sum[pos[i]] += robust[i] * x;
+          wsum[pos[i]] += robust[i];
+        }
+        const profile = new Float64Array(FY_AXIS_DAYS);
+        for (let p = 0; p < FY_AXIS_DAYS; p++) {
+          let s = 0;
+          let w = 0;
+          for (let k = -ANNUAL_HALF_WINDOW; k <= ANNUAL_HALF_WINDOW; k++) {
+            const q = (p + k + FY_AXIS_DAYS) % FY_AXIS_DAYS;
+            s += sum[q];
+            w += wsum[q];
+          }
+          profile[p] = w > 0 ? s / w : 0;
+        }
+        const mean = profile.reduce((a, v) => a + v, 0) / FY_AXIS_DAYS;
+        for (let i = 0; i < n; i++) annual[i] = profile[pos[i]] - mean;
+      }
+
+      // 3) trend of the deseasonalised values
+      const deseason = new Float64Array(n);
+      for (let i = 0; i < n; i++) deseason[i] = y[i] - weekly[i] - annual[i];
+      trend = weightedMovingAverage(deseason, robust, TREND_HALF_WINDOW);
+    }
+
+    for (let i = 0; i < n; i++) residual[i] = y[i] - trend[i] - weekly[i] - annual[i];
+
+    // bisquare robustness weights from the residuals
+    const abs = Array.from(residual)
+      .filter((r) => !Number.isNaN(r))
+      .map(Math.abs)
+      .sort((a, b) => a - b);
+    const h = 6 * (abs.length ? abs[Math.floor(abs.length / 2)] : 0);
+    for (let i = 0; i < n; i++) {
+      const u = h > 0 && !Number.isNaN(residual[i]) ? Math.abs(residual[i]) / h : 0;
+      robust[i] = u < 1 ? (1 - u * u) ** 2 : 0;
+    }
+  }
+
+  const rows: DecompositionRow[] = dates.map((date, i) => {
+    const has = !Number.isNaN(y[i]);
+    return {
+      date,
+      value: has ? y[i] : null,
+      trend: Number.isNaN(trend[i]) ? null : trend[i],
+      weekly: weekly[i],
+      annual: annual[i],
+      residual: has && !Number.isNaN(residual[i]) ? residual[i] : null,
+      adjusted: has ? y[i] - weekly[i] - annual[i] : null,
+    };
+  });
+
+  return {
+    rows,
+    hasWeekly,
+    hasAnnual,
+    strength: {
+      weekly: hasWeekly ? strengthOf(weekly, residual) : null,
+      annual: hasAnnual ? strengthOf(annual, residual) : null,
+    },
+  };
+}
+
+/** The seasonally adjusted values as a series (same dates + interpolated days as `source`) */
+export function adjustedSeries(d: Decomposition, source: FilledSeries): FilledSeries {
+  const points = d.rows.filter((r) => r.adjusted != null).map((r) => ({ date: r.date, value: r.adjusted as number }));
+  return {
+    points,
+    lookup: new Map(points.map((p) => [p.date, p.value] as const)),
+    filled: source.filled,
+    index: buildDayIndex(points, source.filled),
+  };
+}
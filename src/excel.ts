@@ -0,0 +1,202 @@
+import { normalizeKey } from "./dataset";
+import { parseDateAs } from "./dates";
+
+/* -----------------------------
+   Excel (.xlsx / .xls) import + export
+   - Runs entirely in the browser; the xlsx library is loaded on first use
+     so it stays out of the main bundle
+   - Import turns the picked sheet + columns into date,value CSV text so it
+     goes through the same date inference / preview / merge path as a CSV
+   - Export writes one sheet per table with real date cells and number formats
+----------------------------- */
+
+export type ExcelSheet = {
+  name: string;
+  /** raw cell values, row-major; numbers stay numbers (dates as Excel serials) */
+  rows: unknown[][];
+  width: number;
+};
+
+export type ExcelWorkbook = { fileName: string; sheets: ExcelSheet[] };
+
+export type ExcelColumnChoice = {
+  sheet: string;
+  dateCol: number;
+  valueCol: number;
+  hasHeader: boolean;
+};
+
+export function isExcelFile(file: File) {
+  return /\.(xlsx|xlsm|xls)$/i.test(file.name);
+}
+
+function loadXlsx() {
+  return import("xlsx");
+}
+
+export async function readWorkbook(file: File): Promise<ExcelWorkbook> {
+  const XLSX = await loadXlsx();
+  const wb = XLSX.read(await file.arrayBuffer(), { type: "array" });
+
+  const sheets = wb.SheetNames.map((name) => {
+    const rows = XLSX.utils.sheet_to_json<unknown[]>(wb.Sheets[name], { header: 1, raw: true, defval: null, blankrows: false });
+    const width = rows.reduce((w, r) => Math.max(w, r.length), 0);
+    return { name, rows, width };
+  });
+
+  return { fileName: file.name, sheets };
+}
+
+export function columnLetter(idx: number) {
+  let s = "";
+  let n = idx + 1;
+  while (n > 0) {
+    const r = (n - 1) % 26;
+    s = String.fromCharCode(65 + r) + s;
+    n = Math.floor((n - 1) / 26);
+  }
+  return s;
+}
+
+// Excel's day 0 is 1899-12-30 (1900 leap-year bug included)
+const EXCEL_EPOCH_UTC = Date.UTC(1899, 11, 30);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function serialToISO(serial: number) {
+  if (!Number.isFinite(serial) || serial < 1 || serial > 2958465) return null;
+  return new Date(EXCEL_EPOCH_UTC + Math.floor(serial) * DAY_MS).toISOString().slice(0, 10);
+}
+
+function isoToSerial(iso: string) {
+  const [y, m, d] = iso.split("-").map(Number);
+  return (Date.UTC(y, m - 1, d) - EXCEL_EPOCH_UTC) / DAY_MS;
+}
+
+function cellText(v: unknown) {
+  if (v == null) return "";
+  if (v instanceof Date) return Number.isNaN(v.getTime()) ? "" : v.toISOString().slice(0, 10);
+  return String(v).trim();
+}
+
+/** Date cell -> text the CSV date parser understands (Excel serials become ISO). */
+export function dateCellText(v: unknown) {
+  if (typeof v === "number") return serialToISO(v) ?? String(v);
+  return cellText(v);
+}
+
+function looksLikeDate(v: unknown) {
+  if (typeof v === "number") return serialToISO(v) != null && v > 10000;
+  const t = cellText(v);
+  return !!(parseDateAs(t, "DMY") || parseDateAs(t, "MDY"));
+}
+
+/** Column labels for the picker ("A · Date", or just "A" without a header row). */
+export function sheetColumns(sheet: ExcelSheet, hasHeader: boolean) {
+  const header = hasHeader ? sheet.rows[0] ?? [] : [];
+  return Array.from({ length: sheet.width }, (_, i) => {
+    const h = cellText(header[i]);
+    return { index: i, label: h ? `${columnLetter(i)} · ${h}` : columnLetter(i), header: h };
+  });
+}
+
+/** Best first guess: header row if row 1 has no date, "date" column, column matching the series key. */
+export function guessColumns(sheet: ExcelSheet, valueColumnKey: string): ExcelColumnChoice {
+  const first = sheet.rows[0] ?? [];
+  const second = sheet.rows[1] ?? [];
+  const firstHasDate = first.some(looksLikeDate);
+  const hasHeader = !firstHasDate && sheet.rows.length > 1;
+
+  const cols = sheetColumns(sheet, hasHeader);
+  const probe = hasHeader ? second : first;
+
+  let dateCol = cols.findIndex((c) => c.header.toLowerCase().includes("date"));
+  if (dateCol < 0) dateCol = Math.max(0, probe.findIndex(looksLikeDate));
+
+  const want = normalizeKey(valueColumnKey);
+  let valueCol = cols.findIndex((c) => c.index !== dateCol && normalizeKey(c.header) === want);
+  if (valueCol < 0) {
+    valueCol = cols.findIndex((c) => c.index !== dateCol && typeof probe[c.index] === "number");
+  }
+  if (valueCol < 0) valueCol = dateCol === 0 ? Math.min(1, sheet.width - 1) : 0;
+
+  return { sheet: sheet.name, dateCol, valueCol, hasHeader };
+}
+
+/** Picked columns as date,value CSV text (fed to csvParse / the import preview). */
+export function sheetToCsvText(sheet: ExcelSheet, choice: ExcelColumnChoice, valueHeader: string) {
+  const rows = choice.hasHeader ? sheet.rows.slice(1) : sheet.rows;
+  const q = (s: string) => (/[",\n\r]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s);
+
+  const lines = [`date,${valueHeader}`];
+  for (const r of rows) {
+    const d = dateCellText(r[choice.dateCol]);
+    const v = cellText(r[choice.valueCol]);
+    if (!d && !v) continue;
+    lines.push(`${q(d)},${q(v)}`);
+  }
+  return lines.join("\n");
+}
+
+/* -----------------------------
+   Export
+----------------------------- */
+
+export type ExcelColumnFormat = "date" | "month" | "text" | "number" | "percent";
+
+export type ExcelExportSheet = {
+  name: string;
+  columns: Array<{ header: string; key: string; format: ExcelColumnFormat; width?: number }>;
+  rows: Array<Record<string, string | number | null | undefined>>;
+};
+
+/**
+ * Writes the sheets to an .xlsx file and downloads it.
+ * - "date" values are ISO dates, "month" values are YYYY-MM (written as real Excel dates)
+ * - "percent" values are percentage points (12.5 => 12.50%)
+ */
+export async function downloadWorkbook(filename: string, sheets: ExcelExportSheet[], opts: { decimals: number }) {
+  const XLSX = await loadXlsx();
+  const wb = XLSX.utils.book_new();
+  const numFmt = opts.decimals > 0 ? `#,##0.${"0".repeat(opts.decimals)}` : "#,##0";
+
+  for (const s of sheets) {
+    const aoa: unknown[][] = [s.columns.map((c) => c.header)];
+    for (const r of s.rows) {
+      aoa.push(
+        s.columns.map((c) => {
+          const v = r[c.key];
+          if (v == null || v === "") return null;
+          if (c.format === "date" && typeof v === "string") return isoToSerial(v);
+          if (c.format === "month" && typeof v === "string") return isoToSerial(`${v}-01`);
+          if (c.format === "percent" && typeof v === "number") return v / 100;
+          return v;
+        })
+      );
+    }
+
+    const ws = XLSX.utils.aoa_to_sheet(aoa);
+    s.columns.forEach((c, ci) => {
+      const z =
+        c.format === "date"
+          ? "dd-mm-yyyy"
+          : c.format === "month"
+            ? "mmm-yy"
+            : c.format === "percent"
+              ? "0.00%"
+              : c.format === "number"
+                ? numFmt
+                : null;
+      if (!z) return;
+      for (let ri = 1; ri < aoa.length; ri++) {
+        const cell = ws[XLSX.utils.encode_cell({ r: ri, c: ci })];
+        if (cell && cell.t === "n") cell.z = z;
+      }
+    });
+    ws["!cols"] = s.columns.map((c) => ({ wch: c.width ?? Math.max(12, c.header.length + 2) }));
+
+    // sheet names: max 31 chars, no []:*?/\
+    XLSX.utils.book_append_sheet(wb, ws, s.name.replace(/[[\]:*?/\\]/g, " ").slice(0, 31));
+  }
+
+  XLSX.writeFile(wb, filename, { compression: true });
+}
@@ -0,0 +1,260 @@
+import { readFile } from "node:fs/promises";
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { join } from "node:path";
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { applyMerge } from "./merge";
+import { makePoint } from "./provenance";
+import type { SeriesState } from "./provenance";
+
+type Fetchers = typeof import("./fetchers");
+
+const FIXTURES = join(__dirname, "..", "fixtures", "mock-sources");
+const FAST_RETRY = { attempts: 3, baseDelayMs: 5, maxDelayMs: 20 };
+const TODAY = "2026-02-01";
+
+/* Local mock source: serves fixtures/mock-sources; `script` queues canned
+   responses (status + optional body) that are used before the real file */
+let script: Array<{ status: number; body?: string }> = [];
+let hits: string[] = [];
+let baseUrl = "";
+let fetchers: Fetchers;
+
+const server = createServer(async (req, res) => {
+  hits.push(req.url ?? "");
+  const canned = script.shift();
+  if (canned) {
+    res.writeHead(canned.status, { "content-type": "text/plain" });
+    res.end(canned.body ?? "");
+    return;
+  }
+  try {
+    const body = await readFile(join(FIXTURES, decodeURIComponent(new URL(req.url ?? "/", "http://x").pathname)));
+    res.writeHead(200, { "content-type": "text/plain" });
+    res.end(body);
+  } catch {
+    res.writeHead(404);
+    res.end();
+  }
+});
+
+beforeAll(async () => {
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+  vi.stubEnv("VITE_FETCH_BASE_URL", baseUrl);
+  vi.resetModules();
+  fetchers = await import("./fetchers");
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+afterEach(() => {
+  script = [];
+  hits = [];
+});
+
+function emptyState(): SeriesState {
+  return { points: new Map(), removed: new Map() };
+}
+
+describe("fetch → parse → validate → merge", () => {
+  it("reads the base URL from VITE_FETCH_BASE_URL", () => {
+    expect(fetchers.FETCH_ENABLED).toBe(true);
+    expect(fetchers.FETCH_BASE_URL).toBe(baseUrl.replace(/\/$/, ""));
+  });
+
+  it("merges the CEA CSV into an empty series", async () => {
+    const res = await fetchers.runFetch(
+      fetchers.getFetchAdapter("cea-daily"),
+      { seriesId: "total", valueColumnKey: "total" },
+      { today: TODAY, lastStored: null },
+      { retry: FAST_RETRY }
+    );
+    expect(res.attempts).toBe(1);
+    expect(hits).toEqual(["/cea/daily_generation.csv"]);
+    expect(res.rows[0]).toEqual({ date: "2025-12-30", value: 4942 });
+    expect(res.rows.find((r) => r.date === "2026-01-01")?.value).toBe(4740);
+
+    const { diff, kept, written } = fetchers.fetchDiff(emptyState(), res);
+    expect(kept).toBe(0);
+    expect(written).toBe(res.rows.length);
+    const next = applyMerge(new Map(), diff, "overwrite", "fetch").next;
+    expect(next.get("2025-12-30")).toMatchObject({ value: 4942, source: "fetch" });
+  });
+
+  it("keeps manual corrections and removed days out of the merge", async () => {
+    const res = await fetchers.runFetch(
+      fetchers.getFetchAdapter("cea-daily"),
+      { seriesId: "coal", valueColumnKey: "coal" },
+      { today: TODAY, lastStored: null },
+      { retry: FAST_RETRY }
+    );
+    const current: SeriesState = {
+      points: new Map([
+        ["2025-12-30", makePoint(4000, "manual")],
+        ["2025-12-31", makePoint(4000, "import")],
+      ]),
+      removed: new Map([["2026-01-01", 0]]),
+    };
+    const { diff, kept } = fetchers.fetchDiff(current, res);
+    expect(kept).toBe(1);
+    expect(diff.changed.map((c) => c.date)).toEqual(["2025-12-31"]);
+    expect(diff.added.some((r) => r.date === "2026-01-01")).toBe(false);
+
+    const next = applyMerge(current.points, diff, "overwrite", "fetch").next;
+    expect(next.get("2025-12-30")).toMatchObject({ value: 4000, source: "manual" });
+    expect(next.get("2025-12-31")).toMatchObject({ value: 4481, source: "fetch" });
+  });
+
+  it("parses the IEX JSON and rejects rows after today", async () => {
+    const res = await fetchers.runFetch(
+      fetchers.getFetchAdapter("iex-prices"),
+      { seriesId: "dam", valueColumnKey: "DAM price" },
+      { today: "2026-01-06", lastStored: null },
+      { retry: FAST_RETRY }
+    );
+    expect(res.rows.map((r) => r.date)).toEqual(["2026-01-03", "2026-01-04", "2026-01-05", "2026-01-06"]);
+    expect(res.rows[0].value).toBe(4.51);
+    expect(res.issues).toEqual(["07-01-2026: date is in the future", "08-01-2026: date is in the future"]);
+  });
+
+  it("rejects an implausible jump from the last stored value", async () => {
+    const res = await fetchers.runFetch(
+      fetchers.getFetchAdapter("grid-india-daily"),
+      { seriesId: "demand", valueColumnKey: "demand_gwh" },
+      { today: TODAY, lastStored: { date: "2025-12-27", value: 100 } },
+      { retry: FAST_RETRY }
+    );
+    expect(res.rows).toEqual([]);
+    expect(res.issues[0]).toBe("28-12-2025: 226.17 is more than 50% away from 100 (27-12-2025)");
+  });
+});
+
+describe("retry and errors", () => {
+  it("retries 5xx with a growing backoff and then succeeds", async () => {
+    script = [{ status: 503 }, { status: 500 }];
+    const progress: Array<{ state: string; attempt: number; delayMs?: number }> = [];
+    const res = await fetchers.runFetch(
+      fetchers.getFetchAdapter("cea-daily"),
+      { seriesId: "total", valueColumnKey: "total" },
+      { today: TODAY, lastStored: null },
+      { retry: FAST_RETRY, onProgress: (p) => progress.push(p) }
+    );
+    expect(res.attempts).toBe(3);
+    expect(hits).toHaveLength(3);
+    const retries = progress.filter((p) => p.state === "retrying");
+    expect(retries.map((p) => p.attempt)).toEqual([1, 2]);
+    expect(retries[1].delayMs!).toBeGreaterThan(retries[0].delayMs!);
+  });
+
+  it("gives up after the last attempt", async () => {
+    script = [{ status: 502 }, { status: 502 }, { status: 502 }];
+    await expect(
+      fetchers.runFetch(
+        fetchers.getFetchAdapter("cea-daily"),
+        { seriesId: "total", valueColumnKey: "total" },
+        { today: TODAY, lastStored: null },
+        { retry: FAST_RETRY }
+      )
+    ).rejects.toMatchObject({ name: "FetchError", permanent: false, message: "CEA daily generation report: HTTP 502 (after 3 attempts)" });
+    expect(hits).toHaveLength(3);
+  });
+
+  it("does not retry a 4xx", async () => {
+    script = [{ status: 404 }];
+    await expect(
+      fetchers.runFetch(
+        fetchers.getFetchAdapter("cea-daily"),
+        { seriesId: "total", valueColumnKey: "total" },
+        { today: TODAY, lastStored: null },
+        { retry: FAST_RETRY }
+      )
+    ).rejects.toMatchObject({ permanent: true, message: "CEA daily generation report: HTTP 404 (after 1 attempt)" });
+    expect(hits).toHaveLength(1);
+  });
+
+  it("retries 429", async () => {
+    script = [{ status: 429 }];
+    const res = await fetchers.runFetch(
+      fetchers.getFetchAdapter("cea-daily"),
+      { seriesId: "total", valueColumnKey: "total" },
+      { today: TODAY, lastStored: null },
+      { retry: FAST_RETRY }
+    );
+    expect(res.attempts).toBe(2);
+  });
+
+  it("does not retry an unparseable body", async () => {
+    script = [{ status: 200, body: "<html>maintenance</html>" }];
+    await expect(
+      fetchers.runFetch(
+        fetchers.getFetchAdapter("iex-prices"),
+        { seriesId: "dam", valueColumnKey: "DAM price" },
+        { today: TODAY, lastStored: null },
+        { retry: FAST_RETRY }
+      )
+    ).rejects.toMatchObject({ permanent: true, message: "IEX market prices: Source is not valid JSON (after 1 attempt)" });
+    expect(hits).toHaveLength(1);
+  });
+
+  it("does not retry a CSV without the series column", async () => {
+    await expect(
+      fetchers.runFetch(
+        fetchers.getFetchAdapter("cea-daily"),
+        { seriesId: "nuclear", valueColumnKey: "nuclear" },
+        { today: TODAY, lastStored: null },
+        { retry: FAST_RETRY }
+      )
+    ).rejects.toMatchObject({ permanent: true });
+    expect(hits).toHaveLength(1);
+  });
+
+  it("stops with an AbortError while waiting to retry", async () => {
+    script = [{ status: 503 }, { status: 503 }];
+    const ctrl = new AbortController();
+    const pending = fetchers.runFetch(
+      fetchers.getFetchAdapter("cea-daily"),
+      { seriesId: "total", valueColumnKey: "total" },
+      { today: TODAY, lastStored: null },
+      {
+        retry: { attempts: 3, baseDelayMs: 10_000, maxDelayMs: 10_000 },
+        signal: ctrl.signal,
+        onProgress: (p) => {
+          if (p.state === "retrying") ctrl.abort();
+        },
+      }
+    );
+    await expect(pending).rejects.toMatchObject({ name: "AbortError" });
+    expect(hits).toHaveLength(1);
+  });
+
+  it("stops with an AbortError when aborted before the request", async () => {
+    const ctrl = new AbortController();
+    ctrl.abort();
+    await expect(
+      fetchers.runFetch(
+        fetchers.getFetchAdapter("cea-daily"),
+        { seriesId: "total", valueColumnKey: "total" },
+        { today: TODAY, lastStored: null },
+        { retry: FAST_RETRY, signal: ctrl.signal }
+      )
+    ).rejects.toMatchObject({ name: "AbortError" });
+    expect(hits).toHaveLength(0);
+  });
+});
+
+describe("backoffDelay", () => {
+  it("doubles per attempt up to the cap, with ±20% jitter", () => {
+    const opts = { attempts: 6, baseDelayMs: 100, maxDelayMs: 500 };
+    vi.spyOn(Math, "random").mockReturnValue(0.5);
+    expect([1, 2, 3, 4].map((a) => fetchers.backoffDelay(a, opts))).toEqual([100, 200, 400, 500]);
+    vi.spyOn(Math, "random").mockReturnValue(0);
+    expect(fetchers.backoffDelay(1, opts)).toBe(80);
+    vi.spyOn(Math, "random").mockReturnValue(1);
+    expect(fetchers.backoffDelay(1, opts)).toBe(120);
+    vi.restoreAllMocks();
+  });
+});
@@ -0,0 +1,303 @@
+import { datasetColumn, normalizeKey, parseDataset } from "./dataset";
+import { parseInputDate, parseISOKey } from "./dates";
+import { diffImport, rowsToApply } from "./merge";
+import type { ImportDiff, IncomingRow } from "./merge";
+import { valuesOf } from "./provenance";
+import type { SeriesState } from "./provenance";
+
+/* -----------------------------
+   Source adapters ("Auto-fetch latest")
+   - A series names an adapter in the registry (`fetchSource`)
+   - Every adapter has the same three steps:
+       url()      where the source file lives
+       parse()    source body -> rows for one series (date + value in the series unit)
+       validate() drop rows that can't be right before they reach the merge
+   - runFetch() drives the steps with retry + exponential backoff and reports
+     progress; fetchDiff() turns the result into the normal import diff, which
+     the caller commits with applyMerge(..., "overwrite", "fetch")
+   - Sources are read from VITE_FETCH_BASE_URL; under `vite` (dev) the default
+     is the sample files in fixtures/mock-sources, served by the dev server.
+     Production builds without VITE_FETCH_BASE_URL have no source at all
+     (FETCH_ENABLED = false), so the sample rows never reach real data
+----------------------------- */
+
+export type FetchTarget = {
+  seriesId: string;
+  valueColumnKey: string;
+};
+
+export type ParsedSource = { rows: IncomingRow[]; errors: string[] };
+
+export type FetchAdapter = {
+  id: string;
+  label: string;
+  url: (target: FetchTarget) => string;
+  parse: (body: string, target: FetchTarget) => ParsedSource;
+  validate: (rows: IncomingRow[], ctx: ValidationContext) => ParsedSource;
+  /** relative day-on-day change above which a row is rejected (0 = no check) */
+  maxJump: number;
+};
+
+export type ValidationContext = {
+  /** today (ISO); rows after it are rejected */
+  today: string;
+  /** last stored value, for the jump check */
+  lastStored: IncomingRow | null;
+  /** relative change vs the last stored value above which a row is rejected (0 = off) */
+  maxJump: number;
+};
+
+export type FetchProgress =
+  | { state: "fetching"; attempt: number; attempts: number; url: string }
+  | { state: "retrying"; attempt: number; attempts: number; delayMs: number; reason: string };
+
+export type FetchResult = {
+  adapter: FetchAdapter;
+  url: string;
+  rows: IncomingRow[];
+  /** parse errors + rows rejected by validation */
+  issues: string[];
+  attempts: number;
+};
+
+export class FetchError extends Error {
+  /** retrying won't help (4xx, unparseable body) */
+  permanent: boolean;
+  constructor(message: string, permanent: boolean) {
+    super(message);
+    this.name = "FetchError";
+    this.permanent = permanent;
+  }
+}
+
+export const FETCH_BASE_URL: string = (
+  import.meta.env.VITE_FETCH_BASE_URL || (import.meta.env.DEV ? "/fixtures/mock-sources" : "")
+).replace(/\/+$/, "");
+
+/** false in a production build without VITE_FETCH_BASE_URL ("Auto-fetch latest" is hidden) */
+export const FETCH_ENABLED = FETCH_BASE_URL !== "";
+
+/* -----------------------------
+   Shared steps
+----------------------------- */
+
+function formatDDMMYYYY(iso: string) {
+  const [y, m, d] = iso.split("-");
+  return `${d}-${m}-${y}`;
+}
+
+/** Default validation: finite, not negative, not in the future, no implausible jump. */
+export function validateRows(rows: IncomingRow[], ctx: ValidationContext): ParsedSource {
+  const ok: IncomingRow[] = [];
+  const errors: string[] = [];
+  let prev = ctx.lastStored;
+
+  for (const r of [...rows].sort((a, b) => (a.date < b.date ? -1 : a.date > b.date ? 1 : 0))) {
+    const when = formatDDMMYYYY(r.date);
+    if (!Number.isFinite(r.value)) errors.push(`${when}: value is not a number`);
+    else if (r.value < 0) errors.push(`${when}: negative value ${r.value}`);
+    else if (r.date > ctx.today) errors.push(`${when}: date is in the future`);
+    else if (
+      ctx.maxJump > 0 &&
+      prev &&
+      prev.date < r.date &&
+      prev.value > 0 &&
+      Math.abs(r.value - prev.value) / prev.value > ctx.maxJump
+    ) {
+      errors.push(`${when}: ${r.value} is more than ${Math.round(ctx.maxJump * 100)}% away from ${prev.value} (${formatDDMMYYYY(prev.date)})`);
+    } else {
+      ok.push(r);
+      if (!prev || r.date > prev.date) prev = r;
+    }
+  }
+
+  return { rows: ok, errors };
+}
+
+/** Wide CSV (date + one column per series), same layout as public/data. */
+function parseCsvSource(body: string, target: FetchTarget): ParsedSource {
+  const ds = parseDataset(body);
+  const want = normalizeKey(target.valueColumnKey);
+  if (ds.columns.length > 1 && !ds.columns.some((c) => c.key === want)) {
+    throw new FetchError(`Source has no "${target.valueColumnKey}" column`, true);
+  }
+  const col = datasetColumn(ds, target.valueColumnKey);
+  if (!col) throw new FetchError("Source file has no value column", true);
+
+  const rows: IncomingRow[] = [];
+  for (const [date, value] of col.values) rows.push({ date, value });
+  return { rows, errors: [...ds.rowErrors, ...col.errors] };
+}
+
+/** JSON array of records: [{ "date": "...", "<valueColumnKey>": number }, ...] */
+function parseJsonSource(body: string, target: FetchTarget): ParsedSource {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(body);
+  } catch {
+    throw new FetchError("Source is not valid JSON", true);
+  }
+  const records = Array.isArray(raw) ? raw : Array.isArray((raw as { data?: unknown })?.data) ? (raw as { data: unknown[] }).data : null;
+  if (!records) throw new FetchError("Source JSON has no record list", true);
+
+  const want = normalizeKey(target.valueColumnKey);
+  const rows: IncomingRow[] = [];
+  const errors: string[] = [];
+
+  records.forEach((rec: unknown, i: number) => {
+    if (!rec || typeof rec !== "object") {
+      errors.push(`Record ${i + 1}: not an object`);
+      return;
+    }
+    const entries = Object.entries(rec as Record<string, unknown>);
+    const dateRaw = entries.find(([k]) => normalizeKey(k) === "date")?.[1];
+    const valueRaw = entries.find(([k]) => normalizeKey(k) === want)?.[1];
+    const date = typeof dateRaw === "string" ? parseISOKey(dateRaw) ?? parseInputDate(dateRaw) : null;
+    if (!date) {
+      errors.push(`Record ${i + 1}: invalid date "${String(dateRaw ?? "")}"`);
+      return;
+    }
+    if (valueRaw == null || valueRaw === "") return; // series not reported that day
+    const value = typeof valueRaw === "number" ? valueRaw : Number(String(valueRaw).replace(/,/g, ""));
+    if (!Number.isFinite(value)) {
+      errors.push(`Record ${i + 1}: invalid value "${String(valueRaw)}"`);
+      return;
+    }
+    rows.push({ date, value });
+  });
+
+  return { rows, errors };
+}
+
+/* -----------------------------
+   Adapters
+----------------------------- */
+
+export const FETCH_ADAPTERS = {
+  "cea-daily": {
+    id: "cea-daily",
+    label: "CEA daily generation report",
+    url: () => `${FETCH_BASE_URL}/cea/daily_generation.csv`,
+    parse: parseCsvSource,
+    validate: validateRows,
+    maxJump: 0.5,
+  },
+  "grid-india-daily": {
+    id: "grid-india-daily",
+    label: "Grid-India daily PSP summary",
+    url: () => `${FETCH_BASE_URL}/grid-india/psp_daily.csv`,
+    parse: parseCsvSource,
+    validate: validateRows,
+    maxJump: 0.5,
+  },
+  "iex-prices": {
+    id: "iex-prices",
+    label: "IEX market prices",
+    url: () => `${FETCH_BASE_URL}/iex/prices.json`,
+    parse: parseJsonSource,
+    validate: validateRows,
+    // prices can legitimately double overnight
+    maxJump: 0,
+  },
+} satisfies Record<string, FetchAdapter>;
+
+export type FetchSourceId = keyof typeof FETCH_ADAPTERS;
+
+export function getFetchAdapter(id: FetchSourceId): FetchAdapter {
+  return FETCH_ADAPTERS[id];
+}
+
+/* -----------------------------
+   Retry / backoff
+----------------------------- */
+
+export type RetryOptions = {
+  /** total attempts, including the first */
+  attempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+};
+
+export const DEFAULT_RETRY: RetryOptions = { attempts: 4, baseDelayMs: 800, maxDelayMs: 8000 };
+
+/** Exponential backoff with +/-20% jitter. */
+export function backoffDelay(attempt: number, opts: RetryOptions = DEFAULT_RETRY) {
+  const exp = Math.min(opts.maxDelayMs, opts.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(exp * (0.8 + Math.random() * 0.4));
+}
+
+function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    // "abort" never fires again for a signal that is already aborted
+    if (signal?.aborted) return reject(new DOMException("Aborted", "AbortError"));
+    const t = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(t);
+        reject(new DOMException("Aborted", "AbortError"));
+      },
+      { once: true }
+    );
+  });
+}
+
+async function fetchText(url: string, signal?: AbortSignal) {
+  let res: Response;
+  try {
+    res = await fetch(encodeURI(url), { cache: "no-cache", signal });
+  } catch (e) {
+    if ((e as Error)?.name === "AbortError") throw e;
+    throw new FetchError(`Network error (${(e as Error)?.message || "unreachable"})`, false);
+  }
+  // 408 / 429 / 5xx are worth another try; other 4xx are not
+  if (!res.ok) throw new FetchError(`HTTP ${res.status}`, res.status < 500 && res.status !== 408 && res.status !== 429);
+  return res.text();
+}
+
+/**
+ * Fetch + parse + validate one series from `adapter`.
+ * Throws FetchError after the last failed attempt (or an AbortError when `signal` fires).
+ */
+export async function runFetch(
+  adapter: FetchAdapter,
+  target: FetchTarget,
+  ctx: Omit<ValidationContext, "maxJump">,
+  opts: { retry?: RetryOptions; signal?: AbortSignal; onProgress?: (p: FetchProgress) => void } = {}
+): Promise<FetchResult> {
+  if (!FETCH_ENABLED) throw new FetchError("No fetch source configured (set VITE_FETCH_BASE_URL)", true);
+  const retry = opts.retry ?? DEFAULT_RETRY;
+  const url = adapter.url(target);
+
+  for (let attempt = 1; ; attempt++) {
+    opts.onProgress?.({ state: "fetching", attempt, attempts: retry.attempts, url });
+    try {
+      const body = await fetchText(url, opts.signal);
+      const parsed = adapter.parse(body, target);
+      if (!parsed.rows.length && !parsed.errors.length) throw new FetchError("Source returned no rows", true);
+      const checked = adapter.validate(parsed.rows, { ...ctx, maxJump: adapter.maxJump });
+      return { adapter, url, rows: checked.rows, issues: [...parsed.errors, ...checked.errors], attempts: attempt };
+    } catch (e) {
+      if ((e as Error)?.name === "AbortError") throw e;
+      const err = e instanceof FetchError ? e : new FetchError((e as Error)?.message || "Unknown error", true);
+      if (err.permanent || attempt >= retry.attempts) {
+        throw new FetchError(`${adapter.label}: ${err.message} (after ${attempt} attempt${attempt > 1 ? "s" : ""})`, err.permanent);
+      }
+      const delayMs = backoffDelay(attempt, retry);
+      opts.onProgress?.({ state: "retrying", attempt, attempts: retry.attempts, delayMs, reason: err.message });
+      await sleep(delayMs, opts.signal);
+    }
+  }
+}
+
+/**
+ * What a fetch result would write into `current`: the import diff, minus removed
+ * days (never re-added) and manual corrections (kept, counted in `kept`).
+ */
+export function fetchDiff(current: SeriesState, res: Pick<FetchResult, "rows" | "issues">) {
+  const diff: ImportDiff = diffImport(valuesOf(current.points), res.rows, res.issues);
+  diff.added = diff.added.filter((r) => !current.removed.has(r.date));
+  const kept = diff.changed.filter((c) => current.points.get(c.date)?.source === "manual").length;
+  diff.changed = diff.changed.filter((c) => current.points.get(c.date)?.source !== "manual");
+  return { diff, kept, written: rowsToApply(diff, "overwrite").length };
+}
@@ -0,0 +1,240 @@
+import { buildDayIndex, dayToIso, isoToDay } from "./dayIndex";
+
+/* -----------------------------
+   Short-term forecasts of a daily series (client-side)
+   - snaive:      seasonal naive: the same weekday a year earlier (364 days),
+                  or last week's value with under a year of history
+   - holtwinters: additive Holt-Winters, damped trend, weekly season;
+                  smoothing parameters picked by one-step SSE on a small grid
+   - regression:  least squares on trend + day of week + annual Fourier terms,
+                  with AR(1) residuals carried into the first days
+   - Fitted on the last FORECAST_HISTORY_DAYS; gaps are linearly interpolated
+   - Bands are normal intervals (80 / 95%) from each model's error variance
+----------------------------- */
+
+export type ForecastModel = "snaive" | "holtwinters" | "regression";
+
+export const FORECAST_MODEL_LABELS: Record<ForecastModel, string> = {
+  snaive: "Seasonal naive",
+  holtwinters: "Holt-Winters",
+  regression: "Regression (weekday + annual)",
+};
+
+export const DEFAULT_FORECAST_MODEL: ForecastModel = "holtwinters";
+
+export const FORECAST_HORIZONS = [30, 60, 90, 180];
+export const DEFAULT_FORECAST_HORIZON = 90;
+
+/** below this many days of history no model is fitted */
+export const MIN_FORECAST_HISTORY = 28;
+
+const FORECAST_HISTORY_DAYS = 3 * 365 + 1;
+const Z80 = 1.2816;
+const Z95 = 1.96;
+
+export function isForecastModel(x: unknown): x is ForecastModel {
+  return typeof x === "string" && x in FORECAST_MODEL_LABELS;
+}
+
+export type ForecastPoint = {
+  date: string;
+  mean: number;
+  lo80: number;
+  hi80: number;
+  lo95: number;
+  hi95: number;
+};
+
+export type Forecast = {
+  model: ForecastModel;
+  /** last actual day the model saw */
+  origin: string;
+  points: ForecastPoint[];
+};
+
+/** Regular daily array ending on the last point; interior gaps linearly interpolated */
+function regularHistory(history: Array<{ date: string; value: number }>) {
+  const lastDay = isoToDay(history[history.length - 1].date);
+  const idx = buildDayIndex(history.filter((p) => isoToDay(p.date) > lastDay - FORECAST_HISTORY_DAYS));
+  const y = Float64Array.from(idx.values);
+  let prev = -1;
+  for (let i = 0; i < y.length; i++) {
+    if (Number.isNaN(y[i])) continue;
+    for (let j = prev + 1; j < i; j++) y[j] = y[prev] + ((y[i] - y[prev]) * (j - prev)) / (i - prev);
+    prev = i;
+  }
+  return { start: idx.start, y };
+}
+
+type Fit = { mean: (h: number) => number; sd: (h: number) => number };
+
+function seasonalNaive(y: Float64Array): Fit {
+  const n = y.length;
+  const m = n >= 364 + MIN_FORECAST_HISTORY ? 364 : 7;
+  let ss = 0;
+  let k = 0;
+  for (let t = m; t < n; t++) {
+    const e = y[t] - y[t - m];
+    ss += e * e;
+    k++;
+  }
+  const sigma = k ? Math.sqrt(ss / k) : 0;
+  return {
+    mean: (h) => y[n - m + ((h - 1) % m)],
+    sd: (h) => sigma * Math.sqrt(Math.floor((h - 1) / m) + 1),
+  };
+}
+
+const HW_ALPHA = [0.05, 0.1, 0.2, 0.3, 0.5];
+const HW_BETA = [0, 0.01, 0.05];
+const HW_GAMMA = [0.05, 0.1, 0.2, 0.3];
+const HW_PHI = 0.98;
+const HW_PERIOD = 7;
+
+function runHoltWinters(y: Float64Array, alpha: number, beta: number, gamma: number) {
+  const m = HW_PERIOD;
+  const mean0 = y.slice(0, m).reduce((a, v) => a + v, 0) / m;
+  const mean1 = y.slice(m, 2 * m).reduce((a, v) => a + v, 0) / m;
+  let level = mean0;
+  let trend = (mean1 - mean0) / m;
+  const season = Array.from(y.slice(0, m), (v) => v - mean0);
+  let sse = 0;
+  let k = 0;
+  for (let t = m; t < y.length; t++) {
+    const s = season[t % m];
+    const e = y[t] - (level + HW_PHI * trend + s);
+    if (t >= 2 * m) {
+      sse += e * e;
+      k++;
+    }
+    const nextLevel = alpha * (y[t] - s) + (1 - alpha) * (level + HW_PHI * trend);
+    trend = beta * (nextLevel - level) + (1 - beta) * HW_PHI * trend;
+    level = nextLevel;
+    season[t % m] = gamma * (y[t] - level) + (1 - gamma) * s;
+  }
+  return { level, trend, season, sse, k };
+}
+
+function holtWinters(y: Float64Array): Fit {
+  const n = y.length;
+  let best: { alpha: number; beta: number; gamma: number; run: ReturnType<typeof runHoltWinters> } | null = null;
+  for (const alpha of HW_ALPHA)
+    for (const beta of HW_BETA)
+      for (const gamma of HW_GAMMA) {
+        const run = runHoltWinters(y, alpha, beta, gamma);
+        if (!best || run.sse < best.run.sse) best = { alpha, beta, gamma, run };
+      }
+  const { alpha, beta, gamma, run } = best!;
+  const sigma2 = run.k ? run.sse / run.k : 0;
+
+  // damped-trend multiplier and error-variance multiplier per step
+  const phiSum = (h: number) => (HW_PHI * (1 - HW_PHI ** h)) / (1 - HW_PHI);
+  return {
+    mean: (h) => run.level + phiSum(h) * run.trend + run.season[(n - 1 + h) % HW_PERIOD],
+    sd: (h) => {
+      let v = 1;
+      for (let j = 1; j < h; j++) {
+        const c = alpha * (1 + beta * phiSum(j)) + (j % HW_PERIOD === 0 ? gamma : 0);
+        v += c * c;
+      }
+      return Math.sqrt(sigma2 * v);
+    },
+  };
+}
+
+const FOURIER_TERMS = 3;
+
+/** Solves A x = b (A symmetric positive definite, small) by Gaussian elimination */
+function solve(A: number[][], b: number[]) {
+  const n = b.length;
+  const M = A.map((row, i) => [...row, b[i]]);
+  for (let c = 0; c < n; c++) {
+    let p = c;
+    for (let r = c + 1; r < n; r++) if (Math.abs(M[r][c]) > Math.abs(M[p][c])) p = r;
+    [M[c], M[p]] = [M[p], M[c]];
+    const d = M[c][c] || 1e-12;
+    for (let r = 0; r < n; r++) {
+      if (r === c) continue;
+      const f = M[r][c] / d;
+      if (f) for (let k = c; k <= n; k++) M[r][k] -= f * M[c][k];
+    }
+  }
+  return M.map((row, i) => row[n] / (row[i] || 1e-12));
+}
+
+function regression(y: Float64Array, start: number): Fit {
+  const n = y.length;
+  const annual = n >= 365;
+  const features = (t: number) => {
+    const day = start + t;
+    const dow = (day + 3) % 7; // 0 = Monday
+    const x = [1, t / 365];
+    for (let d = 1; d < 7; d++) x.push(dow === d ? 1 : 0);
+    if (annual)
+      for (let k = 1; k <= FOURIER_TERMS; k++) {
+        const a = (2 * Math.PI * k * day) / 365.25;
+        x.push(Math.sin(a), Math.cos(a));
+      }
+    return x;
+  };
+
+  const p = features(0).length;
+  const XtX = Array.from({ length: p }, () => new Array(p).fill(0));
+  const Xty = new Array(p).fill(0);
+  for (let t = 0; t < n; t++) {
+    const x = features(t);
+    for (let i = 0; i < p; i++) {
+      Xty[i] += x[i] * y[t];
+      for (let j = 0; j < p; j++) XtX[i][j] += x[i] * x[j];
+    }
+  }
+  for (let i = 0; i < p; i++) XtX[i][i] += 1e-9;
+  const beta = solve(XtX, Xty);
+  const fitted = (t: number) => features(t).reduce((a, v, i) => a + v * beta[i], 0);
+
+  // AR(1) on the residuals
+  const e = Array.from(y, (v, t) => v - fitted(t));
+  let num = 0;
+  let den = 0;
+  for (let t = 1; t < n; t++) {
+    num += e[t] * e[t - 1];
+    den += e[t - 1] * e[t - 1];
+  }
+  const rho = den > 0 ? Math.min(0.99, Math.max(0, num / den)) : 0;
+  let ss = 0;
+  for (let t = 1; t < n; t++) ss += (e[t] - rho * e[t - 1]) ** 2;
+  const sigma2 = n > 1 ? ss / (n - 1) : 0;
+
+  return {
+    mean: (h) => fitted(n - 1 + h) + rho ** h * e[n - 1],
+    sd: (h) => Math.sqrt((sigma2 * (1 - rho ** (2 * h))) / (1 - rho * rho || 1)),
+  };
+}
+
+/** Forecast `horizon` days past the last point of `history` (sorted, one value per date); null with too little history */
+export function forecastSeries(
+  history: Array<{ date: string; value: number }>,
+  model: ForecastModel,
+  horizon: number
+): Forecast | null {
+  if (history.length < MIN_FORECAST_HISTORY) return null;
+  const { start, y } = regularHistory(history);
+  if (y.length < MIN_FORECAST_HISTORY) return null;
+
+  const fit = model === "snaive" ? seasonalNaive(y) : model === "holtwinters" ? holtWinters(y) : regression(y, start);
+  const lastDay = start + y.length - 1;
+  const points: ForecastPoint[] = [];
+  for (let h = 1; h <= horizon; h++) {
+    const mean = fit.mean(h);
+    const sd = fit.sd(h);
+    points.push({
+      date: dayToIso(lastDay + h),
+      mean,
+      lo80: mean - Z80 * sd,
+      hi80: mean + Z80 * sd,
+      lo95: mean - Z95 * sd,
+      hi95: mean + Z95 * sd,
+    });
+  }
+  return { model, origin: dayToIso(lastDay), points };
+}
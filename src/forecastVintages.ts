@@ -0,0 +1,209 @@
+import { forecastSeries, FORECAST_MODEL_LABELS } from "./forecast";
+import type { Forecast, ForecastModel } from "./forecast";
+import { dayToIso, isoToDay } from "./dayIndex";
+
+/* -----------------------------
+   Forecast vintages + accuracy
+   - A vintage is the forecast every model made from one origin (last actual
+     day), saved when that origin is first seen; later edits / imports never
+     rewrite it, so it is scored against what actually arrived afterwards
+   - Values are in the stored unit; every score is relative (%), so the
+     display unit doesn't matter
+   - Scores per model and horizon bucket: MAPE, bias (mean signed % error,
+     + = forecast too high) and the share of actuals inside the 80 / 95% bands
+   - Backtest: rolling origins over the history, each fitted only on the days
+     up to its origin and scored like a vintage
+----------------------------- */
+
+export const VINTAGE_HORIZON = 180;
+export const MAX_VINTAGES = 360;
+
+export const FORECAST_MODELS = Object.keys(FORECAST_MODEL_LABELS) as ForecastModel[];
+
+export const HORIZON_BUCKETS = [
+  { from: 1, to: 7, label: "1–7 days" },
+  { from: 8, to: 30, label: "8–30 days" },
+  { from: 31, to: 90, label: "31–90 days" },
+  { from: 91, to: 180, label: "91–180 days" },
+];
+
+export type ForecastVintage = {
+  model: ForecastModel;
+  /** last actual day the model saw */
+  origin: string;
+  /** epoch ms */
+  createdAt: number;
+  /** day origin + 1 + i */
+  mean: number[];
+  lo80: number[];
+  hi80: number[];
+  lo95: number[];
+  hi95: number[];
+};
+
+export type ForecastVintages = { vintages: ForecastVintage[] };
+
+export function emptyVintages(): ForecastVintages {
+  return { vintages: [] };
+}
+
+export function toVintage(f: Forecast, createdAt: number): ForecastVintage {
+  const points = f.points.slice(0, VINTAGE_HORIZON);
+  return {
+    model: f.model,
+    origin: f.origin,
+    createdAt,
+    mean: points.map((p) => p.mean),
+    lo80: points.map((p) => p.lo80),
+    hi80: points.map((p) => p.hi80),
+    lo95: points.map((p) => p.lo95),
+    hi95: points.map((p) => p.hi95),
+  };
+}
+
+/** Models without a vintage at `origin` yet */
+export function missingVintageModels(store: ForecastVintages, origin: string) {
+  return FORECAST_MODELS.filter((m) => !store.vintages.some((v) => v.model === m && v.origin === origin));
+}
+
+/** Adds vintages (first one per model + origin wins), keeping the newest MAX_VINTAGES */
+export function addVintages(store: ForecastVintages, incoming: ForecastVintage[]): ForecastVintages {
+  const fresh = incoming.filter((n) => !store.vintages.some((v) => v.model === n.model && v.origin === n.origin));
+  if (!fresh.length) return store;
+  const vintages = [...store.vintages, ...fresh].sort((a, b) => (a.origin < b.origin ? -1 : a.origin > b.origin ? 1 : 0));
+  return { vintages: vintages.slice(-MAX_VINTAGES) };
+}
+
+/** Vintages of `models` from the last day of `history` (sorted, stored unit) */
+export function vintagesFor(history: Array<{ date: string; value: number }>, models: ForecastModel[], createdAt: number) {
+  const out: ForecastVintage[] = [];
+  for (const m of models) {
+    const f = forecastSeries(history, m, VINTAGE_HORIZON);
+    if (f) out.push(toVintage(f, createdAt));
+  }
+  return out;
+}
+
+/** Forecasts from `history` (sorted, stored unit) for every model still missing at its last day */
+export function newVintages(store: ForecastVintages, history: Array<{ date: string; value: number }>, createdAt: number) {
+  if (!history.length) return [];
+  return vintagesFor(history, missingVintageModels(store, history[history.length - 1].date), createdAt);
+}
+
+/* -----------------------------
+   Scoring
+----------------------------- */
+
+export type AccuracyCell = {
+  /** forecast days with an actual */
+  n: number;
+  mape: number | null;
+  bias: number | null;
+  coverage80: number | null;
+  coverage95: number | null;
+};
+
+export type AccuracyTable = Record<ForecastModel, AccuracyCell[]>;
+
+type Acc = { n: number; ape: number; pe: number; in80: number; in95: number };
+
+function emptyAcc(): Record<ForecastModel, Acc[]> {
+  return Object.fromEntries(
+    FORECAST_MODELS.map((m) => [m, HORIZON_BUCKETS.map(() => ({ n: 0, ape: 0, pe: 0, in80: 0, in95: 0 }))])
+  ) as Record<ForecastModel, Acc[]>;
+}
+
+function bucketOf(h: number) {
+  return HORIZON_BUCKETS.findIndex((b) => h >= b.from && h <= b.to);
+}
+
+/** Adds every day of `v` that has a (non-zero) actual */
+function accumulate(acc: Record<ForecastModel, Acc[]>, v: ForecastVintage, actual: Map<string, number>) {
+  const originDay = isoToDay(v.origin);
+  for (let i = 0; i < v.mean.length; i++) {
+    const b = bucketOf(i + 1);
+    const a = actual.get(dayToIso(originDay + 1 + i));
+    if (b < 0 || a == null || a === 0) continue;
+    const cell = acc[v.model][b];
+    const pe = ((v.mean[i] - a) / Math.abs(a)) * 100;
+    cell.n++;
+    cell.ape += Math.abs(pe);
+    cell.pe += pe;
+    if (a >= v.lo80[i] && a <= v.hi80[i]) cell.in80++;
+    if (a >= v.lo95[i] && a <= v.hi95[i]) cell.in95++;
+  }
+}
+
+function finish(acc: Record<ForecastModel, Acc[]>): AccuracyTable {
+  return Object.fromEntries(
+    FORECAST_MODELS.map((m) => [
+      m,
+      acc[m].map((c) =>
+        c.n
+          ? { n: c.n, mape: c.ape / c.n, bias: c.pe / c.n, coverage80: (c.in80 / c.n) * 100, coverage95: (c.in95 / c.n) * 100 }
+          : { n: 0, mape: null, bias: null, coverage80: null, coverage95: null }
+      ),
+    ])
+  ) as AccuracyTable;
+}
+
+/** Scores saved vintages against the actuals that have arrived since */
+export function scoreVintages(store: ForecastVintages, actual: Map<string, number>): AccuracyTable {
+  const acc = emptyAcc();
+  for (const v of store.vintages) accumulate(acc, v, actual);
+  return finish(acc);
+}
+
+export type BacktestOptions = {
+  /** number of rolling origins */
+  origins: number;
+  /** days between origins */
+  step: number;
+  horizon: number;
+};
+
+export const DEFAULT_BACKTEST: BacktestOptions = { origins: 12, step: 14, horizon: 90 };
+
+/** Rolling-origin backtest of every model over `history` (sorted, one value per date) */
+export function backtest(history: Array<{ date: string; value: number }>, opts: BacktestOptions = DEFAULT_BACKTEST) {
+  const acc = emptyAcc();
+  const actual = new Map(history.map((p) => [p.date, p.value] as const));
+  let origins = 0;
+  if (history.length) {
+    const lastDay = isoToDay(history[history.length - 1].date);
+    for (let k = 0; k < opts.origins; k++) {
+      const origin = dayToIso(lastDay - opts.horizon - k * opts.step);
+      // history up to the origin (binary search on the sorted dates)
+      let lo = 0;
+      let hi = history.length;
+      while (lo < hi) {
+        const mid = (lo + hi) >> 1;
+        if (history[mid].date <= origin) lo = mid + 1;
+        else hi = mid;
+      }
+      const fit = history.slice(0, lo);
+      if (!fit.length || fit[fit.length - 1].date !== origin) continue;
+      let used = false;
+      for (const m of FORECAST_MODELS) {
+        const f = forecastSeries(fit, m, opts.horizon);
+        if (!f) continue;
+        accumulate(acc, toVintage(f, 0), actual);
+        used = true;
+      }
+      if (used) origins++;
+    }
+  }
+  return { table: finish(acc), origins };
+}
+
+/** Model with the lowest MAPE averaged over the horizon buckets every model was scored on; null without scores */
+export function bestModel(table: AccuracyTable): ForecastModel | null {
+  const buckets = HORIZON_BUCKETS.map((_, b) => b).filter((b) => FORECAST_MODELS.every((m) => table[m][b].mape != null));
+  if (!buckets.length) return null;
+  let best: { model: ForecastModel; score: number } | null = null;
+  for (const m of FORECAST_MODELS) {
+    const score = buckets.reduce((a, b) => a + (table[m][b].mape as number), 0) / buckets.length;
+    if (!best || score < best.score) best = { model: m, score };
+  }
+  return best?.model ?? null;
+}
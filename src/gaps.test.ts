@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { isoToDay } from "./dayIndex";
+import { DEFAULT_GAP_POLICY, describeGapPolicy, fillGaps, windowValue, windowValueDays } from "./gaps";
+
+const p = (date: string, value: number) => ({ date, value });
+
+describe("fillGaps", () => {
+  const sorted = [p("2024-04-01", 10), p("2024-04-04", 40), p("2024-04-05", 50)];
+
+  it("leaves the series alone without a fill mode", () => {
+    const s = fillGaps(sorted, "none");
+    expect(s.points).toBe(sorted);
+    expect(s.filled.size).toBe(0);
+  });
+
+  it("interpolates interior gaps linearly or carries the last value forward", () => {
+    const linear = fillGaps(sorted, "linear");
+    expect(linear.points.map((x) => x.value)).toEqual([10, 20, 30, 40, 50]);
+    expect(Array.from(linear.filled)).toEqual(["2024-04-02", "2024-04-03"]);
+
+    expect(fillGaps(sorted, "carry-forward").lookup.get("2024-04-03")).toBe(10);
+  });
+
+  it("takes the same weekday a week earlier for the seasonal fill, else linear", () => {
+    // 2024-03-27 .. 03-31 are filled linearly (nothing a week before them), then reused
+    const s = fillGaps([p("2024-03-26", 100), p("2024-04-01", 10), p("2024-04-04", 40)], "seasonal");
+    expect(s.lookup.get("2024-03-27")).toBe(85);
+    expect(s.lookup.get("2024-04-02")).toBe(100);
+    expect(s.lookup.get("2024-04-03")).toBe(85);
+  });
+
+  it("never fills gaps longer than MAX_FILL_GAP_DAYS", () => {
+    const s = fillGaps([p("2024-01-01", 1), p("2024-03-01", 2)], "linear");
+    expect(s.filled.size).toBe(0);
+    expect(s.points).toHaveLength(2);
+  });
+});
+
+describe("windowValue", () => {
+  // 1..8 April at 10 per day, 9 and 10 April missing
+  const days = Array.from({ length: 8 }, (_, i) => p(`2024-04-0${i + 1}`, 10));
+  const series = fillGaps(days, "none");
+  const policy = DEFAULT_GAP_POLICY;
+
+  it("sums and averages a fully covered window", () => {
+    expect(windowValue(series, "2024-04-01", "2024-04-08", "sum", policy)).toEqual({ value: 80, coverage: 1, incomplete: false });
+    expect(windowValue(series, "2024-04-01", "2024-04-08", "avg", policy).value).toBe(10);
+  });
+
+  it("scales sums pro-rata at or above the coverage threshold and flags them", () => {
+    expect(windowValue(series, "2024-04-01", "2024-04-10", "sum", policy)).toEqual({ value: 100, coverage: 0.8, incomplete: true });
+    expect(windowValue(series, "2024-04-01", "2024-04-10", "avg", policy).value).toBe(10);
+  });
+
+  it("gives no value below the threshold or for an empty window", () => {
+    expect(windowValue(series, "2024-04-01", "2024-04-10", "sum", { ...policy, minCoverage: 0.9 }).value).toBeNull();
+    expect(windowValue(series, "2024-05-01", "2024-05-31", "sum", policy)).toEqual({ value: null, coverage: 0, incomplete: true });
+    expect(windowValue(series, "2024-04-05", "2024-04-01", "sum", policy).value).toBeNull();
+  });
+
+  it("flags windows that rest on interpolated days", () => {
+    const filled = fillGaps([p("2024-04-01", 10), p("2024-04-03", 30)], "linear");
+    expect(windowValue(filled, "2024-04-01", "2024-04-03", "sum", policy)).toEqual({ value: 60, coverage: 1, incomplete: true });
+  });
+
+  it("leaves excluded days out of the window entirely", () => {
+    const w = windowValueDays(series, isoToDay("2024-04-01"), isoToDay("2024-04-10"), "sum", policy, [isoToDay("2024-04-09")]);
+    expect(w.coverage).toBeCloseTo(8 / 9);
+    expect(w.value).toBeCloseTo(90);
+  });
+});
+
+describe("describeGapPolicy", () => {
+  it("names the threshold and the fill", () => {
+    expect(describeGapPolicy(DEFAULT_GAP_POLICY)).toBe("min 80% of days");
+    expect(describeGapPolicy({ minCoverage: 0.5, fill: "linear" })).toBe("min 50% of days · linear fill");
+  });
+});
@@ -0,0 +1,144 @@
+/* -----------------------------
+   Missing-data rules (rolling views, KPIs, weekly / FY tables)
+   - A window's value is null (a line break, "—" in tables) when fewer than
+     `minCoverage` of its calendar days have data
+   - Above the threshold but below 100%, averages use the days present and
+     sums are scaled pro-rata to the full window; either way the value is
+     flagged as incomplete
+   - Optional interpolation fills interior gaps (never past the last date)
+     before any window is computed; filled days also flag a window incomplete
+   - Windows read the series' day index (prefix sums), so any window is O(1)
+----------------------------- */
+
+import { buildDayIndex, isoToDay, rangeTotals } from "./dayIndex";
+import type { DayIndex } from "./dayIndex";
+
+export type FillMode = "none" | "linear" | "carry-forward" | "seasonal";
+
+export const FILL_MODE_LABELS: Record<FillMode, string> = {
+  none: "No interpolation",
+  linear: "Linear",
+  "carry-forward": "Carry forward",
+  seasonal: "Seasonal (same weekday last week)",
+};
+
+export type GapPolicy = {
+  /** 0..1 share of calendar days a window needs to produce a value */
+  minCoverage: number;
+  fill: FillMode;
+};
+
+export const DEFAULT_GAP_POLICY: GapPolicy = { minCoverage: 0.8, fill: "none" };
+
+// Gaps longer than this are left empty even when interpolating
+export const MAX_FILL_GAP_DAYS = 31;
+
+type Point = { date: string; value: number };
+
+function isoPlusDays(iso: string, days: number) {
+  const d = new Date(iso + "T00:00:00Z");
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+function daysBetween(a: string, b: string) {
+  return Math.round((Date.parse(b + "T00:00:00Z") - Date.parse(a + "T00:00:00Z")) / 86400000);
+}
+
+export type FilledSeries = {
+  /** observed + interpolated points, sorted */
+  points: Point[];
+  lookup: Map<string, number>;
+  /** dates whose value was interpolated */
+  filled: Set<string>;
+  /** prefix sums / counts by day number */
+  index: DayIndex;
+};
+
+export function fillGaps(sorted: Point[], mode: FillMode): FilledSeries {
+  const lookup = new Map(sorted.map((p) => [p.date, p.value] as const));
+  const filled = new Set<string>();
+  if (mode === "none" || sorted.length < 2) return { points: sorted, lookup, filled, index: buildDayIndex(sorted) };
+
+  for (let i = 1; i < sorted.length; i++) {
+    const a = sorted[i - 1];
+    const b = sorted[i];
+    const span = daysBetween(a.date, b.date);
+    if (span <= 1 || span - 1 > MAX_FILL_GAP_DAYS) continue;
+
+    for (let k = 1; k < span; k++) {
+      const d = isoPlusDays(a.date, k);
+      let v: number | undefined;
+      if (mode === "linear") v = a.value + ((b.value - a.value) * k) / span;
+      else if (mode === "carry-forward") v = a.value;
+      else {
+        // seasonal: same weekday a week earlier (observed or already filled), else linear
+        v = lookup.get(isoPlusDays(d, -7));
+        if (v == null) v = a.value + ((b.value - a.value) * k) / span;
+      }
+      lookup.set(d, v);
+      filled.add(d);
+    }
+  }
+
+  const points = Array.from(lookup.entries())
+    .map(([date, value]) => ({ date, value }))
+    .sort((x, y) => (x.date < y.date ? -1 : x.date > y.date ? 1 : 0));
+  return { points, lookup, filled, index: buildDayIndex(points, filled) };
+}
+
+export type WindowValue = {
+  value: number | null;
+  /** share of calendar days with data (observed or filled) */
+  coverage: number;
+  /** true when the value rests on missing or interpolated days */
+  incomplete: boolean;
+};
+
+/** Sum or average over [startIso, endIso] under the gap policy. */
+export function windowValue(
+  series: FilledSeries,
+  startIso: string,
+  endIso: string,
+  mode: "sum" | "avg",
+  policy: GapPolicy
+): WindowValue {
+  if (startIso > endIso) return { value: null, coverage: 0, incomplete: true };
+  return windowValueDays(series, isoToDay(startIso), isoToDay(endIso), mode, policy);
+}
+
+/**
+ * Same as windowValue, over day numbers (see dayIndex.ts).
+ * `exclude` (optional) lists days inside the window that don't count at all (e.g. 29 Feb).
+ */
+export function windowValueDays(
+  series: FilledSeries,
+  startDay: number,
+  endDay: number,
+  mode: "sum" | "avg",
+  policy: GapPolicy,
+  exclude?: number[]
+): WindowValue {
+  let { sum, count, filled, expected } = rangeTotals(series.index, startDay, endDay);
+  for (const day of exclude ?? []) {
+    if (day < startDay || day > endDay) continue;
+    const t = rangeTotals(series.index, day, day);
+    sum -= t.sum;
+    count -= t.count;
+    filled -= t.filled;
+    expected -= 1;
+  }
+  if (!expected) return { value: null, coverage: 0, incomplete: true };
+
+  const coverage = count / expected;
+  const incomplete = count < expected || filled > 0;
+  if (!count || coverage + 1e-9 < policy.minCoverage) return { value: null, coverage, incomplete: true };
+
+  const value = mode === "avg" ? sum / count : (sum * expected) / count;
+  return { value, coverage, incomplete };
+}
+
+export function describeGapPolicy(policy: GapPolicy) {
+  const cov = `min ${Math.round(policy.minCoverage * 100)}% of days`;
+  return policy.fill === "none" ? cov : `${cov} · ${FILL_MODE_LABELS[policy.fill].toLowerCase()} fill`;
+}
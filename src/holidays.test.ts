@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { isoToDay } from "./dayIndex";
+import { festivalPriorDay, HOLIDAY_CALENDAR_YEARS, holidaysBetween } from "./holidays";
+
+describe("holiday calendar", () => {
+  it("lists national holidays and the major festivals of a year", () => {
+    const names = holidaysBetween("2024-01-01", "2024-12-31").map((h) => h.name);
+    expect(names).toEqual([
+      "Makar Sankranti / Pongal",
+      "Republic Day",
+      "Holi",
+      "Good Friday",
+      "Eid al-Fitr",
+      "Eid al-Adha",
+      "Independence Day",
+      "Ganesh Chaturthi",
+      "Gandhi Jayanti",
+      "Dussehra",
+      "Diwali",
+      "Christmas",
+    ]);
+  });
+
+  it("computes Good Friday from Easter", () => {
+    const gf = (y: number) => holidaysBetween(`${y}-01-01`, `${y}-12-31`).find((h) => h.name === "Good Friday")?.date;
+    expect([gf(2019), gf(2024), gf(2025)]).toEqual(["2019-04-19", "2024-03-29", "2025-04-18"]);
+  });
+
+  it("aligns days near Eid with last year's Eid", () => {
+    // Eid al-Fitr 2024-04-11, 2023-04-22: two days after -> two days after
+    expect(festivalPriorDay(isoToDay("2024-04-13"))).toBe(isoToDay("2023-04-24"));
+  });
+
+  it("has nothing outside the covered years", () => {
+    expect(holidaysBetween(`${HOLIDAY_CALENDAR_YEARS.to + 1}-01-01`, `${HOLIDAY_CALENDAR_YEARS.to + 1}-12-31`)).toEqual([]);
+    expect(festivalPriorDay(isoToDay(`${HOLIDAY_CALENDAR_YEARS.from}-10-01`) + 20)).toBeNull();
+  });
+});
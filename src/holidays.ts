@@ -0,0 +1,154 @@
+import { dayToIso, isoToDay } from "./dayIndex";
+
+/* -----------------------------
+   Indian holiday / festival calendar (bundled, no network)
+   - Fixed-date holidays (national days, Christmas) + the moving festivals by year
+   - Moving festivals shift by up to ~3 weeks between years (Eid by ~11 days
+     a year), which shows up as large artificial YoY swings in daily demand /
+     generation; the "festival" YoY basis (yoy.ts) compares days near one
+     with the same offset from last year's instead of the same calendar date
+   - Covers HOLIDAY_CALENDAR_YEARS only: outside it there are no holiday bands
+     and the festival basis uses calendar dates (the UI says so)
+   - Eid dates follow the moon sighting: these are the central government's
+     gazetted dates (expected dates for years not yet gazetted)
+   - Extend FESTIVAL_DATES (and LAST_YEAR) as new years are announced
+----------------------------- */
+
+export type HolidayKind = "national" | "festival";
+
+export type Holiday = { date: string; name: string; kind: HolidayKind };
+
+export type FestivalId =
+  | "makar-sankranti"
+  | "holi"
+  | "good-friday"
+  | "eid-al-fitr"
+  | "eid-al-adha"
+  | "ganesh-chaturthi"
+  | "dussehra"
+  | "diwali";
+
+export const FESTIVAL_NAMES: Record<FestivalId, string> = {
+  "makar-sankranti": "Makar Sankranti / Pongal",
+  holi: "Holi",
+  "good-friday": "Good Friday",
+  "eid-al-fitr": "Eid al-Fitr",
+  "eid-al-adha": "Eid al-Adha",
+  "ganesh-chaturthi": "Ganesh Chaturthi",
+  dussehra: "Dussehra",
+  diwali: "Diwali",
+};
+
+const FIRST_YEAR = 2015;
+const LAST_YEAR = 2027;
+
+export const HOLIDAY_CALENDAR_YEARS = { from: FIRST_YEAR, to: LAST_YEAR };
+
+/** Easter Sunday - 2 days (anonymous Gregorian computus) */
+function goodFriday(y: number) {
+  const a = y % 19;
+  const b = Math.floor(y / 100);
+  const c = y % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return dayToIso(isoToDay(`${y}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`) - 2);
+}
+
+const FESTIVAL_DATES: Record<FestivalId, string[]> = {
+  "makar-sankranti": [
+    "2015-01-15", "2016-01-15", "2017-01-14", "2018-01-14", "2019-01-15", "2020-01-15", "2021-01-14",
+    "2022-01-14", "2023-01-15", "2024-01-15", "2025-01-14", "2026-01-14", "2027-01-15",
+  ],
+  holi: [
+    "2015-03-06", "2016-03-24", "2017-03-13", "2018-03-02", "2019-03-21", "2020-03-10", "2021-03-29",
+    "2022-03-18", "2023-03-08", "2024-03-25", "2025-03-14", "2026-03-04", "2027-03-22",
+  ],
+  "good-friday": Array.from({ length: LAST_YEAR - FIRST_YEAR + 1 }, (_, i) => goodFriday(FIRST_YEAR + i)),
+  "eid-al-fitr": [
+    "2015-07-18", "2016-07-07", "2017-06-26", "2018-06-16", "2019-06-05", "2020-05-25", "2021-05-14",
+    "2022-05-03", "2023-04-22", "2024-04-11", "2025-03-31", "2026-03-21", "2027-03-10",
+  ],
+  "eid-al-adha": [
+    "2015-09-25", "2016-09-13", "2017-09-02", "2018-08-22", "2019-08-12", "2020-08-01", "2021-07-21",
+    "2022-07-10", "2023-06-29", "2024-06-17", "2025-06-07", "2026-05-27", "2027-05-17",
+  ],
+  "ganesh-chaturthi": [
+    "2015-09-17", "2016-09-05", "2017-08-25", "2018-09-13", "2019-09-02", "2020-08-22", "2021-09-10",
+    "2022-08-31", "2023-09-19", "2024-09-07", "2025-08-27", "2026-09-14", "2027-09-04",
+  ],
+  dussehra: [
+    "2015-10-22", "2016-10-11", "2017-09-30", "2018-10-19", "2019-10-08", "2020-10-25", "2021-10-15",
+    "2022-10-05", "2023-10-24", "2024-10-12", "2025-10-02", "2026-10-20", "2027-10-09",
+  ],
+  diwali: [
+    "2015-11-11", "2016-10-30", "2017-10-19", "2018-11-07", "2019-10-27", "2020-11-14", "2021-11-04",
+    "2022-10-24", "2023-11-12", "2024-10-31", "2025-10-20", "2026-11-08", "2027-10-29",
+  ],
+};
+
+/** MM-DD; same date every year, so the calendar YoY basis already lines them up */
+const FIXED_HOLIDAYS: Array<{ md: string; name: string; kind: HolidayKind }> = [
+  { md: "01-26", name: "Republic Day", kind: "national" },
+  { md: "08-15", name: "Independence Day", kind: "national" },
+  { md: "10-02", name: "Gandhi Jayanti", kind: "national" },
+  { md: "12-25", name: "Christmas", kind: "festival" },
+];
+
+/** Days either side of a festival that are compared festival-to-festival */
+export const FESTIVAL_WINDOW_DAYS = 15;
+
+// year -> festival -> day number
+const festivalDays = new Map<number, Map<FestivalId, number>>();
+for (const id of Object.keys(FESTIVAL_DATES) as FestivalId[]) {
+  for (const iso of FESTIVAL_DATES[id]) {
+    const y = Number(iso.slice(0, 4));
+    if (!festivalDays.has(y)) festivalDays.set(y, new Map());
+    festivalDays.get(y)!.set(id, isoToDay(iso));
+  }
+}
+
+/** Holidays in [fromIso, toIso], sorted by date */
+export function holidaysBetween(fromIso: string, toIso: string): Holiday[] {
+  const out: Holiday[] = [];
+  const y0 = Math.max(FIRST_YEAR, Number(fromIso.slice(0, 4)));
+  const y1 = Math.min(LAST_YEAR, Number(toIso.slice(0, 4)));
+  for (let y = y0; y <= y1; y++) {
+    for (const h of FIXED_HOLIDAYS) out.push({ date: `${y}-${h.md}`, name: h.name, kind: h.kind });
+    for (const [id, day] of festivalDays.get(y) ?? []) out.push({ date: dayToIso(day), name: FESTIVAL_NAMES[id], kind: "festival" });
+  }
+  return out
+    .filter((h) => h.date >= fromIso && h.date <= toIso)
+    .sort((a, b) => (a.date < b.date ? -1 : a.date > b.date ? 1 : 0));
+}
+
+/** Nearest festival within FESTIVAL_WINDOW_DAYS of `day` (day number), with the offset from it */
+export function nearestFestival(day: number): { id: FestivalId; year: number; offset: number } | null {
+  const y = Number(dayToIso(day).slice(0, 4));
+  let best: { id: FestivalId; year: number; offset: number } | null = null;
+  // a window can cross the new year
+  for (const year of [y - 1, y, y + 1]) {
+    for (const [id, f] of festivalDays.get(year) ?? []) {
+      const offset = day - f;
+      if (Math.abs(offset) > FESTIVAL_WINDOW_DAYS) continue;
+      if (!best || Math.abs(offset) < Math.abs(best.offset)) best = { id, year, offset };
+    }
+  }
+  return best;
+}
+
+/** Same offset from the same festival a year earlier; null outside festival windows / HOLIDAY_CALENDAR_YEARS */
+export function festivalPriorDay(day: number): number | null {
+  const f = nearestFestival(day);
+  if (!f) return null;
+  const prev = festivalDays.get(f.year - 1)?.get(f.id);
+  return prev == null ? null : prev + f.offset;
+}
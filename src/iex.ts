@@ -0,0 +1,302 @@
+import { numberText, parseCsv } from "./csv";
+import type { CsvDelimiter } from "./csv";
+import { parseInputDate } from "./dates";
+import { convertValue } from "./units";
+import type { UnitId } from "./units";
+
+/* -----------------------------
+   IEX market snapshot (DAM / RTM)
+   - Reads the "Market Snapshot" download (.csv / .xls / .xlsx) in either
+     interval: one row per day (MWh) or one row per time block (MW)
+   - Block files are rolled up to days: volumes = MW × block hours,
+     MCP = average of the blocks (what IEX reports as the daily average)
+   - MCP goes into the price series of the market's tab; purchase bids,
+     sell bids and MCV are kept as related series next to it
+     (`${seriesId}.${field}`, stored in MWh like the file)
+----------------------------- */
+
+export type IexMarket = "DAM" | "RTM";
+
+export const IEX_MARKET_LABELS: Record<IexMarket, string> = {
+  DAM: "Day-Ahead Market",
+  RTM: "Real-Time Market",
+};
+
+export type IexVolumeField = "purchaseBids" | "sellBids" | "mcv";
+
+export const IEX_VOLUME_FIELDS: Record<IexVolumeField, { label: string; unit: UnitId }> = {
+  purchaseBids: { label: "Purchase bids", unit: "MWh" },
+  sellBids: { label: "Sell bids", unit: "MWh" },
+  mcv: { label: "Cleared volume (MCV)", unit: "MWh" },
+};
+
+export const IEX_PRICE_UNIT: UnitId = "Rs/MWh";
+
+export type IexDay = {
+  date: string;
+  /** MWh */
+  purchaseBids: number | null;
+  sellBids: number | null;
+  mcv: number | null;
+  /** Rs/MWh */
+  mcp: number | null;
+};
+
+export type IexSnapshot = {
+  fileName: string;
+  /** market named in the file name / title rows (null when it doesn't say) */
+  market: IexMarket | null;
+  days: IexDay[];
+  /** time blocks per day for block files, null for daily files */
+  blocksPerDay: number | null;
+  warnings: string[];
+};
+
+export function marketSeriesId(seriesId: string, field: IexVolumeField) {
+  return `${seriesId}.${field}`;
+}
+
+/** Inverse of marketSeriesId (null for ordinary series ids). */
+export function parseMarketSeriesId(id: string): { seriesId: string; field: IexVolumeField } | null {
+  const m = id.match(/^(.+)\.(purchaseBids|sellBids|mcv)$/);
+  return m ? { seriesId: m[1], field: m[2] as IexVolumeField } : null;
+}
+
+/* -----------------------------
+   Parsing
+----------------------------- */
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+function toNumber(cell: string, delimiter: CsvDelimiter) {
+  const t = numberText(cell ?? "", delimiter);
+  return /^-?\d+(\.\d+)?$/.test(t) ? Number(t) : null;
+}
+
+/** "01-04-2024", "01/04/2024", "2024-04-01", "01-Apr-2024"; a range keeps its first date. */
+function parseSnapshotDate(cell: string) {
+  const t = (cell ?? "").trim().split(/\s+to\s+/i)[0].trim();
+  const direct = parseInputDate(t.replace(/\./g, "/"));
+  if (direct) return direct;
+  const m = t.match(/^(\d{1,2})[\s\-/]([A-Za-z]{3})[A-Za-z]*[\s\-/,]+(\d{2,4})$/);
+  if (!m) return null;
+  const mm = MONTHS.indexOf(m[2].toLowerCase()) + 1;
+  if (!mm) return null;
+  const yyyy = m[3].length === 2 ? 2000 + Number(m[3]) : Number(m[3]);
+  const d = new Date(Date.UTC(yyyy, mm - 1, Number(m[1])));
+  if (Number.isNaN(d.getTime()) || d.getUTCMonth() !== mm - 1) return null;
+  return d.toISOString().slice(0, 10);
+}
+
+function detectMarket(text: string): IexMarket | null {
+  const t = text.toLowerCase();
+  // file names use "_" as a separator, so no \b here
+  if (/real[\s_-]*time|(^|[^a-z])rtm([^a-z]|$)/.test(t)) return "RTM";
+  if (/day[\s_-]*ahead|(^|[^a-z])dam([^a-z]|$)/.test(t)) return "DAM";
+  return null;
+}
+
+type HeaderMap = {
+  row: number;
+  date: number;
+  purchaseBids: number;
+  sellBids: number;
+  mcv: number;
+  mcp: number;
+  /** unit named in the volume headers */
+  volumeInMW: boolean;
+  volumeInMWh: boolean;
+};
+
+function findHeader(rows: string[][]): HeaderMap | null {
+  for (let r = 0; r < Math.min(rows.length, 40); r++) {
+    const h = rows[r].map((c) => (c ?? "").trim().toLowerCase());
+    const col = (re: RegExp, not?: RegExp) => h.findIndex((c) => re.test(c) && !(not && not.test(c)));
+    const purchaseBids = col(/purchase\s*bid|buy\s*bid/);
+    const sellBids = col(/sell\s*bid/);
+    const mcp = col(/\bmcp\b|clearing\s*price/, /weighted/);
+    if (purchaseBids < 0 || sellBids < 0 || mcp < 0) continue;
+    const volumeHeader = h[purchaseBids];
+    return {
+      row: r,
+      date: col(/date/),
+      purchaseBids,
+      sellBids,
+      mcv: col(/\bmcv\b|clearing\s*volume|cleared\s*volume/),
+      mcp,
+      volumeInMW: /\bmw\b/.test(volumeHeader),
+      volumeInMWh: /\bmwh\b/.test(volumeHeader),
+    };
+  }
+  return null;
+}
+
+/** `delimiter` of the CSV the rows came from (workbook cells use ",") */
+export function parseIexRows(fileName: string, rows: string[][], delimiter: CsvDelimiter = ","): IexSnapshot {
+  const warnings: string[] = [];
+  const header = findHeader(rows);
+  const market = detectMarket(fileName) ?? detectMarket(rows.slice(0, 10).map((r) => r.join(" ")).join("\n"));
+
+  if (!header || header.date < 0) {
+    return {
+      fileName,
+      market,
+      days: [],
+      blocksPerDay: null,
+      warnings: ["No Date / Purchase Bid / Sell Bid / MCP header row found."],
+    };
+  }
+  if (header.mcv < 0) warnings.push("No MCV column; cleared volume is left out.");
+
+  // IEX leaves the date on the first block of each day only
+  type Acc = { blocks: number; purchaseBids: number[]; sellBids: number[]; mcv: number[]; mcp: number[] };
+  const byDate = new Map<string, Acc>();
+  let current: string | null = null;
+  let bad = 0;
+
+  for (const cells of rows.slice(header.row + 1)) {
+    const rawDate = (cells[header.date] ?? "").trim();
+    if (rawDate) {
+      const d = parseSnapshotDate(rawDate);
+      if (!d) {
+        // totals / footnotes below the table
+        if (!/total|average|note|source/i.test(cells.join(" "))) bad++;
+        current = null;
+        continue;
+      }
+      current = d;
+    }
+    if (!current) continue;
+
+    const mcp = toNumber(cells[header.mcp], delimiter);
+    const purchase = toNumber(cells[header.purchaseBids], delimiter);
+    const sell = toNumber(cells[header.sellBids], delimiter);
+    if (mcp == null && purchase == null && sell == null) continue;
+
+    if (!byDate.has(current)) byDate.set(current, { blocks: 0, purchaseBids: [], sellBids: [], mcv: [], mcp: [] });
+    const acc = byDate.get(current)!;
+    acc.blocks++;
+    if (purchase != null) acc.purchaseBids.push(purchase);
+    if (sell != null) acc.sellBids.push(sell);
+    const mcv = header.mcv >= 0 ? toNumber(cells[header.mcv], delimiter) : null;
+    if (mcv != null) acc.mcv.push(mcv);
+    if (mcp != null) acc.mcp.push(mcp);
+  }
+
+  if (bad) warnings.push(`${bad} row${bad === 1 ? "" : "s"} with an unreadable date skipped.`);
+
+  const counts = Array.from(byDate.values()).map((a) => a.blocks);
+  const maxBlocks = counts.length ? Math.max(...counts) : 0;
+  const blocksPerDay = maxBlocks > 24 ? 96 : maxBlocks > 1 ? 24 : null;
+  // MW per block -> MWh (block files without a unit are MW); daily files are MWh
+  const hours = header.volumeInMWh ? 1 : blocksPerDay ? 24 / blocksPerDay : header.volumeInMW ? 24 : 1;
+
+  const sum = (xs: number[]) => (xs.length ? xs.reduce((a, x) => a + x, 0) * hours : null);
+  const avg = (xs: number[]) => (xs.length ? xs.reduce((a, x) => a + x, 0) / xs.length : null);
+
+  const days: IexDay[] = [];
+  let partial = 0;
+  for (const [date, a] of Array.from(byDate.entries()).sort(([x], [y]) => (x < y ? -1 : x > y ? 1 : 0))) {
+    if (blocksPerDay && a.blocks < blocksPerDay) partial++;
+    days.push({
+      date,
+      purchaseBids: sum(a.purchaseBids),
+      sellBids: sum(a.sellBids),
+      mcv: sum(a.mcv),
+      mcp: avg(a.mcp),
+    });
+  }
+  if (partial) warnings.push(`${partial} day${partial === 1 ? " has" : "s have"} fewer than ${blocksPerDay} blocks; their volumes are partial.`);
+  if (!days.length) warnings.push("No data rows found under the header.");
+
+  return { fileName, market, days, blocksPerDay, warnings };
+}
+
+/* -----------------------------
+   File readers
+----------------------------- */
+
+export function isIexFile(file: File) {
+  return /\.(csv|xlsx|xlsm|xls)$/i.test(file.name);
+}
+
+async function workbookRows(file: File) {
+  const XLSX = await import("xlsx");
+  const wb = XLSX.read(await file.arrayBuffer(), { type: "array" });
+  const rows: string[][] = [];
+  for (const name of wb.SheetNames) {
+    const sheet = XLSX.utils.sheet_to_json<unknown[]>(wb.Sheets[name], { header: 1, raw: false, defval: "", blankrows: false });
+    for (const r of sheet) rows.push(r.map((c) => (c == null ? "" : String(c))));
+  }
+  return rows;
+}
+
+export async function readIexSnapshot(file: File): Promise<IexSnapshot> {
+  if (/\.csv$/i.test(file.name)) {
+    const { rows, delimiter } = parseCsv(await file.text());
+    return parseIexRows(file.name, rows.map((r) => r.cells), delimiter);
+  }
+  return parseIexRows(file.name, await workbookRows(file));
+}
+
+/** MCP of `day` in `unit` (the price series' unit). */
+export function iexPrice(day: IexDay, unit: UnitId) {
+  return day.mcp == null ? null : Number(convertValue(day.mcp, IEX_PRICE_UNIT, unit).toPrecision(12));
+}
+
+/* -----------------------------
+   Derived analytics
+----------------------------- */
+
+export type MarketDay = {
+  date: string;
+  /** in the price series' display unit */
+  price: number | null;
+  purchaseBids: number | null;
+  sellBids: number | null;
+  mcv: number | null;
+  /** purchase bids / sell bids (>1: buyers outbid sellers) */
+  ratio: number | null;
+};
+
+/** Joins the price series with its related volume series by date. */
+export function joinMarketDays(prices: Map<string, number>, volumes: Record<IexVolumeField, Map<string, number>>): MarketDay[] {
+  const dates = new Set<string>([...prices.keys(), ...volumes.purchaseBids.keys(), ...volumes.sellBids.keys(), ...volumes.mcv.keys()]);
+  return Array.from(dates)
+    .sort()
+    .map((date) => {
+      const purchaseBids = volumes.purchaseBids.get(date) ?? null;
+      const sellBids = volumes.sellBids.get(date) ?? null;
+      return {
+        date,
+        price: prices.get(date) ?? null,
+        purchaseBids,
+        sellBids,
+        mcv: volumes.mcv.get(date) ?? null,
+        ratio: purchaseBids != null && sellBids != null && sellBids > 0 ? purchaseBids / sellBids : null,
+      };
+    });
+}
+
+/** Pearson correlation of (x, y) pairs; null below 3 pairs or with no spread. */
+export function correlation(pairs: Array<[number, number]>) {
+  const n = pairs.length;
+  if (n < 3) return null;
+  let sx = 0;
+  let sy = 0;
+  for (const [x, y] of pairs) {
+    sx += x;
+    sy += y;
+  }
+  const mx = sx / n;
+  const my = sy / n;
+  let cov = 0;
+  let vx = 0;
+  let vy = 0;
+  for (const [x, y] of pairs) {
+    cov += (x - mx) * (y - my);
+    vx += (x - mx) ** 2;
+    vy += (y - my) ** 2;
+  }
+  return vx > 0 && vy > 0 ? cov / Math.sqrt(vx * vy) : null;
+}
@@ -0,0 +1,306 @@
+import { numberText, parseCsv } from "./csv";
+import type { CsvDelimiter } from "./csv";
+import { parseInputDate } from "./dates";
+import type { IncomingRow } from "./merge";
+import { compatibleUnits, convertValue, UNITS } from "./units";
+import type { UnitId } from "./units";
+
+/* -----------------------------
+   Intraday data (96 × 15-minute blocks per day)
+   - Optional next to a daily series: stored per day as 96 values in the
+     record's block unit (block 1 = 00:00–00:15); missing blocks are null
+   - Grid block data is average power per block, so energy series take
+     blocks in MW by default; a power block becomes energy as
+     MW × 0.25 h = MWh before it is converted to the series unit and summed
+   - The daily value is derived from the blocks (`IntradayAggregate` in the
+     registry) and written into the daily series, so every existing view
+     keeps working on days that only have blocks
+   - CSV layouts accepted:
+       long:   date,block,value     (block = 1..96 or a start time "HH:MM")
+       stamp:  datetime,value       ("01/04/2024 00:15" or ISO)
+       wide:   date,<96 block columns>
+----------------------------- */
+
+export const BLOCKS_PER_DAY = 96;
+const BLOCK_MINUTES = 15;
+const BLOCK_HOURS = BLOCK_MINUTES / 60;
+
+/** How a day's blocks roll up into the daily value */
+export type IntradayAggregate = "sum" | "avg" | "max";
+
+export const INTRADAY_AGGREGATE_LABELS: Record<IntradayAggregate, string> = {
+  sum: "sum of the blocks",
+  avg: "average of the blocks",
+  max: "highest block",
+};
+
+export type IntradayBlocks = Array<number | null>;
+
+export type IntradayRecord = {
+  days: Record<string, IntradayBlocks>;
+  /** unit of the stored blocks; absent in records saved before block units (= the series unit) */
+  unit?: UnitId;
+};
+
+export function emptyIntraday(): IntradayRecord {
+  return { days: {} };
+}
+
+/* -----------------------------
+   Block units
+----------------------------- */
+
+/** Units a block file of a `seriesUnit` series can be in: energy series take power (MW / GW) or energy per block */
+export function blockUnitOptions(seriesUnit: UnitId): UnitId[] {
+  if (UNITS[seriesUnit].dimension !== "energy") return compatibleUnits(seriesUnit);
+  return [...compatibleUnits("MW"), ...compatibleUnits(seriesUnit)];
+}
+
+export function defaultBlockUnit(seriesUnit: UnitId): UnitId {
+  return UNITS[seriesUnit].dimension === "energy" ? "MW" : seriesUnit;
+}
+
+/** One block value from `from` to `to`; power <-> energy goes through the 15-minute block length */
+export function convertBlock(v: number, from: UnitId, to: UnitId) {
+  const a = UNITS[from].dimension;
+  const b = UNITS[to].dimension;
+  if (a === "power" && b === "energy") return convertValue(convertValue(v, from, "MW") * BLOCK_HOURS, "MWh", to);
+  if (a === "energy" && b === "power") return convertValue(convertValue(v, from, "MWh") / BLOCK_HOURS, "MW", to);
+  return convertValue(v, from, to);
+}
+
+export function convertBlocks(days: Record<string, IntradayBlocks>, from: UnitId, to: UnitId) {
+  if (from === to) return days;
+  return Object.fromEntries(
+    Object.entries(days).map(([d, blocks]) => [d, blocks.map((v) => (v == null ? null : convertBlock(v, from, to)))] as const)
+  );
+}
+
+/** "HH:MM" start of block `i` (0-based). */
+export function blockLabel(i: number) {
+  const m = i * BLOCK_MINUTES;
+  return `${String(Math.floor(m / 60)).padStart(2, "0")}:${String(m % 60).padStart(2, "0")}`;
+}
+
+/* -----------------------------
+   Time-of-day windows
+----------------------------- */
+
+export type TimeWindowId = "solar" | "evening";
+
+/** Block ranges [from, to) — solar 09:00–17:00, evening peak 18:00–23:00 */
+export const TIME_WINDOWS: Record<TimeWindowId, { label: string; from: number; to: number }> = {
+  solar: { label: "Solar hours (09:00–17:00)", from: 36, to: 68 },
+  evening: { label: "Evening peak (18:00–23:00)", from: 72, to: 92 },
+};
+
+function meanOf(blocks: IntradayBlocks, keep: (i: number) => boolean) {
+  let s = 0;
+  let n = 0;
+  blocks.forEach((v, i) => {
+    if (v != null && keep(i)) {
+      s += v;
+      n++;
+    }
+  });
+  return n ? s / n : null;
+}
+
+export function windowMean(blocks: IntradayBlocks, id: TimeWindowId, inside = true) {
+  const w = TIME_WINDOWS[id];
+  return meanOf(blocks, (i) => (i >= w.from && i < w.to) === inside);
+}
+
+/* -----------------------------
+   Daily value from blocks
+----------------------------- */
+
+/**
+ * Daily value of one day's blocks; null below `minCoverage` (share of the 96
+ * blocks present). Partial sums are scaled pro-rata like the period sums in gaps.ts.
+ * `factor` takes one block value to the series unit (convertBlock(1, blockUnit, seriesUnit)).
+ */
+export function dailyFromBlocks(blocks: IntradayBlocks, agg: IntradayAggregate, minCoverage: number, factor = 1) {
+  const present = blocks.filter((v): v is number => v != null);
+  const coverage = present.length / BLOCKS_PER_DAY;
+  if (!present.length || coverage < minCoverage) return { value: null, coverage };
+  let value: number;
+  if (agg === "max") value = Math.max(...present);
+  else {
+    const sum = present.reduce((a, v) => a + v, 0);
+    value = agg === "avg" ? sum / present.length : (sum * BLOCKS_PER_DAY) / present.length;
+  }
+  return { value: Number((value * factor).toPrecision(12)), coverage };
+}
+
+export function deriveDailyRows(
+  days: Record<string, IntradayBlocks>,
+  agg: IntradayAggregate,
+  minCoverage: number,
+  factor = 1
+) {
+  const rows: IncomingRow[] = [];
+  const skipped: string[] = [];
+  for (const date of Object.keys(days).sort()) {
+    const { value } = dailyFromBlocks(days[date], agg, minCoverage, factor);
+    if (value == null) skipped.push(date);
+    else rows.push({ date, value });
+  }
+  return { rows, skipped };
+}
+
+/* -----------------------------
+   CSV parsing
+----------------------------- */
+
+export type IntradayParse = {
+  days: Record<string, IntradayBlocks>;
+  layout: "long" | "stamp" | "wide" | null;
+  errors: string[];
+};
+
+function toNumber(cell: string | undefined, delimiter: CsvDelimiter) {
+  const t = numberText(cell ?? "", delimiter);
+  if (!t) return null;
+  const n = Number(t);
+  return Number.isFinite(n) ? n : null;
+}
+
+/** "00:15", "00:15:00", "00:15 - 00:30" -> 0-based block; "1".."96" -> block - 1 */
+function parseBlock(cell: string | undefined, allowNumber: boolean) {
+  const t = (cell ?? "").trim();
+  const m = t.match(/^(\d{1,2}):(\d{2})(?::\d{2})?/);
+  if (m) {
+    const minutes = Number(m[1]) * 60 + Number(m[2]);
+    if (minutes % BLOCK_MINUTES !== 0 || minutes >= 24 * 60) return null;
+    return minutes / BLOCK_MINUTES;
+  }
+  if (allowNumber && /^\d{1,2}$/.test(t)) {
+    const n = Number(t);
+    return n >= 1 && n <= BLOCKS_PER_DAY ? n - 1 : null;
+  }
+  return null;
+}
+
+/** "01/04/2024 00:15", "2024-04-01T00:15:00" -> date + block */
+function parseStamp(cell: string | undefined) {
+  const m = (cell ?? "").trim().match(/^(\S+?)(?:T|\s+)(\d{1,2}:\d{2}(?::\d{2})?)/);
+  if (!m) return null;
+  const date = parseInputDate(m[1]);
+  const block = parseBlock(m[2], false);
+  return date && block != null ? { date, block } : null;
+}
+
+export function parseIntradayCsv(text: string): IntradayParse {
+  const { rows, delimiter } = parseCsv(text);
+  const days: Record<string, IntradayBlocks> = {};
+  const errors: string[] = [];
+  if (!rows.length) return { days, layout: null, errors: ["The file is empty."] };
+
+  const first = rows[0];
+  const hasHeader = !parseInputDate(first.cells[0]) && !parseStamp(first.cells[0]);
+  const body = hasHeader ? rows.slice(1) : rows;
+  const sample = body[0]?.cells ?? [];
+  const width = Math.max(...rows.map((r) => r.cells.length));
+
+  const put = (date: string, block: number, value: number) => {
+    if (!days[date]) days[date] = new Array<number | null>(BLOCKS_PER_DAY).fill(null);
+    days[date][block] = value;
+  };
+
+  let layout: IntradayParse["layout"];
+  if (width >= BLOCKS_PER_DAY + 1) {
+    layout = "wide";
+    // header times / numbers when present, otherwise column order
+    const blockOf = first.cells.slice(1).map((c, i) => (hasHeader ? parseBlock(c, true) ?? i : i));
+    for (const r of body) {
+      const date = parseInputDate(r.cells[0]);
+      if (!date) {
+        errors.push(`Line ${r.line}: invalid date "${r.cells[0] ?? ""}"`);
+        continue;
+      }
+      r.cells.slice(1).forEach((c, i) => {
+        const v = toNumber(c, delimiter);
+        const b = blockOf[i];
+        if (v != null && b != null && b < BLOCKS_PER_DAY) put(date, b, v);
+      });
+    }
+  } else if (parseStamp(sample[0])) {
+    layout = "stamp";
+    for (const r of body) {
+      const at = parseStamp(r.cells[0]);
+      const v = toNumber(r.cells[1], delimiter);
+      if (!at) errors.push(`Line ${r.line}: invalid timestamp "${r.cells[0] ?? ""}"`);
+      else if (v == null) errors.push(`Line ${r.line}: invalid value "${r.cells[1] ?? ""}"`);
+      else put(at.date, at.block, v);
+    }
+  } else if (width >= 3) {
+    layout = "long";
+    for (const r of body) {
+      const date = parseInputDate(r.cells[0]);
+      const block = parseBlock(r.cells[1], true);
+      const v = toNumber(r.cells[2], delimiter);
+      if (!date) errors.push(`Line ${r.line}: invalid date "${r.cells[0] ?? ""}"`);
+      else if (block == null) errors.push(`Line ${r.line}: invalid block "${r.cells[1] ?? ""}" (1–96 or HH:MM)`);
+      else if (v == null) errors.push(`Line ${r.line}: invalid value "${r.cells[2] ?? ""}"`);
+      else put(date, block, v);
+    }
+  } else {
+    return { days, layout: null, errors: ["Expected date,block,value / datetime,value rows or a date + 96 block columns."] };
+  }
+
+  return { days, layout, errors };
+}
+
+/* -----------------------------
+   Profiles + splits
+----------------------------- */
+
+export type MonthProfile = {
+  /** YYYY-MM */
+  month: string;
+  /** average of each block over the month's days */
+  profile: IntradayBlocks;
+  days: number;
+};
+
+export function monthlyProfiles(days: Record<string, IntradayBlocks>): MonthProfile[] {
+  const acc = new Map<string, { sum: number[]; n: number[]; days: number }>();
+  for (const [date, blocks] of Object.entries(days)) {
+    const month = date.slice(0, 7);
+    if (!acc.has(month)) acc.set(month, { sum: new Array(BLOCKS_PER_DAY).fill(0), n: new Array(BLOCKS_PER_DAY).fill(0), days: 0 });
+    const a = acc.get(month)!;
+    a.days++;
+    blocks.forEach((v, i) => {
+      if (v == null) return;
+      a.sum[i] += v;
+      a.n[i]++;
+    });
+  }
+  return Array.from(acc.entries())
+    .sort(([x], [y]) => (x < y ? -1 : x > y ? 1 : 0))
+    .map(([month, a]) => ({ month, profile: a.sum.map((s, i) => (a.n[i] ? s / a.n[i] : null)), days: a.days }));
+}
+
+export type SolarSplit = {
+  month: string;
+  solar: number | null;
+  nonSolar: number | null;
+  evening: number | null;
+  /** solar-hour average / non-solar average */
+  ratio: number | null;
+};
+
+export function solarSplits(profiles: MonthProfile[]): SolarSplit[] {
+  return profiles.map(({ month, profile }) => {
+    const solar = windowMean(profile, "solar");
+    const nonSolar = windowMean(profile, "solar", false);
+    return {
+      month,
+      solar,
+      nonSolar,
+      evening: windowMean(profile, "evening"),
+      ratio: solar != null && nonSolar ? solar / nonSolar : null,
+    };
+  });
+}
@@ -0,0 +1,211 @@
+import type { SeriesPoint, SeriesState } from "./provenance";
+
+/* -----------------------------
+   Edit journal (undo / redo + audit log)
+   - Every user edit of a series is recorded as one entry with the old and
+     new point (and removal marker) of every date it touched
+   - undo / redo walk two stacks of entry ids; they are themselves logged,
+     so the audit trail is append-only
+   - Reloads of the bundled file are NOT journaled (see reconcileWithFile)
+----------------------------- */
+
+export type JournalAction = "manual" | "remove" | "clear" | "import" | "sample" | "fetch" | "undo" | "redo";
+
+export const JOURNAL_ACTION_LABELS: Record<JournalAction, string> = {
+  manual: "Manual entry",
+  remove: "Removed day",
+  clear: "Cleared data",
+  import: "CSV import",
+  sample: "Sample data",
+  fetch: "Auto-fetch",
+  undo: "Undo",
+  redo: "Redo",
+};
+
+export type JournalChange = {
+  date: string;
+  before: SeriesPoint | null;
+  after: SeriesPoint | null;
+  /** removal marker (epoch ms) before / after the edit */
+  removedBefore: number | null;
+  removedAfter: number | null;
+};
+
+export type JournalEntry = {
+  id: string;
+  /** epoch ms */
+  at: number;
+  author: string;
+  action: JournalAction;
+  note: string;
+  changes: JournalChange[];
+  /** undo / redo: id of the entry that was reverted / re-applied */
+  target?: string;
+};
+
+export type SeriesJournal = {
+  entries: JournalEntry[];
+  /** ids that can be undone, oldest first */
+  undo: string[];
+  /** ids that can be redone, most recently undone last */
+  redo: string[];
+};
+
+// Older entries are dropped (and can no longer be undone) past this
+const MAX_ENTRIES = 300;
+
+export function emptyJournal(): SeriesJournal {
+  return { entries: [], undo: [], redo: [] };
+}
+
+function samePoint(a: SeriesPoint | null, b: SeriesPoint | null) {
+  if (!a || !b) return a === b;
+  return a.value === b.value && a.source === b.source && a.updatedAt === b.updatedAt;
+}
+
+/** Every date whose point or removal marker differs between two states. */
+export function diffSeriesStates(prev: SeriesState, next: SeriesState): JournalChange[] {
+  const dates = new Set<string>([...prev.points.keys(), ...next.points.keys(), ...prev.removed.keys(), ...next.removed.keys()]);
+  const changes: JournalChange[] = [];
+
+  for (const date of Array.from(dates).sort()) {
+    const before = prev.points.get(date) ?? null;
+    const after = next.points.get(date) ?? null;
+    const removedBefore = prev.removed.get(date) ?? null;
+    const removedAfter = next.removed.get(date) ?? null;
+    if (samePoint(before, after) && removedBefore === removedAfter) continue;
+    changes.push({ date, before, after, removedBefore, removedAfter });
+  }
+  return changes;
+}
+
+function newId(at: number) {
+  return `${at.toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function trim(journal: SeriesJournal): SeriesJournal {
+  if (journal.entries.length <= MAX_ENTRIES) return journal;
+  const entries = journal.entries.slice(-MAX_ENTRIES);
+  const kept = new Set(entries.map((e) => e.id));
+  return {
+    entries,
+    undo: journal.undo.filter((id) => kept.has(id)),
+    redo: journal.redo.filter((id) => kept.has(id)),
+  };
+}
+
+function append(
+  journal: SeriesJournal,
+  entry: Omit<JournalEntry, "id" | "at">,
+  stacks: (id: string) => Pick<SeriesJournal, "undo" | "redo">
+) {
+  const at = Date.now();
+  const full: JournalEntry = { ...entry, id: newId(at), at };
+  return trim({ entries: [...journal.entries, full], ...stacks(full.id) });
+}
+
+/** Logs a new edit; a new edit discards the redo stack. */
+export function recordEdit(
+  journal: SeriesJournal,
+  edit: { action: JournalAction; note: string; author: string; changes: JournalChange[] }
+): SeriesJournal {
+  if (!edit.changes.length) return journal;
+  return append(journal, edit, (id) => ({ undo: [...journal.undo, id], redo: [] }));
+}
+
+function applyChanges(state: SeriesState, changes: JournalChange[], side: "before" | "after"): SeriesState {
+  const points = new Map(state.points);
+  const removed = new Map(state.removed);
+  for (const c of changes) {
+    const p = side === "before" ? c.before : c.after;
+    const r = side === "before" ? c.removedBefore : c.removedAfter;
+    if (p) points.set(c.date, p);
+    else points.delete(c.date);
+    if (r != null) removed.set(c.date, r);
+    else removed.delete(c.date);
+  }
+  return { points, removed };
+}
+
+export function canUndo(journal: SeriesJournal) {
+  return journal.undo.length > 0;
+}
+
+export function canRedo(journal: SeriesJournal) {
+  return journal.redo.length > 0;
+}
+
+/** Entry that the next undo / redo would act on (for button titles). */
+export function peekUndo(journal: SeriesJournal) {
+  const id = journal.undo[journal.undo.length - 1];
+  return id ? journal.entries.find((e) => e.id === id) ?? null : null;
+}
+
+export function peekRedo(journal: SeriesJournal) {
+  const id = journal.redo[journal.redo.length - 1];
+  return id ? journal.entries.find((e) => e.id === id) ?? null : null;
+}
+
+/**
+ * Reverts (undo) or re-applies (redo) the most recent entry on the stack.
+ * Returns null when there is nothing to do.
+ */
+export function stepJournal(journal: SeriesJournal, state: SeriesState, direction: "undo" | "redo", author: string) {
+  const from = direction === "undo" ? journal.undo : journal.redo;
+  const target = direction === "undo" ? peekUndo(journal) : peekRedo(journal);
+  if (!target) return null;
+
+  const next = applyChanges(state, target.changes, direction === "undo" ? "before" : "after");
+  const rest = from.slice(0, -1);
+  const stacks =
+    direction === "undo"
+      ? { undo: rest, redo: [...journal.redo, target.id] }
+      : { undo: [...journal.undo, target.id], redo: rest };
+
+  const nextJournal = append(
+    journal,
+    {
+      action: direction,
+      note: `${direction === "undo" ? "Reverted" : "Re-applied"}: ${JOURNAL_ACTION_LABELS[target.action]}${target.note ? ` (${target.note})` : ""}`,
+      author,
+      changes: diffSeriesStates(state, next),
+      target: target.id,
+    },
+    () => stacks
+  );
+
+  return { state: next, journal: nextJournal, target };
+}
+
+/* -----------------------------
+   Export
+----------------------------- */
+
+function csvCell(s: string) {
+  return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+/** One row per changed date (entries without changes get one row). */
+export function journalToCsv(journal: SeriesJournal) {
+  const header = ["timestamp", "author", "action", "note", "date", "old_value", "old_source", "new_value", "new_source"];
+  const lines = [header.join(",")];
+
+  for (const e of journal.entries) {
+    const ts = new Date(e.at).toISOString();
+    const base = [ts, e.author, JOURNAL_ACTION_LABELS[e.action], e.note];
+    const rows = e.changes.length ? e.changes : [null];
+    for (const c of rows) {
+      const cells = c
+        ? [
+            c.date,
+            c.before ? String(c.before.value) : "",
+            c.before ? c.before.source : c.removedBefore != null ? "removed" : "",
+            c.after ? String(c.after.value) : "",
+            c.after ? c.after.source : c.removedAfter != null ? "removed" : "",
+          ]
+        : ["", "", "", "", ""];
+      lines.push([...base, ...cells].map(csvCell).join(","));
+    }
+  }
+  return lines.join("\n");
+}
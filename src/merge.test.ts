@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { applyMerge, diffImport, rowsToApply } from "./merge";
+import { makePoint } from "./provenance";
+
+const existing = new Map([
+  ["2024-04-02", 10],
+  ["2024-04-04", 20],
+]);
+
+const incoming = [
+  { date: "2024-04-01", value: 1 },
+  { date: "2024-04-02", value: 10 },
+  { date: "2024-04-03", value: 3 },
+  { date: "2024-04-04", value: 25 },
+  { date: "2024-04-05", value: 5 },
+  // repeated date: last row wins
+  { date: "2024-04-03", value: 4 },
+];
+
+describe("diffImport", () => {
+  it("splits rows into added, changed and unchanged", () => {
+    const diff = diffImport(existing, incoming, ["Line 9: invalid date 'x'"]);
+    expect(diff.added).toEqual([
+      { date: "2024-04-01", value: 1 },
+      { date: "2024-04-03", value: 4 },
+      { date: "2024-04-05", value: 5 },
+    ]);
+    expect(diff.changed).toEqual([{ date: "2024-04-04", before: 20, after: 25 }]);
+    expect(diff.unchanged).toEqual([{ date: "2024-04-02", value: 10 }]);
+    expect(diff.rejected).toEqual(["Line 9: invalid date 'x'"]);
+    expect(diff.existingRange).toEqual({ from: "2024-04-02", to: "2024-04-04" });
+  });
+
+  it("treats float noise as unchanged", () => {
+    const diff = diffImport(new Map([["2024-04-01", 0.1 + 0.2]]), [{ date: "2024-04-01", value: 0.3 }]);
+    expect(diff.unchanged).toHaveLength(1);
+    expect(diff.changed).toEqual([]);
+  });
+});
+
+describe("rowsToApply", () => {
+  const diff = diffImport(existing, incoming);
+  const dates = (rows: Array<{ date: string }>) => rows.map((r) => r.date).sort();
+
+  it("overwrite writes new and changed days", () => {
+    expect(dates(rowsToApply(diff, "overwrite"))).toEqual(["2024-04-01", "2024-04-03", "2024-04-04", "2024-04-05"]);
+    expect(rowsToApply(diff, "overwrite").find((r) => r.date === "2024-04-04")?.value).toBe(25);
+  });
+
+  it("keep-existing only adds new days", () => {
+    expect(dates(rowsToApply(diff, "keep-existing"))).toEqual(["2024-04-01", "2024-04-03", "2024-04-05"]);
+  });
+
+  it("fill-gaps only adds days inside the stored range", () => {
+    expect(dates(rowsToApply(diff, "fill-gaps"))).toEqual(["2024-04-03"]);
+    // nothing stored yet: every new day is a gap
+    expect(rowsToApply(diffImport(new Map(), incoming), "fill-gaps")).toHaveLength(5);
+  });
+});
+
+describe("applyMerge", () => {
+  it("writes the policy's rows with the given source and leaves the rest alone", () => {
+    const stored = new Map([
+      ["2024-04-02", makePoint(10, "file", 1)],
+      ["2024-04-04", makePoint(20, "manual", 1)],
+    ]);
+    const { next, written } = applyMerge(stored, diffImport(existing, incoming), "keep-existing");
+    expect(written).toBe(3);
+    expect(next.get("2024-04-03")).toMatchObject({ value: 4, source: "import" });
+    expect(next.get("2024-04-04")).toEqual(makePoint(20, "manual", 1));
+    expect(stored.has("2024-04-03")).toBe(false);
+
+    const fetched = applyMerge(stored, diffImport(existing, incoming), "overwrite", "fetch").next;
+    expect(fetched.get("2024-04-04")).toMatchObject({ value: 25, source: "fetch" });
+  });
+});
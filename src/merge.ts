@@ -0,0 +1,85 @@
+import { makePoint } from "./provenance";
+import type { PointSource, SeriesPoint } from "./provenance";
+
+/* -----------------------------
+   Merging incoming rows into a stored series
+   - diffImport(): what an import WOULD do (new / overwrite / unchanged)
+   - applyMerge(): commit it under a merge policy, tagging the source
+----------------------------- */
+
+export type IncomingRow = { date: string; value: number };
+
+export type MergePolicy = "overwrite" | "keep-existing" | "fill-gaps";
+
+export const MERGE_POLICY_LABELS: Record<MergePolicy, string> = {
+  overwrite: "Overwrite existing values",
+  "keep-existing": "Keep existing, add new dates",
+  "fill-gaps": "Only fill gaps inside the stored range",
+};
+
+export type ImportDiff = {
+  added: IncomingRow[];
+  changed: Array<{ date: string; before: number; after: number }>;
+  unchanged: IncomingRow[];
+  /** line-accurate reasons for rows that could not be read */
+  rejected: string[];
+  /** first/last stored date before the import (for "fill-gaps") */
+  existingRange: { from: string; to: string } | null;
+};
+
+const EPS = 1e-9;
+
+export function mergeRecords(existingMap: Map<string, SeriesPoint>, incoming: IncomingRow[], source: PointSource) {
+  const next = new Map(existingMap);
+  const now = Date.now();
+  for (const r of incoming) next.set(r.date, makePoint(r.value, source, now));
+  return next;
+}
+
+export function diffImport(existing: Map<string, number>, incoming: IncomingRow[], rejected: string[] = []): ImportDiff {
+  const added: ImportDiff["added"] = [];
+  const changed: ImportDiff["changed"] = [];
+  const unchanged: ImportDiff["unchanged"] = [];
+
+  // last row wins when a file repeats a date (same as mergeRecords)
+  const byDate = new Map<string, number>();
+  for (const r of incoming) byDate.set(r.date, r.value);
+
+  for (const [date, value] of Array.from(byDate.entries()).sort((a, b) => (a[0] < b[0] ? -1 : 1))) {
+    const before = existing.get(date);
+    if (before == null) added.push({ date, value });
+    else if (Math.abs(before - value) <= EPS) unchanged.push({ date, value });
+    else changed.push({ date, before, after: value });
+  }
+
+  let existingRange: ImportDiff["existingRange"] = null;
+  for (const d of existing.keys()) {
+    if (!existingRange) existingRange = { from: d, to: d };
+    else {
+      if (d < existingRange.from) existingRange.from = d;
+      if (d > existingRange.to) existingRange.to = d;
+    }
+  }
+
+  return { added, changed, unchanged, rejected, existingRange };
+}
+
+/** Rows that a policy would actually write. */
+export function rowsToApply(diff: ImportDiff, policy: MergePolicy): IncomingRow[] {
+  if (policy === "overwrite") return [...diff.added, ...diff.changed.map((c) => ({ date: c.date, value: c.after }))];
+  if (policy === "keep-existing") return diff.added;
+
+  const range = diff.existingRange;
+  if (!range) return diff.added;
+  return diff.added.filter((r) => r.date >= range.from && r.date <= range.to);
+}
+
+export function applyMerge(
+  existing: Map<string, SeriesPoint>,
+  diff: ImportDiff,
+  policy: MergePolicy,
+  source: PointSource = "import"
+) {
+  const rows = rowsToApply(diff, policy);
+  return { next: mergeRecords(existing, rows, source), written: rows.length };
+}
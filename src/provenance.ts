@@ -0,0 +1,119 @@
+/* -----------------------------
+   Point provenance + reconciling with the bundled CSV
+   - Every stored day remembers where its value came from
+   - When the bundled file (public/data) is (re)loaded it is reconciled
+     with what is stored instead of replacing it, so manual corrections
+     and imports survive a reload
+----------------------------- */
+
+export type PointSource = "file" | "manual" | "import" | "sample" | "fetch";
+
+export const POINT_SOURCE_LABELS: Record<PointSource, string> = {
+  file: "Bundled file",
+  manual: "Manual entry",
+  import: "Import",
+  sample: "Sample",
+  fetch: "Auto-fetch",
+};
+
+export type SeriesPoint = {
+  value: number;
+  source: PointSource;
+  /** epoch ms of the last write (0 = unknown, e.g. migrated data) */
+  updatedAt: number;
+};
+
+/** What a tab keeps in memory: points + dates the user explicitly removed */
+export type SeriesState = {
+  points: Map<string, SeriesPoint>;
+  removed: Map<string, number>;
+};
+
+export type ReconcilePolicy = "user-edits-win" | "file-wins";
+
+export const RECONCILE_POLICY_LABELS: Record<ReconcilePolicy, string> = {
+  "user-edits-win": "User edits win",
+  "file-wins": "File wins for dates it contains",
+};
+
+export function isUserSource(source: PointSource) {
+  return source !== "file";
+}
+
+export function makePoint(value: number, source: PointSource, updatedAt = Date.now()): SeriesPoint {
+  return { value, source, updatedAt };
+}
+
+export function valuesOf(points: Map<string, SeriesPoint>) {
+  const m = new Map<string, number>();
+  for (const [d, p] of points) m.set(d, p.value);
+  return m;
+}
+
+export type ReconcileStats = {
+  added: number;
+  updated: number;
+  /** dates dropped because the file no longer contains them */
+  dropped: number;
+  /** user-sourced (or user-removed) dates left untouched although the file has them */
+  keptUserEdits: number;
+  /** user-sourced dates replaced by the file value (file-wins) */
+  overriddenUserEdits: number;
+};
+
+/**
+ * Reconciles stored points with the rows of the bundled file.
+ * - file-sourced points always follow the file (including removals)
+ * - user points / user removals follow `policy`
+ */
+export function reconcileWithFile(
+  stored: Map<string, SeriesPoint>,
+  removed: Map<string, number>,
+  fileValues: Map<string, number>,
+  policy: ReconcilePolicy
+) {
+  const next = new Map(stored);
+  const nextRemoved = new Map(removed);
+  const stats: ReconcileStats = { added: 0, updated: 0, dropped: 0, keptUserEdits: 0, overriddenUserEdits: 0 };
+  const now = Date.now();
+
+  for (const [date, value] of fileValues) {
+    const cur = stored.get(date);
+    const userRemoved = removed.has(date);
+
+    if (!cur) {
+      if (userRemoved && policy === "user-edits-win") {
+        stats.keptUserEdits++;
+        continue;
+      }
+      next.set(date, makePoint(value, "file", now));
+      nextRemoved.delete(date);
+      stats.added++;
+      continue;
+    }
+
+    if (cur.source === "file") {
+      if (cur.value !== value) {
+        next.set(date, makePoint(value, "file", now));
+        stats.updated++;
+      }
+      continue;
+    }
+
+    if (policy === "file-wins") {
+      if (cur.value !== value) stats.overriddenUserEdits++;
+      next.set(date, makePoint(value, "file", now));
+    } else if (cur.value !== value) {
+      stats.keptUserEdits++;
+    }
+  }
+
+  for (const [date, p] of stored) {
+    if (p.source === "file" && !fileValues.has(date)) {
+      next.delete(date);
+      stats.dropped++;
+    }
+  }
+
+  return { points: next, removed: nextRemoved, stats };
+}
@@ -0,0 +1,207 @@
+import { convertValue } from "./units";
+import type { UnitId } from "./units";
+
+/* -----------------------------
+   Grid-India daily Power Supply Position (PSP) report
+   - Reads the downloaded report (.xls / .xlsx, or the text layer of the PDF)
+   - Pulls out the all-India figures we track:
+       A. "Energy Met (MU)", "Maximum Demand Met During the Day (MW)"
+       G. "Sourcewise generation (MU)": coal ... RES, total
+   - Every report row is reduced to a label + its numbers; the all-India
+     value is the 6th number (NR, WR, SR, ER, NER, All India[, % share])
+   - Series opt in through `pspField` in the registry; values are converted
+     to the series unit
+----------------------------- */
+
+export type PspField = "energyMet" | "peakDemandMet" | "genTotal" | "genRes" | "genNonRes";
+
+export const PSP_FIELDS: Record<PspField, { label: string; unit: UnitId }> = {
+  energyMet: { label: "Energy met (all India)", unit: "MU" },
+  peakDemandMet: { label: "Maximum demand met during the day", unit: "MW" },
+  genTotal: { label: "Generation — total", unit: "MU" },
+  genRes: { label: "Generation — RES (wind, solar, biomass & others)", unit: "MU" },
+  genNonRes: { label: "Generation — total excl. RES", unit: "MU" },
+};
+
+export type PspReport = {
+  fileName: string;
+  /** day the figures are for (null when the report doesn't say) */
+  date: string | null;
+  values: Partial<Record<PspField, number>>;
+  /** source-wise generation rows as found (MU), for the preview */
+  generation: Array<{ label: string; value: number }>;
+  warnings: string[];
+};
+
+type PspLine = { label: string; numbers: number[]; text: string };
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+function isoPlusDays(iso: string, days: number) {
+  const d = new Date(iso + "T00:00:00Z");
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+function toNumber(cell: string) {
+  const t = cell.replace(/,/g, "").trim();
+  return /^-?\d+(\.\d+)?$/.test(t) ? Number(t) : null;
+}
+
+/** "02-01-2026", "02.01.2026", "2/1/26", "02-Jan-2026", "2nd Jan 2026" */
+function parseReportDate(s: string) {
+  let m = s.match(/(\d{1,2})(?:st|nd|rd|th)?[\s.\-/]+([A-Za-z]{3})[A-Za-z]*[\s.\-/,]+(\d{2,4})/);
+  if (m) {
+    const mm = MONTHS.indexOf(m[2].toLowerCase()) + 1;
+    if (mm) return isoFrom(Number(m[1]), mm, Number(m[3]));
+  }
+  m = s.match(/(\d{1,2})[.\-/](\d{1,2})[.\-/](\d{2,4})/);
+  if (m) return isoFrom(Number(m[1]), Number(m[2]), Number(m[3]));
+  return null;
+}
+
+function isoFrom(dd: number, mm: number, yy: number) {
+  const yyyy = yy < 100 ? 2000 + yy : yy;
+  const d = new Date(Date.UTC(yyyy, mm - 1, dd));
+  if (Number.isNaN(d.getTime()) || d.getUTCMonth() !== mm - 1 || d.getUTCDate() !== dd) return null;
+  return d.toISOString().slice(0, 10);
+}
+
+/** Cells of one report row -> label (text before the first number) + numbers. */
+function toLine(cells: string[]): PspLine {
+  const text = cells.filter(Boolean).join(" ");
+  const label: string[] = [];
+  const numbers: number[] = [];
+  for (const c of cells) {
+    const t = c.trim();
+    if (!t) continue;
+    const n = toNumber(t);
+    if (n != null && (label.length || numbers.length)) numbers.push(n);
+    else if (!numbers.length && n == null) label.push(t);
+  }
+  return { label: label.join(" ").replace(/\s+/g, " ").toLowerCase(), numbers, text };
+}
+
+function reportDate(lines: PspLine[]) {
+  const text = lines.map((l) => l.text).join("\n");
+  // "Power Supply Position in Indian Power System on 02-01-2026"
+  const on = text.match(/power supply position[^\n]*?\bon\b([^\n]+)/i);
+  const fromTitle = on ? parseReportDate(on[1]) : null;
+  if (fromTitle) return fromTitle;
+  // "Date of Reporting: 03.01.2026" (the report covers the previous day)
+  const rep = text.match(/date of reporting\s*:?\s*([^\n]+)/i);
+  const reported = rep ? parseReportDate(rep[1]) : null;
+  return reported ? isoPlusDays(reported, -1) : null;
+}
+
+function allIndia(line: PspLine | undefined) {
+  return line && line.numbers.length >= 6 ? line.numbers[5] : null;
+}
+
+export function parsePspRows(fileName: string, rows: string[][]): PspReport {
+  const lines = rows.map(toLine).filter((l) => l.text);
+  const values: PspReport["values"] = {};
+  const warnings: string[] = [];
+  const generation: PspReport["generation"] = [];
+
+  const find = (re: RegExp, from = 0, to = lines.length) => lines.slice(from, to).find((l) => re.test(l.label));
+
+  const energy = allIndia(find(/^energy met\b/));
+  if (energy != null) values.energyMet = energy;
+  else warnings.push("All-India energy met not found.");
+
+  const peak = allIndia(find(/maximum demand met during the day/)) ?? allIndia(find(/demand met during evening peak/));
+  if (peak != null) values.peakDemandMet = peak;
+  else warnings.push("Maximum demand met not found.");
+
+  const g = lines.findIndex((l) => /sourcewise generation|source-wise generation|source wise generation/.test(l.text.toLowerCase()));
+  if (g < 0) {
+    warnings.push("Source-wise generation section not found.");
+  } else {
+    for (const l of lines.slice(g + 1, g + 16)) {
+      const v = allIndia(l);
+      if (v == null || !l.label) continue;
+      if (/^total\b/.test(l.label)) {
+        values.genTotal = v;
+        break;
+      }
+      generation.push({ label: l.label, value: v });
+      if (/^res\b|renewable/.test(l.label)) values.genRes = v;
+    }
+    if (values.genTotal == null && generation.length) values.genTotal = generation.reduce((a, r) => a + r.value, 0);
+    if (values.genTotal == null) warnings.push("Source-wise generation total not found.");
+    if (values.genRes == null) warnings.push("RES generation not found.");
+    if (values.genTotal != null && values.genRes != null) values.genNonRes = values.genTotal - values.genRes;
+  }
+
+  const date = reportDate(lines);
+  if (!date) warnings.push("Report date not found; pick it below.");
+
+  return { fileName, date, values, generation, warnings };
+}
+
+/* -----------------------------
+   File readers
+----------------------------- */
+
+export function isPspFile(file: File) {
+  return /\.(xlsx|xlsm|xls|pdf)$/i.test(file.name);
+}
+
+async function workbookRows(file: File) {
+  const XLSX = await import("xlsx");
+  const wb = XLSX.read(await file.arrayBuffer(), { type: "array" });
+  const rows: string[][] = [];
+  for (const name of wb.SheetNames) {
+    const sheet = XLSX.utils.sheet_to_json<unknown[]>(wb.Sheets[name], { header: 1, raw: false, defval: "", blankrows: false });
+    for (const r of sheet) rows.push(r.map((c) => (c == null ? "" : String(c))));
+  }
+  return rows;
+}
+
+/** Text items grouped into visual lines (same baseline), left to right. */
+async function pdfRows(file: File) {
+  const pdfjs = await import("pdfjs-dist");
+  const worker = await import("pdfjs-dist/build/pdf.worker.min.mjs?url");
+  pdfjs.GlobalWorkerOptions.workerSrc = worker.default;
+
+  const doc = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+  const rows: string[][] = [];
+  try {
+    for (let p = 1; p <= doc.numPages; p++) {
+      const page = await doc.getPage(p);
+      const content = await page.getTextContent();
+      const byLine = new Map<number, Array<{ x: number; s: string }>>();
+      for (const item of content.items) {
+        if (!("str" in item) || !item.str.trim()) continue;
+        const y = Math.round(item.transform[5] / 3);
+        if (!byLine.has(y)) byLine.set(y, []);
+        byLine.get(y)!.push({ x: item.transform[4], s: item.str });
+      }
+      for (const y of Array.from(byLine.keys()).sort((a, b) => b - a)) {
+        rows.push(
+          byLine
+            .get(y)!
+            .sort((a, b) => a.x - b.x)
+            // a text item can hold several table cells separated by wide gaps
+            .flatMap((i) => i.s.split(/\s{2,}/))
+        );
+      }
+    }
+  } finally {
+    doc.destroy();
+  }
+  if (!rows.length) throw new Error("The PDF has no text layer (scanned report?).");
+  return rows;
+}
+
+export async function readPspReport(file: File): Promise<PspReport> {
+  const rows = /\.pdf$/i.test(file.name) ? await pdfRows(file) : await workbookRows(file);
+  return parsePspRows(file.name, rows);
+}
+
+/** Value of `field` in `unit`, or null when the report doesn't have it. */
+export function pspValue(report: PspReport, field: PspField, unit: UnitId) {
+  const v = report.values[field];
+  return v == null ? null : Number(convertValue(v, PSP_FIELDS[field].unit, unit).toPrecision(12));
+}
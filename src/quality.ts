@@ -0,0 +1,244 @@
+import type { SeriesJournal } from "./journal";
+
+/* -----------------------------
+   Data quality checks (per series)
+   - missing calendar days between the first and last stored date
+   - dates repeated inside the bundled file, or written with different
+     values by more than one import (from the edit journal)
+   - runs of zero values and runs of an unchanged value
+   - outliers against a rolling median / MAD baseline of the previous days
+   Every finding has a stable id (kind + first date) so it can be ticked off.
+----------------------------- */
+
+export type QualityKind = "missing" | "duplicate" | "zero-run" | "constant-run" | "outlier";
+
+export const QUALITY_KIND_LABELS: Record<QualityKind, string> = {
+  missing: "Missing days",
+  duplicate: "Duplicate dates",
+  "zero-run": "Zero values",
+  "constant-run": "Constant values",
+  outlier: "Outliers",
+};
+
+export type QualityFinding = {
+  id: string;
+  kind: QualityKind;
+  /** first affected date (the one linked to the table) */
+  date: string;
+  /** last affected date for ranges (gaps, runs) */
+  endDate: string;
+  days: number;
+  message: string;
+};
+
+export type QualityOptions = {
+  /** shortest run of identical non-zero values worth flagging */
+  constantRun: number;
+  /** days in the rolling baseline for outliers */
+  window: number;
+  /** robust z-score (median / MAD) above which a day is an outlier */
+  threshold: number;
+  /** ...and the minimum % distance from the median (keeps very calm series quiet) */
+  minPctChange: number;
+};
+
+export const DEFAULT_QUALITY_OPTIONS: QualityOptions = { constantRun: 4, window: 28, threshold: 5, minPctChange: 10 };
+
+type Point = { date: string; value: number };
+
+function isoPlusDays(iso: string, days: number) {
+  const d = new Date(iso + "T00:00:00Z");
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+function daysBetween(a: string, b: string) {
+  return Math.round((Date.parse(b + "T00:00:00Z") - Date.parse(a + "T00:00:00Z")) / 86400000);
+}
+
+function median(xs: number[]) {
+  const s = [...xs].sort((a, b) => a - b);
+  const mid = s.length >> 1;
+  return s.length % 2 ? s[mid] : (s[mid - 1] + s[mid]) / 2;
+}
+
+function formatDDMMYYYY(iso: string) {
+  const [y, m, d] = iso.split("-");
+  return `${d}-${m}-${y}`;
+}
+
+function rangeText(from: string, to: string) {
+  return from === to ? formatDDMMYYYY(from) : `${formatDDMMYYYY(from)} → ${formatDDMMYYYY(to)}`;
+}
+
+function finding(kind: QualityKind, date: string, endDate: string, message: string): QualityFinding {
+  return { id: `${kind}:${date}`, kind, date, endDate, days: daysBetween(date, endDate) + 1, message };
+}
+
+function missingDays(sorted: Point[]) {
+  const out: QualityFinding[] = [];
+  for (let i = 1; i < sorted.length; i++) {
+    const gap = daysBetween(sorted[i - 1].date, sorted[i].date) - 1;
+    if (gap <= 0) continue;
+    const from = isoPlusDays(sorted[i - 1].date, 1);
+    const to = isoPlusDays(sorted[i].date, -1);
+    out.push(finding("missing", from, to, `${gap} missing day${gap > 1 ? "s" : ""}: ${rangeText(from, to)}`));
+  }
+  return out;
+}
+
+/** Consecutive calendar days matching `same`; returns [startIdx, endIdx] pairs. */
+function runs(sorted: Point[], same: (a: Point, b: Point) => boolean, start: (p: Point) => boolean) {
+  const out: Array<[number, number]> = [];
+  let i = 0;
+  while (i < sorted.length) {
+    if (!start(sorted[i])) {
+      i++;
+      continue;
+    }
+    let j = i;
+    while (
+      j + 1 < sorted.length &&
+      daysBetween(sorted[j].date, sorted[j + 1].date) === 1 &&
+      same(sorted[i], sorted[j + 1])
+    ) {
+      j++;
+    }
+    out.push([i, j]);
+    i = j + 1;
+  }
+  return out;
+}
+
+function zeroRuns(sorted: Point[]) {
+  return runs(
+    sorted,
+    (_, b) => b.value === 0,
+    (p) => p.value === 0
+  ).map(([i, j]) => {
+    const n = j - i + 1;
+    return finding("zero-run", sorted[i].date, sorted[j].date, `Value is 0 for ${n} day${n > 1 ? "s" : ""}: ${rangeText(sorted[i].date, sorted[j].date)}`);
+  });
+}
+
+function constantRuns(sorted: Point[], minRun: number, fmt: (x: number) => string) {
+  return runs(
+    sorted,
+    (a, b) => a.value === b.value,
+    (p) => p.value !== 0
+  )
+    .filter(([i, j]) => j - i + 1 >= minRun)
+    .map(([i, j]) =>
+      finding(
+        "constant-run",
+        sorted[i].date,
+        sorted[j].date,
+        `Unchanged value ${fmt(sorted[i].value)} for ${j - i + 1} days: ${rangeText(sorted[i].date, sorted[j].date)}`
+      )
+    );
+}
+
+function outliers(sorted: Point[], opts: QualityOptions, fmt: (x: number) => string) {
+  const out: QualityFinding[] = [];
+  const minBaseline = Math.max(7, Math.floor(opts.window / 2));
+
+  for (let i = 0; i < sorted.length; i++) {
+    const p = sorted[i];
+    if (p.value === 0) continue; // reported as a zero run
+
+    // previous `window` calendar days that have a (non-zero) value
+    const fromIso = isoPlusDays(p.date, -opts.window);
+    const base: number[] = [];
+    for (let k = i - 1; k >= 0 && sorted[k].date >= fromIso; k--) if (sorted[k].value !== 0) base.push(sorted[k].value);
+    if (base.length < minBaseline) continue;
+
+    const med = median(base);
+    const mad = median(base.map((v) => Math.abs(v - med)));
+    if (!mad) continue;
+
+    const z = (0.6745 * (p.value - med)) / mad;
+    if (Math.abs(z) < opts.threshold) continue;
+
+    const pct = med ? ((p.value - med) / Math.abs(med)) * 100 : null;
+    if (pct != null && Math.abs(pct) < opts.minPctChange) continue;
+    out.push(
+      finding(
+        "outlier",
+        p.date,
+        p.date,
+        `${formatDDMMYYYY(p.date)}: ${fmt(p.value)} vs ${opts.window}-day median ${fmt(med)}` +
+          `${pct != null ? ` (${pct > 0 ? "+" : ""}${pct.toFixed(1)}%)` : ""}`
+      )
+    );
+  }
+  return out;
+}
+
+function duplicateFindings(
+  fileDuplicates: Array<{ date: string; lines: number[] }>,
+  journal: SeriesJournal | null,
+  fmt: (x: number) => string
+) {
+  const out: QualityFinding[] = [];
+
+  for (const d of fileDuplicates) {
+    out.push(finding("duplicate", d.date, d.date, `${formatDDMMYYYY(d.date)} appears on lines ${d.lines.join(", ")} of the bundled file (last row used)`));
+  }
+
+  // dates written by more than one import with different values
+  if (journal) {
+    const writes = new Map<string, Array<{ value: number; note: string }>>();
+    for (const e of journal.entries) {
+      if (e.action !== "import") continue;
+      for (const c of e.changes) {
+        if (!c.after) continue;
+        if (!writes.has(c.date)) writes.set(c.date, []);
+        writes.get(c.date)!.push({ value: c.after.value, note: e.note });
+      }
+    }
+    const fileDates = new Set(fileDuplicates.map((d) => d.date));
+    for (const [date, w] of Array.from(writes.entries()).sort((a, b) => (a[0] < b[0] ? -1 : 1))) {
+      if (w.length < 2 || fileDates.has(date)) continue;
+      if (new Set(w.map((x) => x.value)).size < 2) continue;
+      out.push(
+        finding(
+          "duplicate",
+          date,
+          date,
+          `${formatDDMMYYYY(date)} imported ${w.length} times with different values: ${w.map((x) => `${fmt(x.value)} (${x.note})`).join(", ")}`
+        )
+      );
+    }
+  }
+
+  return out;
+}
+
+export function analyzeQuality(
+  sorted: Point[],
+  extras: { fileDuplicates?: Array<{ date: string; lines: number[] }>; journal?: SeriesJournal | null },
+  fmt: (x: number) => string,
+  opts: QualityOptions = DEFAULT_QUALITY_OPTIONS
+): QualityFinding[] {
+  if (!sorted.length) return [];
+  return [
+    ...missingDays(sorted),
+    ...duplicateFindings(extras.fileDuplicates ?? [], extras.journal ?? null, fmt),
+    ...zeroRuns(sorted),
+    ...constantRuns(sorted, opts.constantRun, fmt),
+    ...outliers(sorted, opts, fmt),
+  ].sort((a, b) => (a.date < b.date ? 1 : a.date > b.date ? -1 : a.kind.localeCompare(b.kind)));
+}
+
+/** Markdown checklist ("- [x]" for findings already marked as reviewed). */
+export function findingsToChecklist(title: string, findings: QualityFinding[], reviewed: Record<string, number>) {
+  const lines = [`# Data quality — ${title}`, "", `Generated ${new Date().toISOString().slice(0, 10)}`, ""];
+  for (const kind of Object.keys(QUALITY_KIND_LABELS) as QualityKind[]) {
+    const list = findings.filter((f) => f.kind === kind);
+    if (!list.length) continue;
+    lines.push(`## ${QUALITY_KIND_LABELS[kind]} (${list.length})`, "");
+    for (const f of list) lines.push(`- [${reviewed[f.id] ? "x" : " "}] ${f.message}`);
+    lines.push("");
+  }
+  return lines.join("\n");
+}
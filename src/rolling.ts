@@ -0,0 +1,129 @@
+import { windowValueDays } from "./gaps";
+import type { FilledSeries, GapPolicy, WindowValue } from "./gaps";
+
+/* -----------------------------
+   Rolling windows ("View as")
+   - One engine for every rolling view: window length in days + statistic
+   - sum / avg follow the gap policy exactly like the period tables
+     (pro-rata sums, coverage threshold); median / max use the days present
+     and the same threshold
+   - EWMA weighs each day by 2^(-age / half-life); missing days only age the
+     average. It is left blank once the last observation is older than the window
+   - Comparisons are the same for every spec: YoY = value at the prior-year
+     end date of the YoY basis (yoy.ts), period-over-period = value `window`
+     days earlier
+   - Everything runs on day numbers over the series' day index (dayIndex.ts):
+     sum / avg are O(1) per point
+----------------------------- */
+
+export type RollingStat = "sum" | "avg" | "median" | "max" | "ewma";
+
+export const ROLLING_STAT_LABELS: Record<RollingStat, string> = {
+  sum: "Sum",
+  avg: "Average",
+  median: "Median",
+  max: "Max",
+  ewma: "EWMA",
+};
+
+export type RollingSpec = {
+  /** days in the window (EWMA: staleness limit + comparison lag) */
+  window: number;
+  stat: RollingStat;
+  /** EWMA half-life in days */
+  halfLife: number;
+};
+
+export const MAX_ROLLING_WINDOW = 3650;
+export const DEFAULT_CUSTOM_ROLLING: RollingSpec = { window: 90, stat: "avg", halfLife: 14 };
+
+function clampInt(x: unknown, min: number, max: number, fallback: number) {
+  const n = Math.round(Number(x));
+  return Number.isFinite(n) ? Math.min(max, Math.max(min, n)) : fallback;
+}
+
+/** Well-formed spec from stored / typed input (bad fields fall back to the default). */
+export function normalizeRollingSpec(x: unknown): RollingSpec {
+  const o = (x && typeof x === "object" ? x : {}) as Partial<Record<keyof RollingSpec, unknown>>;
+  const stat = typeof o.stat === "string" && o.stat in ROLLING_STAT_LABELS ? (o.stat as RollingStat) : DEFAULT_CUSTOM_ROLLING.stat;
+  return {
+    window: clampInt(o.window, 1, MAX_ROLLING_WINDOW, DEFAULT_CUSTOM_ROLLING.window),
+    stat,
+    halfLife: clampInt(o.halfLife, 1, MAX_ROLLING_WINDOW, DEFAULT_CUSTOM_ROLLING.halfLife),
+  };
+}
+
+export function describeRolling(spec: RollingSpec) {
+  if (spec.stat === "ewma") return `EWMA (half-life ${spec.halfLife} day${spec.halfLife === 1 ? "" : "s"})`;
+  return `${spec.window}-day rolling ${ROLLING_STAT_LABELS[spec.stat].toLowerCase()}`;
+}
+
+/** Name of the period-over-period change for a window length. */
+export function periodOverPeriodLabel(spec: RollingSpec) {
+  if (spec.window === 7) return "WoW %";
+  return `vs prior ${spec.window}d %`;
+}
+
+/** Value ending at day number `endDay` for `spec`; build once per series + spec, then call per day. */
+export function createRolling(series: FilledSeries, spec: RollingSpec, policy: GapPolicy): (endDay: number) => WindowValue {
+  const { index } = series;
+  const { start, length, values } = index;
+  const n = spec.window;
+  const isFilled = (i: number) => index.filled[i + 1] > index.filled[i];
+
+  if (spec.stat === "sum" || spec.stat === "avg") {
+    const mode = spec.stat;
+    return (end) => windowValueDays(series, end - (n - 1), end, mode, policy);
+  }
+
+  if (spec.stat === "median" || spec.stat === "max") {
+    const pick =
+      spec.stat === "max"
+        ? (xs: number[]) => Math.max(...xs)
+        : (xs: number[]) => {
+            const s = [...xs].sort((a, b) => a - b);
+            const m = Math.floor(s.length / 2);
+            return s.length % 2 ? s[m] : (s[m - 1] + s[m]) / 2;
+          };
+    return (end) => {
+      const xs: number[] = [];
+      let anyFilled = false;
+      const from = Math.max(0, end - (n - 1) - start);
+      const to = Math.min(length - 1, end - start);
+      for (let i = from; i <= to; i++) {
+        const v = values[i];
+        if (Number.isNaN(v)) continue;
+        xs.push(v);
+        if (isFilled(i)) anyFilled = true;
+      }
+      const coverage = xs.length / n;
+      if (!xs.length || coverage + 1e-9 < policy.minCoverage) return { value: null, coverage, incomplete: true };
+      return { value: pick(xs), coverage, incomplete: xs.length < n || anyFilled };
+    };
+  }
+
+  // EWMA: one pass over the data span, then lookups
+  const ewma = new Float64Array(length);
+  const lastObs = new Int32Array(length);
+  const decay = 2 ** (-1 / spec.halfLife);
+  let num = 0;
+  let den = 0;
+  let last = 0;
+  for (let i = 0; i < length; i++) {
+    num *= decay;
+    den *= decay;
+    const v = values[i];
+    if (!Number.isNaN(v)) {
+      num += v;
+      den += 1;
+      last = i;
+    }
+    ewma[i] = num / den;
+    lastObs[i] = last;
+  }
+  return (end) => {
+    const i = end - start;
+    if (i < 0 || i >= length || lastObs[i] < i - (n - 1)) return { value: null, coverage: 0, incomplete: true };
+    return { value: ewma[i], coverage: 1, incomplete: Number.isNaN(values[i]) || isFilled(i) };
+  };
+}
@@ -0,0 +1,127 @@
+import { dayToIso, isoToDay, valueAtDay } from "./dayIndex";
+import { windowValueDays } from "./gaps";
+import type { FilledSeries, GapPolicy } from "./gaps";
+
+/* -----------------------------
+   Seasonal overlay (one line per FY on an Apr → Mar axis)
+   - Axis position = day of the FY in a non-leap year (0 = 1 Apr, 364 = 31 Mar);
+     29 Feb has no position of its own and is left out
+   - Values can be smoothed with a trailing average (gap policy applies)
+   - Band = min / median / max per position over the previous N complete or
+     partial FYs (the current FY never feeds its own band)
+----------------------------- */
+
+export const FY_AXIS_DAYS = 365;
+
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+// reference non-leap FY for axis <-> month-day (Apr 2001 → Mar 2002)
+const REF_START = isoToDay("2001-04-01");
+
+/** FY end year of a date: 2024-04-01 .. 2025-03-31 -> 2025 */
+export function fyOf(iso: string) {
+  const y = Number(iso.slice(0, 4));
+  return Number(iso.slice(5, 7)) >= 4 ? y + 1 : y;
+}
+
+export function fyName(fyEndYear: number) {
+  return `FY${String(fyEndYear).slice(2)}`;
+}
+
+/** Axis position of a date; null for 29 Feb */
+export function fyAxisIndex(iso: string): number | null {
+  const md = iso.slice(5);
+  if (md === "02-29") return null;
+  const refYear = Number(iso.slice(5, 7)) >= 4 ? 2001 : 2002;
+  return isoToDay(`${refYear}-${md}`) - REF_START;
+}
+
+/** "01 Apr" */
+export function fyAxisLabel(i: number) {
+  const iso = dayToIso(REF_START + i);
+  return `${iso.slice(8, 10)} ${MONTHS[Number(iso.slice(5, 7)) - 1]}`;
+}
+
+/** Date at axis position `i` of FY `fyEndYear` */
+export function fyAxisDate(i: number, fyEndYear: number) {
+  const md = dayToIso(REF_START + i).slice(5);
+  const y = Number(md.slice(0, 2)) >= 4 ? fyEndYear - 1 : fyEndYear;
+  return `${y}-${md}`;
+}
+
+export type SeasonalRow = {
+  /** axis position */
+  i: number;
+  label: string;
+  band: [number, number] | null;
+  median: number | null;
+  /** FY name -> value */
+  [fy: string]: number | string | null | [number, number];
+};
+
+export type SeasonalOverlay = {
+  /** FY end years with data, oldest first (current last) */
+  years: number[];
+  current: number | null;
+  /** previous FYs that feed the band */
+  bandYears: number[];
+  rows: SeasonalRow[];
+};
+
+function median(xs: number[]) {
+  const s = [...xs].sort((a, b) => a - b);
+  const m = Math.floor(s.length / 2);
+  return s.length % 2 ? s[m] : (s[m - 1] + s[m]) / 2;
+}
+
+export function seasonalOverlay(
+  series: FilledSeries,
+  opts: { smoothing: number; bandYears: number; policy: GapPolicy }
+): SeasonalOverlay {
+  const { points, index } = series;
+  if (!points.length) return { years: [], current: null, bandYears: [], rows: [] };
+
+  const current = fyOf(points[points.length - 1].date);
+  const first = fyOf(points[0].date);
+  const years: number[] = [];
+  for (let y = Math.max(first, current - opts.bandYears); y <= current; y++) years.push(y);
+  const bandYears = years.filter((y) => y !== current);
+  const lastDay = isoToDay(points[points.length - 1].date);
+
+  const valueAt = (iso: string) => {
+    const day = isoToDay(iso);
+    if (day > lastDay) return null;
+    if (opts.smoothing <= 1) return valueAtDay(index, day);
+    return windowValueDays(series, day - (opts.smoothing - 1), day, "avg", opts.policy).value;
+  };
+
+  const rows: SeasonalRow[] = [];
+  for (let i = 0; i < FY_AXIS_DAYS; i++) {
+    const row: SeasonalRow = { i, label: fyAxisLabel(i), band: null, median: null };
+    const past: number[] = [];
+    for (const y of years) {
+      const v = valueAt(fyAxisDate(i, y));
+      row[fyName(y)] = v;
+      if (v != null && y !== current) past.push(v);
+    }
+    if (past.length) {
+      row.band = [Math.min(...past), Math.max(...past)];
+      row.median = median(past);
+    }
+    rows.push(row);
+  }
+
+  return { years, current, bandYears, rows };
+}
+
+/** Where `value` sits against the band at its position: below / within / above, and how many past years were lower */
+export function seasonalStanding(overlay: SeasonalOverlay, iso: string, value: number) {
+  const i = fyAxisIndex(iso);
+  if (i == null) return null;
+  const row = overlay.rows[i];
+  if (!row?.band) return null;
+  const past = overlay.bandYears.map((y) => row[fyName(y)]).filter((v): v is number => typeof v === "number");
+  const lower = past.filter((v) => v < value).length;
+  const position = value < row.band[0] ? "below" : value > row.band[1] ? "above" : "within";
+  return { position: position as "below" | "within" | "above", lower, of: past.length, median: row.median };
+}
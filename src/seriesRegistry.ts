@@ -0,0 +1,228 @@
+import type { ElectricityDashboardProps } from "./ElectricityDashboard";
+import type { FetchSourceId } from "./fetchers";
+import type { IexMarket } from "./iex";
+import type { IntradayAggregate } from "./intraday";
+import type { PspField } from "./psp";
+import type { UnitId } from "./units";
+
+/* -----------------------------
+   Series registry
+   - One entry per daily series shown through ElectricityDashboard
+   - App builds the tab tree from this list (order = tab order)
+   - Entries sharing a `group` become sub-tabs under one top-level tab
+   - New dataset in public/data => add one entry here
+----------------------------- */
+
+export type CalcMode = "sum" | "avg";
+
+export type SeriesDefinition = {
+  /** Stable identifier; also used for storage keys and file names (was the `type` prop). */
+  id: string;
+  /** Label on the tab (or sub-tab when grouped). */
+  tabLabel: string;
+  title: string;
+  subtitle: string;
+  seriesLabel: string;
+  /** Unit the CSV (and storage) uses; the tab can display any compatible unit. */
+  unit: UnitId;
+  /** Path under /public, e.g. "/data/supply.csv". */
+  csvPath: string;
+  /** Header of the value column in the CSV (matched case/space-insensitively). */
+  valueColumnKey: string;
+  calcMode: CalcMode;
+  /** Decimals for the base unit (other units use their own). */
+  valueDisplay: { decimals: number };
+  /** Adapter behind "Auto-fetch latest" (see fetchers.ts); no button without one. */
+  fetchSource?: FetchSourceId;
+  /** Figure this series takes from the Grid-India PSP report (see psp.ts). */
+  pspField?: PspField;
+  /** IEX market whose snapshot files feed this price series + its bid / volume series (see iex.ts). */
+  market?: IexMarket;
+  /** Series takes 15-minute block files; how a day's blocks roll up to the daily value (see intraday.ts). */
+  intraday?: IntradayAggregate;
+  /** Id of a SeriesGroup; grouped series render as sub-tabs. */
+  group?: string;
+};
+
+export type SeriesGroup = {
+  id: string;
+  label: string;
+};
+
+export const SERIES_GROUPS: SeriesGroup[] = [{ id: "generation", label: "Generation" }];
+
+export const SERIES: SeriesDefinition[] = [
+  {
+    id: "generation",
+    tabLabel: "Total",
+    group: "generation",
+    title: "India Electricity Generation Dashboard",
+    subtitle: "Daily generation data, trends, and YoY/MoM analytics",
+    seriesLabel: "Generation",
+    unit: "MU",
+    csvPath: "/data/generation.csv",
+    valueColumnKey: "total",
+    pspField: "genTotal",
+    intraday: "sum",
+    calcMode: "sum",
+    valueDisplay: { decimals: 2 },
+    fetchSource: "cea-daily",
+  },
+  {
+    id: "generation-coal",
+    tabLabel: "Thermal (incl. Large Hydro)",
+    group: "generation",
+    title: "India Electricity Generation Dashboard",
+    subtitle: "Daily generation data, trends, and YoY/MoM analytics",
+    seriesLabel: "Coal",
+    unit: "MU",
+    csvPath: "/data/generation.csv",
+    valueColumnKey: "coal",
+    pspField: "genNonRes",
+    fetchSource: "cea-daily",
+    intraday: "sum",
+    calcMode: "sum",
+    valueDisplay: { decimals: 2 },
+  },
+  {
+    id: "generation-renewable",
+    tabLabel: "Renewable",
+    group: "generation",
+    title: "India Electricity Generation Dashboard",
+    subtitle: "Daily generation data, trends, and YoY/MoM analytics",
+    seriesLabel: "Renewable",
+    unit: "MU",
+    csvPath: "/data/generation.csv",
+    valueColumnKey: "renewable",
+    pspField: "genRes",
+    fetchSource: "cea-daily",
+    intraday: "sum",
+    calcMode: "sum",
+    valueDisplay: { decimals: 2 },
+  },
+  {
+    id: "demand",
+    tabLabel: "Peak Demand Met",
+    title: "India Peak Demand Met Dashboard",
+    subtitle: "Daily peak demand met data (GW), trends, and YoY/MoM analytics",
+    seriesLabel: "Peak Demand Met",
+    unit: "GW",
+    csvPath: "/data/Peak Demand.csv",
+    valueColumnKey: "demand_gwh",
+    pspField: "peakDemandMet",
+    fetchSource: "grid-india-daily",
+    intraday: "max",
+    calcMode: "avg",
+    valueDisplay: { decimals: 2 },
+  },
+  {
+    id: "supply",
+    tabLabel: "Supply",
+    title: "India Electricity Supply Dashboard",
+    subtitle: "Daily supply data, trends, and YoY/MoM analytics",
+    seriesLabel: "Supply",
+    unit: "MU",
+    csvPath: "/data/supply.csv",
+    valueColumnKey: "supply_gwh",
+    pspField: "energyMet",
+    fetchSource: "grid-india-daily",
+    intraday: "sum",
+    calcMode: "sum",
+    valueDisplay: { decimals: 2 },
+  },
+  {
+    id: "coal-plf",
+    tabLabel: "Coal PLF",
+    title: "India Coal PLF Dashboard",
+    subtitle: "Coal PLF trends, period averages, and YoY/WoW analytics",
+    seriesLabel: "Coal PLF",
+    unit: "%",
+    csvPath: "/data/Coal PLF.csv",
+    valueColumnKey: "coal_plf",
+    calcMode: "avg",
+    valueDisplay: { decimals: 2 },
+  },
+  {
+    id: "rtm-prices",
+    tabLabel: "RTM Prices",
+    title: "India RTM Prices Dashboard",
+    subtitle: "RTM price trends, period averages, and YoY/WoW analytics",
+    seriesLabel: "RTM Prices",
+    unit: "Rs/Unit",
+    csvPath: "/data/RTM Prices.csv",
+    valueColumnKey: "rtm_price",
+    fetchSource: "iex-prices",
+    market: "RTM",
+    intraday: "avg",
+    calcMode: "avg",
+    valueDisplay: { decimals: 2 },
+  },
+  {
+    id: "dam-prices",
+    tabLabel: "DAM Prices",
+    title: "India DAM Prices Dashboard",
+    subtitle: "DAM price trends, period averages, and YoY/WoW analytics",
+    seriesLabel: "DAM Prices",
+    unit: "Rs/Unit",
+    csvPath: "/data/DAM Prices.csv",
+    valueColumnKey: "DAM price",
+    fetchSource: "iex-prices",
+    market: "DAM",
+    intraday: "avg",
+    calcMode: "avg",
+    valueDisplay: { decimals: 2 },
+  },
+];
+
+/* -----------------------------
+   Tab tree
+----------------------------- */
+
+export type SeriesTabNode =
+  | { kind: "series"; series: SeriesDefinition }
+  | { kind: "group"; group: SeriesGroup; children: SeriesDefinition[] };
+
+export function buildSeriesTabs(series: SeriesDefinition[] = SERIES, groups: SeriesGroup[] = SERIES_GROUPS) {
+  const nodes: SeriesTabNode[] = [];
+  const groupNodes = new Map<string, Extract<SeriesTabNode, { kind: "group" }>>();
+
+  for (const s of series) {
+    if (!s.group) {
+      nodes.push({ kind: "series", series: s });
+      continue;
+    }
+
+    let node = groupNodes.get(s.group);
+    if (!node) {
+      const group = groups.find((g) => g.id === s.group) ?? { id: s.group, label: s.group };
+      node = { kind: "group", group, children: [] };
+      groupNodes.set(s.group, node);
+      nodes.push(node);
+    }
+    node.children.push(s);
+  }
+
+  return nodes;
+}
+
+export function getSeries(id: string) {
+  return SERIES.find((s) => s.id === id) ?? null;
+}
+
+export function toDashboardProps(s: SeriesDefinition): ElectricityDashboardProps {
+  return {
+    type: s.id,
+    title: s.title,
+    subtitle: s.subtitle,
+    seriesLabel: s.seriesLabel,
+    unit: s.unit,
+    valueColumnKey: s.valueColumnKey,
+    defaultCsvPath: s.csvPath,
+    fetchSource: s.fetchSource,
+    pspField: s.pspField,
+    market: s.market,
+    intraday: s.intraday,
+    calcMode: s.calcMode,
+    valueDisplay: s.valueDisplay,
+  };
+}
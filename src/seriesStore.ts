@@ -0,0 +1,72 @@
+import { datasetColumn, loadDataset } from "./dataset";
+import { diffSeriesStates, emptyJournal, recordEdit } from "./journal";
+import type { JournalAction } from "./journal";
+import { applyMerge, diffImport } from "./merge";
+import type { IncomingRow, MergePolicy } from "./merge";
+import { valuesOf } from "./provenance";
+import type { PointSource, SeriesPoint, SeriesState } from "./provenance";
+import { getSeries } from "./seriesRegistry";
+import { readKey, storageKeys, writeKey } from "./storage";
+
+/* -----------------------------
+   Writing to a series from outside its tab
+   - Used by importers that update several series in one step (a tab only
+     holds its own series in memory)
+   - Same merge + journal as an edit made in the tab, so the change shows up
+     in that series' audit log and can be undone there
+   - Only for series whose tab is NOT mounted; the mounted tab must go
+     through its own commitEdit or its next save would overwrite this
+   - Reads go through storedSeriesKey() so a v1 record is migrated against
+     its bundled column (file rows stay "file") before anything is written
+----------------------------- */
+
+/**
+ * Series key carrying the series' bundled column for the v1 migration.
+ * Series without a bundled file (IEX volume series) get an empty column:
+ * all their rows are user data. When the file can't be loaded the key has
+ * none, and a migrated record is not written back.
+ */
+export async function storedSeriesKey(seriesId: string) {
+  const def = getSeries(seriesId);
+  if (!def) return storageKeys.series(seriesId, new Map());
+  const bundled = await loadDataset(def.csvPath)
+    .then((ds) => datasetColumn(ds, def.valueColumnKey)?.values ?? new Map<string, number>())
+    .catch(() => undefined);
+  return storageKeys.series(seriesId, bundled);
+}
+
+function toState(rec: { points: Record<string, SeriesPoint>; removed: Record<string, number> } | undefined): SeriesState {
+  return {
+    points: new Map(Object.entries(rec?.points ?? {})),
+    removed: new Map(Object.entries(rec?.removed ?? {}).map(([d, ts]) => [d, Number(ts) || 0] as const)),
+  };
+}
+
+export async function mergeIntoStoredSeries(
+  seriesId: string,
+  rows: IncomingRow[],
+  opts: { action: JournalAction; note: string; author: string; source: PointSource; policy: MergePolicy }
+) {
+  const seriesKey = await storedSeriesKey(seriesId);
+  const prev = toState(await readKey(seriesKey));
+
+  const diff = diffImport(valuesOf(prev.points), rows);
+  const { next: points, written } = applyMerge(prev.points, diff, opts.policy, opts.source);
+  const removed = new Map(prev.removed);
+  for (const d of points.keys()) if (!prev.points.has(d)) removed.delete(d);
+  const next: SeriesState = { points, removed };
+
+  const changes = diffSeriesStates(prev, next);
+  if (!changes.length) return { written: 0, added: diff.added.length, changed: diff.changed.length };
+
+  await writeKey(seriesKey, {
+    points: Object.fromEntries(next.points.entries()),
+    removed: Object.fromEntries(next.removed.entries()),
+  });
+
+  const journalKey = storageKeys.journal(seriesId);
+  const journal = (await readKey(journalKey)) ?? emptyJournal();
+  await writeKey(journalKey, recordEdit(journal, { action: opts.action, note: opts.note, author: opts.author, changes }));
+
+  return { written, added: diff.added.length, changed: diff.changed.length };
+}
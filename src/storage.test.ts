@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { exportRecords, importRecords, readKey, storageKeys } from "./storage";
+
+// no IndexedDB under node: storage runs on its in-memory fallback
+
+describe("v1 series migration", () => {
+  const v1 = { "2024-04-01": 10, "2024-04-02": 12, "2024-04-03": 7 };
+
+  it("is not written back without the bundled column", async () => {
+    await importRecords([{ store: "series", key: "no-column", v: 1, value: v1, updatedAt: 0 }]);
+    const rec = await readKey(storageKeys.series("no-column"));
+    expect(Object.values(rec!.points).map((p) => p.source)).toEqual(["import", "import", "import"]);
+    const stored = (await exportRecords(["series"])).find((r) => r.key === "no-column");
+    expect(stored?.v).toBe(1);
+  });
+
+  it("tags rows matching the bundled column as file and writes the result back", async () => {
+    await importRecords([{ store: "series", key: "with-column", v: 1, value: v1, updatedAt: 0 }]);
+    const bundled = new Map([
+      ["2024-04-01", 10],
+      ["2024-04-02", 11],
+    ]);
+    const rec = await readKey(storageKeys.series("with-column", bundled));
+    expect(rec!.points["2024-04-01"].source).toBe("file");
+    expect(rec!.points["2024-04-02"].source).toBe("import"); // edited
+    expect(rec!.points["2024-04-03"].source).toBe("import"); // not in the file
+    const stored = (await exportRecords(["series"])).find((r) => r.key === "with-column");
+    expect(stored?.v).toBe(2);
+  });
+});
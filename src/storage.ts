@@ -0,0 +1,532 @@
+import { useEffect, useRef, useState } from "react";
+import type { Dispatch, SetStateAction } from "react";
+import type { SeriesJournal } from "./journal";
+import type { GapPolicy } from "./gaps";
+import type { IntradayRecord } from "./intraday";
+import type { ReconcilePolicy, SeriesPoint } from "./provenance";
+import type { YoyBasis } from "./yoy";
+import type { ForecastVintages } from "./forecastVintages";
+
+/* -----------------------------
+   Persistent storage (IndexedDB)
+   - Every persisted value goes through a typed StorageKey
+     (store + key + schema version + optional migration)
+   - Records are stored as { v, value, updatedAt }; a record written by an
+     older schema is migrated on read and written back
+   - Legacy localStorage blobs (tusk_india_*_v1, ratedCapacity_*, news/report
+     caches) are moved over once, then removed to free quota
+   - Write failures (quota, unavailable DB) are thrown as StorageError AND
+     broadcast to onStorageError() listeners so the UI can show them
+   - Falls back to an in-memory store when IndexedDB is unavailable
+----------------------------- */
+
+export type StoreName = "series" | "journal" | "settings" | "cache" | "intraday" | "forecasts";
+
+export type StorageKey<T> = {
+  store: StoreName;
+  key: string;
+  version: number;
+  /** upgrade a value written by an older schema version */
+  migrate?: (value: unknown, fromVersion: number) => T;
+  /** false: a migrated value is returned but not written back (the migration lacked context) */
+  writeBack?: boolean;
+};
+
+type StoredRecord = { v: number; value: unknown; updatedAt: number };
+
+export type StorageErrorKind = "quota" | "unavailable" | "schema" | "io";
+
+export class StorageError extends Error {
+  kind: StorageErrorKind;
+  constructor(kind: StorageErrorKind, message: string) {
+    super(message);
+    this.name = "StorageError";
+    this.kind = kind;
+  }
+}
+
+export function defineKey<T>(
+  store: StoreName,
+  key: string,
+  version: number,
+  migrate?: StorageKey<T>["migrate"]
+): StorageKey<T> {
+  return { store, key, version, migrate };
+}
+
+/* -----------------------------
+   Value types + known keys
+----------------------------- */
+
+/** v1: ISO date -> value (same shape as the old tusk_india_<type>_v1 blob) */
+export type SeriesPointsV1 = Record<string, number>;
+
+/** v2: per-point provenance + dates the user removed (so the bundled file doesn't bring them back) */
+export type SeriesRecordV2 = {
+  points: Record<string, SeriesPoint>;
+  removed: Record<string, number>;
+};
+
+/**
+ * v1 blobs were the bundled CSV plus the user's adds / updates / imports, with
+ * no record of which was which. Rows matching the bundled column are file rows;
+ * rows it lacks or disagrees with are the user's and become "import", so the
+ * default "user edits win" policy keeps them. Without the column to compare
+ * every row reads as "import" and the result is not written back, so the
+ * record stays v1 until a reader that has the column (see storedSeriesKey).
+ */
+function migrateSeries(value: unknown, fromVersion: number, bundled?: Map<string, number>): SeriesRecordV2 {
+  const out: SeriesRecordV2 = { points: {}, removed: {} };
+  if (fromVersion === 1 && value && typeof value === "object") {
+    for (const [d, v] of Object.entries(value as SeriesPointsV1)) {
+      const n = Number(v);
+      if (!Number.isFinite(n)) continue;
+      const source = bundled && bundled.get(d) === n ? "file" : "import";
+      out.points[d] = { value: n, source, updatedAt: 0 };
+    }
+  }
+  return out;
+}
+
+export type FeedCache = { ts: number; items: unknown[] };
+
+/** Per-series chart / table choices (restored when the tab opens) */
+export type SeriesViewPrefs = {
+  rangeDays: number;
+  aggFreq: string;
+  showUnitsSeries: boolean;
+  showPrevYearSeries: boolean;
+  showYoYSeries: boolean;
+  showMoMSeries: boolean;
+  showControlLines: boolean;
+  /** holiday bands on the daily chart; absent in prefs saved before the holiday calendar */
+  showHolidays?: boolean;
+  /** chart the seasonally adjusted series; absent in prefs saved before the decomposition view */
+  showAdjusted?: boolean;
+  /** forecast on the daily chart (forecast.ts); absent in prefs saved before forecasts */
+  showForecast?: boolean;
+  /** FY-end projection next to the YTD KPI; absent in prefs saved before it was optional */
+  showFyProjection?: boolean;
+  forecastModel?: string;
+  forecastHorizon?: number;
+  tablePeriod: "monthly" | "weekly" | "yearly";
+  /** display unit (UnitId); absent in prefs saved before units were switchable */
+  displayUnit?: string;
+  /** custom rolling window ("View as" → Custom); see rolling.ts */
+  rolling?: { window: number; stat: string; halfLife: number };
+};
+
+export type LastFetch = {
+  /** epoch ms */
+  at: number;
+  source: string;
+  added: number;
+  updated: number;
+};
+
+export const storageKeys = {
+  /** `bundled`: the series' column of the bundled CSV, used when migrating a v1 blob */
+  series: (seriesId: string, bundled?: Map<string, number>): StorageKey<SeriesRecordV2> => ({
+    ...defineKey<SeriesRecordV2>("series", seriesId, 2, (v, from) => migrateSeries(v, from, bundled)),
+    writeBack: bundled != null,
+  }),
+  journal: (seriesId: string) => defineKey<SeriesJournal>("journal", seriesId, 1),
+  /** 15-minute blocks behind a daily series (optional) */
+  intraday: (seriesId: string) => defineKey<IntradayRecord>("intraday", seriesId, 1),
+  /** saved forecast vintages (forecastVintages.ts) */
+  forecasts: (seriesId: string) => defineKey<ForecastVintages>("forecasts", seriesId, 1),
+  /** name recorded in the edit journal */
+  editorName: defineKey<string>("settings", "editorName", 1),
+  /** YoY comparison basis, shared by every tab */
+  yoyBasis: defineKey<YoyBasis>("settings", "yoyBasis", 1),
+  reconcilePolicy: (seriesId: string) => defineKey<ReconcilePolicy>("settings", `reconcile_${seriesId}`, 1),
+  viewPrefs: (seriesId: string) => defineKey<SeriesViewPrefs>("settings", `view_${seriesId}`, 1),
+  /** data-quality findings marked as reviewed: finding id -> epoch ms */
+  qualityReviewed: (seriesId: string) => defineKey<Record<string, number>>("settings", `quality_${seriesId}`, 1),
+  /** missing-data rules (coverage threshold + interpolation) */
+  gapPolicy: (seriesId: string) => defineKey<GapPolicy>("settings", `gaps_${seriesId}`, 1),
+  /** last successful auto-fetch */
+  lastFetch: (seriesId: string) => defineKey<LastFetch>("settings", `fetched_${seriesId}`, 1),
+  ratedCapacityInstalled: defineKey<Record<string, number>>("settings", "ratedCapacity_installed", 1),
+  ratedCapacityPLF: defineKey<Record<string, number>>("settings", "ratedCapacity_plf", 1),
+  ratedCapacityHistoryPLF: defineKey<Record<string, number>>("settings", "ratedCapacity_history_plf", 1),
+  newsCache: defineKey<FeedCache>("cache", "latestNews", 1),
+  reportsCache: defineKey<FeedCache>("cache", "latestReports", 1),
+};
+
+/* -----------------------------
+   Errors
+----------------------------- */
+
+const errorListeners = new Set<(e: StorageError) => void>();
+
+export function onStorageError(listener: (e: StorageError) => void) {
+  errorListeners.add(listener);
+  return () => {
+    errorListeners.delete(listener);
+  };
+}
+
+function report(e: StorageError) {
+  for (const l of errorListeners) l(e);
+  return e;
+}
+
+function toStorageError(err: unknown, what: string) {
+  if (err instanceof StorageError) return err;
+  const name = (err as { name?: string } | null)?.name;
+  if (name === "QuotaExceededError") {
+    return new StorageError("quota", `Browser storage is full — could not save ${what}. Free space or export a backup.`);
+  }
+  return new StorageError("io", `Could not save ${what} (${(err as Error)?.message || "unknown error"}).`);
+}
+
+/* -----------------------------
+   Database
+----------------------------- */
+
+const DB_NAME = "india-power-dashboard";
+const DB_VERSION = 4;
+const STORES: StoreName[] = ["series", "journal", "settings", "cache", "intraday", "forecasts"];
+const META_STORE = "meta";
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+const memory = new Map<string, StoredRecord>(); // fallback when IndexedDB is unavailable
+
+function memKey(store: string, key: string) {
+  return `${store}/${key}`;
+}
+
+function reqToPromise<T>(req: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function txDone(tx: IDBTransaction) {
+  return new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+function openDb() {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise<IDBDatabase | null>((resolve) => {
+    if (typeof indexedDB === "undefined") {
+      report(new StorageError("unavailable", "IndexedDB is not available — changes will not survive a reload."));
+      resolve(null);
+      return;
+    }
+
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      // v1: one object store per StoreName + meta; v2 adds "journal", v3 "intraday", v4 "forecasts"
+      for (const s of [...STORES, META_STORE]) {
+        if (!db.objectStoreNames.contains(s)) db.createObjectStore(s);
+      }
+    };
+
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => {
+      report(new StorageError("unavailable", "Could not open browser storage — changes will not survive a reload."));
+      resolve(null);
+    };
+    req.onblocked = () => {
+      report(new StorageError("unavailable", "Browser storage is blocked by another open tab of this dashboard."));
+    };
+  }).then(async (db) => {
+    if (db) await migrateLegacyLocalStorage(db);
+    return db;
+  });
+
+  return dbPromise;
+}
+
+/* -----------------------------
+   Legacy localStorage migration
+----------------------------- */
+
+const LEGACY_SERIES_KEY = /^tusk_india_(.+)_v1$/;
+
+const LEGACY_FIXED: Array<{ from: string; to: StorageKey<unknown> }> = [
+  { from: "ratedCapacity_installed", to: storageKeys.ratedCapacityInstalled },
+  { from: "ratedCapacity_plf", to: storageKeys.ratedCapacityPLF },
+  { from: "ratedCapacity_history_plf", to: storageKeys.ratedCapacityHistoryPLF },
+  { from: "latestNews_cache_v4", to: storageKeys.newsCache },
+  { from: "latestReports_cache_v3", to: storageKeys.reportsCache },
+];
+
+async function migrateLegacyLocalStorage(db: IDBDatabase) {
+  let ls: Storage;
+  try {
+    ls = window.localStorage;
+  } catch {
+    return;
+  }
+
+  const done = await reqToPromise(db.transaction(META_STORE).objectStore(META_STORE).get("legacyMigrated"));
+  if (done) return;
+
+  const moves: Array<{ from: string; to: StorageKey<unknown>; value: unknown }> = [];
+
+  for (let i = 0; i < ls.length; i++) {
+    const name = ls.key(i);
+    const m = name ? name.match(LEGACY_SERIES_KEY) : null;
+    if (!name || !m) continue;
+    moves.push({ from: name, to: storageKeys.series(m[1]), value: null });
+  }
+  for (const f of LEGACY_FIXED) if (ls.getItem(f.from) != null) moves.push({ ...f, value: null });
+
+  for (const mv of moves) {
+    try {
+      mv.value = JSON.parse(ls.getItem(mv.from) || "null");
+    } catch {
+      mv.value = null;
+    }
+  }
+
+  try {
+    const tx = db.transaction([...STORES, META_STORE], "readwrite");
+    for (const mv of moves) {
+      if (mv.value == null) continue;
+      const rec: StoredRecord = { v: 1, value: mv.value, updatedAt: Date.now() };
+      tx.objectStore(mv.to.store).put(rec, mv.to.key);
+    }
+    tx.objectStore(META_STORE).put(true, "legacyMigrated");
+    await txDone(tx);
+  } catch (err) {
+    // keep the localStorage copies; we'll try again next load
+    report(toStorageError(err, "data migrated from localStorage"));
+    return;
+  }
+
+  for (const mv of moves) ls.removeItem(mv.from);
+}
+
+/* -----------------------------
+   Typed API
+----------------------------- */
+
+async function getRecord(store: StoreName, key: string) {
+  const db = await openDb();
+  if (!db) return memory.get(memKey(store, key));
+  return (await reqToPromise(db.transaction(store).objectStore(store).get(key))) as StoredRecord | undefined;
+}
+
+async function putRecord(store: StoreName, key: string, rec: StoredRecord) {
+  const db = await openDb();
+  if (!db) {
+    memory.set(memKey(store, key), rec);
+    return;
+  }
+  const tx = db.transaction(store, "readwrite");
+  tx.objectStore(store).put(rec, key);
+  await txDone(tx);
+}
+
+export async function readKey<T>(k: StorageKey<T>): Promise<T | undefined> {
+  const rec = await getRecord(k.store, k.key);
+  if (!rec) return undefined;
+  if (rec.v === k.version) return rec.value as T;
+
+  if (rec.v < k.version && k.migrate) {
+    const value = k.migrate(rec.value, rec.v);
+    if (k.writeBack !== false) await writeKey(k, value).catch(() => undefined); // already reported
+    return value;
+  }
+
+  throw report(
+    new StorageError(
+      "schema",
+      `Stored ${k.store}/${k.key} uses schema v${rec.v}, this version of the dashboard expects v${k.version}.`
+    )
+  );
+}
+
+type Listener = (value: unknown) => void;
+const keyListeners = new Map<string, Set<Listener>>();
+
+export function subscribeKey<T>(k: StorageKey<T>, listener: (value: T | undefined) => void) {
+  const id = memKey(k.store, k.key);
+  if (!keyListeners.has(id)) keyListeners.set(id, new Set());
+  const set = keyListeners.get(id)!;
+  const l = listener as Listener;
+  set.add(l);
+  return () => {
+    set.delete(l);
+  };
+}
+
+function notify(store: StoreName, key: string, value: unknown) {
+  const set = keyListeners.get(memKey(store, key));
+  if (set) for (const l of set) l(value);
+}
+
+export async function writeKey<T>(k: StorageKey<T>, value: T) {
+  try {
+    await putRecord(k.store, k.key, { v: k.version, value, updatedAt: Date.now() });
+  } catch (err) {
+    throw report(toStorageError(err, `${k.store}/${k.key}`));
+  }
+  notify(k.store, k.key, value);
+}
+
+export async function deleteKey<T>(k: StorageKey<T>) {
+  const db = await openDb();
+  if (!db) memory.delete(memKey(k.store, k.key));
+  else {
+    const tx = db.transaction(k.store, "readwrite");
+    tx.objectStore(k.store).delete(k.key);
+    await txDone(tx);
+  }
+  notify(k.store, k.key, undefined);
+}
+
+export async function listKeys(store: StoreName): Promise<string[]> {
+  const db = await openDb();
+  if (!db) {
+    const prefix = `${store}/`;
+    return Array.from(memory.keys())
+      .filter((k) => k.startsWith(prefix))
+      .map((k) => k.slice(prefix.length));
+  }
+  const keys = await reqToPromise(db.transaction(store).objectStore(store).getAllKeys());
+  return keys.map(String);
+}
+
+/* -----------------------------
+   Raw records (workspace backup / restore)
+----------------------------- */
+
+export type RawRecord = { store: StoreName; key: string; v: number; value: unknown; updatedAt: number };
+
+/** StorageKey for a stored store/key pair, or null when this version doesn't know it. */
+export function resolveKey(store: StoreName, key: string): StorageKey<unknown> | null {
+  if (store === "series") return storageKeys.series(key);
+  if (store === "journal") return storageKeys.journal(key);
+  if (store === "intraday") return storageKeys.intraday(key);
+  if (store === "forecasts") return storageKeys.forecasts(key);
+  if (store === "settings") {
+    if (key.startsWith("reconcile_")) return storageKeys.reconcilePolicy(key.slice("reconcile_".length));
+    if (key.startsWith("view_")) return storageKeys.viewPrefs(key.slice("view_".length));
+    if (key.startsWith("quality_")) return storageKeys.qualityReviewed(key.slice("quality_".length));
+    if (key.startsWith("gaps_")) return storageKeys.gapPolicy(key.slice("gaps_".length));
+    if (key.startsWith("fetched_")) return storageKeys.lastFetch(key.slice("fetched_".length));
+    const fixed = [
+      storageKeys.editorName,
+      storageKeys.yoyBasis,
+      storageKeys.ratedCapacityInstalled,
+      storageKeys.ratedCapacityPLF,
+      storageKeys.ratedCapacityHistoryPLF,
+    ] as StorageKey<unknown>[];
+    return fixed.find((k) => k.key === key) ?? null;
+  }
+  if (store === "cache") {
+    return ([storageKeys.newsCache, storageKeys.reportsCache] as StorageKey<unknown>[]).find((k) => k.key === key) ?? null;
+  }
+  return null;
+}
+
+export async function exportRecords(stores: StoreName[]): Promise<RawRecord[]> {
+  const out: RawRecord[] = [];
+  for (const store of stores) {
+    for (const key of await listKeys(store)) {
+      const rec = await getRecord(store, key);
+      if (rec) out.push({ store, key, v: rec.v, value: rec.value, updatedAt: rec.updatedAt });
+    }
+  }
+  return out;
+}
+
+/**
+ * Writes raw records (as exported, any older schema version) in ONE transaction,
+ * optionally deleting other keys first. Records are migrated on their next read.
+ */
+export async function importRecords(records: RawRecord[], remove: Array<{ store: StoreName; key: string }> = []) {
+  const db = await openDb();
+  if (!db) {
+    for (const r of remove) memory.delete(memKey(r.store, r.key));
+    for (const r of records) memory.set(memKey(r.store, r.key), { v: r.v, value: r.value, updatedAt: r.updatedAt });
+    return;
+  }
+
+  try {
+    const stores = Array.from(new Set([...records, ...remove].map((r) => r.store)));
+    if (!stores.length) return;
+    const tx = db.transaction(stores, "readwrite");
+    for (const r of remove) tx.objectStore(r.store).delete(r.key);
+    for (const r of records) {
+      const rec: StoredRecord = { v: r.v, value: r.value, updatedAt: r.updatedAt };
+      tx.objectStore(r.store).put(rec, r.key);
+    }
+    await txDone(tx);
+  } catch (err) {
+    throw report(toStorageError(err, "the restored workspace"));
+  }
+}
+
+/* -----------------------------
+   React hook
+   - Starts from `fallback`, hydrates from storage, then persists every change
+   - Follows writes made elsewhere (other components, restore) via subscribeKey
+----------------------------- */
+
+export function usePersistentState<T>(
+  k: StorageKey<T>,
+  fallback: () => T
+): [T, Dispatch<SetStateAction<T>>, { loaded: boolean; error: StorageError | null }] {
+  const [value, setValue] = useState<T>(fallback);
+  const [loaded, setLoaded] = useState(false);
+  const [error, setError] = useState<StorageError | null>(null);
+  const synced = useRef<T | undefined>(undefined);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoaded(false);
+
+    readKey(k)
+      .then((v) => {
+        if (cancelled) return;
+        if (v !== undefined) {
+          synced.current = v;
+          setValue(v);
+        }
+      })
+      .catch((e) => {
+        if (!cancelled) setError(toStorageError(e, `${k.store}/${k.key}`));
+      })
+      .finally(() => {
+        if (!cancelled) setLoaded(true);
+      });
+
+    const unsubscribe = subscribeKey(k, (v) => {
+      if (v === undefined) return;
+      synced.current = v;
+      setValue(v);
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [k.store, k.key]);
+
+  useEffect(() => {
+    if (!loaded || value === synced.current) return;
+    synced.current = value;
+    writeKey(k, value).then(
+      () => setError(null),
+      (e) => setError(e)
+    );
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [value, loaded]);
+
+  return [value, setValue, { loaded, error }];
+}
@@ -0,0 +1,70 @@
+/* -----------------------------
+   Units
+   - Every series is stored in its base unit (the unit of its CSV)
+   - Units of the same dimension convert through `toBase`
+     (value in base unit = value × toBase)
+   - MU = GWh and BU = TWh; both spellings are offered because reports use both
+----------------------------- */
+
+export type UnitDimension = "energy" | "power" | "price" | "percent";
+
+export type UnitId = "MU" | "GWh" | "MWh" | "BU" | "TWh" | "GW" | "MW" | "Rs/Unit" | "Rs/kWh" | "Rs/MWh" | "%";
+
+export type UnitDefinition = {
+  id: UnitId;
+  label: string;
+  /** appended to formatted values */
+  suffix: string;
+  dimension: UnitDimension;
+  /** base units per one of this unit, within the dimension (MU, GW, Rs/Unit, %) */
+  toBase: number;
+  decimals: number;
+};
+
+export const UNITS: Record<UnitId, UnitDefinition> = {
+  MU: { id: "MU", label: "MU", suffix: " MU", dimension: "energy", toBase: 1, decimals: 2 },
+  GWh: { id: "GWh", label: "GWh", suffix: " GWh", dimension: "energy", toBase: 1, decimals: 2 },
+  MWh: { id: "MWh", label: "MWh", suffix: " MWh", dimension: "energy", toBase: 0.001, decimals: 0 },
+  BU: { id: "BU", label: "BU", suffix: " BU", dimension: "energy", toBase: 1000, decimals: 3 },
+  TWh: { id: "TWh", label: "TWh", suffix: " TWh", dimension: "energy", toBase: 1000, decimals: 3 },
+  GW: { id: "GW", label: "GW", suffix: " GW", dimension: "power", toBase: 1, decimals: 2 },
+  MW: { id: "MW", label: "MW", suffix: " MW", dimension: "power", toBase: 0.001, decimals: 0 },
+  "Rs/Unit": { id: "Rs/Unit", label: "Rs/Unit", suffix: " Rs/Unit", dimension: "price", toBase: 1, decimals: 2 },
+  "Rs/kWh": { id: "Rs/kWh", label: "Rs/kWh", suffix: " Rs/kWh", dimension: "price", toBase: 1, decimals: 2 },
+  "Rs/MWh": { id: "Rs/MWh", label: "Rs/MWh", suffix: " Rs/MWh", dimension: "price", toBase: 0.001, decimals: 0 },
+  "%": { id: "%", label: "%", suffix: "%", dimension: "percent", toBase: 1, decimals: 2 },
+};
+
+export function isUnitId(x: unknown): x is UnitId {
+  return typeof x === "string" && Object.prototype.hasOwnProperty.call(UNITS, x);
+}
+
+/** Units a value in `unit` can be shown in (including itself), in declaration order. */
+export function compatibleUnits(unit: UnitId): UnitId[] {
+  const dim = UNITS[unit].dimension;
+  return (Object.keys(UNITS) as UnitId[]).filter((u) => UNITS[u].dimension === dim);
+}
+
+/** Multiplier taking a value in `from` to `to`; throws for units of different dimensions. */
+export function unitFactor(from: UnitId, to: UnitId) {
+  if (UNITS[from].dimension !== UNITS[to].dimension) throw new Error(`Cannot convert ${from} to ${to}`);
+  return UNITS[from].toBase / UNITS[to].toBase;
+}
+
+export function convertValue(x: number, from: UnitId, to: UnitId) {
+  return from === to ? x : x * unitFactor(from, to);
+}
+
+/**
+ * Unit named at the end of a column header, e.g. "supply (TWh)" or "price_rs/mwh".
+ * Only units compatible with `base` are recognised.
+ */
+export function unitFromHeader(header: string, base: UnitId): UnitId | null {
+  const h = (header || "").trim().toLowerCase();
+  const candidates = compatibleUnits(base).sort((a, b) => b.length - a.length);
+  for (const u of candidates) {
+    const l = u.toLowerCase();
+    if (h.endsWith(`(${l})`) || h.endsWith(`_${l}`) || h.endsWith(` ${l}`)) return u;
+  }
+  return null;
+}
@@ -0,0 +1,24 @@
+import { useMemo } from "react";
+import { useAnalysis } from "./analysisWorker";
+import type { AnalysisTask } from "./analysisTasks";
+import { computeChartSeries, isHeavyChartRequest } from "./chartSeries";
+import type { ChartRequest, DailyChartPoint } from "./chartSeries";
+
+/* -----------------------------
+   Chart series hook
+   - Light requests are computed inline (same render, no flicker)
+   - Heavy ones go to the shared analysis worker (analysisWorker.ts); the
+     previous points stay on screen until the answer arrives
+   - No worker (or a worker error): computed inline as before
+----------------------------- */
+
+export function useChartSeries(req: ChartRequest | null): { points: DailyChartPoint[]; pending: boolean } {
+  const heavy = req ? isHeavyChartRequest(req) : false;
+  const inline = useMemo(() => (req && !heavy ? computeChartSeries(req) : null), [req, heavy]);
+  const task = useMemo<AnalysisTask<"chart"> | null>(() => (req && heavy ? { kind: "chart", req } : null), [req, heavy]);
+  const { result, pending } = useAnalysis(task);
+
+  if (!req) return { points: [], pending: false };
+  if (inline) return { points: inline, pending: false };
+  return { points: result ?? [], pending };
+}
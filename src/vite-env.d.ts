@@ -0,0 +1,6 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** Base URL of the auto-fetch sources (dev default: /fixtures/mock-sources; unset in production = no auto-fetch) */
+  readonly VITE_FETCH_BASE_URL?: string;
+}
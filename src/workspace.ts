@@ -0,0 +1,227 @@
+import { IEX_VOLUME_FIELDS, parseMarketSeriesId } from "./iex";
+import { SERIES } from "./seriesRegistry";
+import { exportRecords, importRecords, listKeys, readKey, resolveKey } from "./storage";
+import type { RawRecord, StoreName } from "./storage";
+
+/* -----------------------------
+   Workspace bundle (backup / restore)
+   - One versioned JSON file with every persisted series, its 15-minute
+     blocks, its edit journal, forecast vintages, view preferences and the
+     Rated Capacity inputs
+   - Caches (news / reports) are not included; they refill themselves
+   - Records keep their own schema version, so a bundle written by an older
+     dashboard is migrated on read like any other stored value
+----------------------------- */
+
+export const WORKSPACE_FORMAT = "india-power-dashboard/workspace";
+export const WORKSPACE_VERSION = 1;
+
+const BUNDLED_STORES: StoreName[] = ["series", "journal", "settings", "intraday", "forecasts"];
+
+export type WorkspaceBundle = {
+  format: typeof WORKSPACE_FORMAT;
+  version: number;
+  exportedAt: string;
+  records: RawRecord[];
+};
+
+export type WorkspaceChange = {
+  store: StoreName;
+  key: string;
+  /** human label (series tab / setting name) */
+  label: string;
+  kind: "replace" | "add" | "remove";
+  /** short description of what is stored now vs in the bundle */
+  current: string;
+  incoming: string;
+};
+
+export type WorkspacePreview = {
+  bundle: WorkspaceBundle;
+  changes: WorkspaceChange[];
+  /** records skipped because this dashboard doesn't know them */
+  skipped: string[];
+};
+
+export async function buildWorkspaceBundle(): Promise<WorkspaceBundle> {
+  const records = await exportRecords(BUNDLED_STORES);
+  return { format: WORKSPACE_FORMAT, version: WORKSPACE_VERSION, exportedAt: new Date().toISOString(), records };
+}
+
+function isObject(x: unknown): x is Record<string, unknown> {
+  return !!x && typeof x === "object" && !Array.isArray(x);
+}
+
+/** Throws with a readable message when the file is not a usable bundle. */
+export function parseWorkspaceBundle(text: string): { bundle: WorkspaceBundle; skipped: string[] } {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error("Not a workspace file (invalid JSON).");
+  }
+
+  if (!isObject(raw) || raw.format !== WORKSPACE_FORMAT) throw new Error("Not a workspace file (unknown format).");
+  if (typeof raw.version !== "number" || raw.version > WORKSPACE_VERSION) {
+    throw new Error(`Workspace file version ${String(raw.version)} is newer than this dashboard supports (v${WORKSPACE_VERSION}).`);
+  }
+  if (!Array.isArray(raw.records)) throw new Error("Workspace file has no records.");
+
+  const records: RawRecord[] = [];
+  const skipped: string[] = [];
+
+  raw.records.forEach((r: unknown, i: number) => {
+    if (!isObject(r) || typeof r.store !== "string" || typeof r.key !== "string" || typeof r.v !== "number") {
+      skipped.push(`Record ${i + 1}: malformed`);
+      return;
+    }
+    const store = r.store as StoreName;
+    const name = `${store}/${r.key}`;
+    if (!BUNDLED_STORES.includes(store)) {
+      skipped.push(`${name}: not restorable`);
+      return;
+    }
+    const k = resolveKey(store, r.key);
+    if (!k) {
+      skipped.push(`${name}: unknown to this dashboard`);
+      return;
+    }
+    if (r.v > k.version || (r.v < k.version && !k.migrate)) {
+      skipped.push(`${name}: schema v${r.v} cannot be read (expects v${k.version})`);
+      return;
+    }
+    if (r.value == null) {
+      skipped.push(`${name}: empty`);
+      return;
+    }
+    if ((store === "series" || store === "journal" || store === "intraday") && !isObject(r.value)) {
+      skipped.push(`${name}: unexpected value`);
+      return;
+    }
+    if (store === "series" && r.v >= 2 && !isObject((r.value as Record<string, unknown>).points)) {
+      skipped.push(`${name}: series without points`);
+      return;
+    }
+    records.push({ store, key: r.key, v: r.v, value: r.value, updatedAt: Number(r.updatedAt) || Date.now() });
+  });
+
+  if (!records.length) throw new Error("Workspace file contains nothing this dashboard can restore.");
+
+  return {
+    bundle: { format: WORKSPACE_FORMAT, version: raw.version, exportedAt: String(raw.exportedAt ?? ""), records },
+    skipped,
+  };
+}
+
+/* -----------------------------
+   Preview
+----------------------------- */
+
+const SETTING_LABELS: Record<string, string> = {
+  editorName: "Audit log name",
+  yoyBasis: "YoY comparison basis",
+  ratedCapacity_installed: "Rated Capacity — installed capacity",
+  ratedCapacity_plf: "Rated Capacity — PLF",
+  ratedCapacity_history_plf: "Rated Capacity — historical PLF",
+};
+
+function seriesName(id: string): string {
+  const related = parseMarketSeriesId(id);
+  if (related) return `${seriesName(related.seriesId)} — ${IEX_VOLUME_FIELDS[related.field].label.toLowerCase()}`;
+  return SERIES.find((s) => s.id === id)?.tabLabel ?? id;
+}
+
+function labelFor(store: StoreName, key: string) {
+  if (store === "series") return seriesName(key);
+  if (store === "journal") return `${seriesName(key)} — audit log`;
+  if (store === "intraday") return `${seriesName(key)} — 15-minute blocks`;
+  if (store === "forecasts") return `${seriesName(key)} — forecast vintages`;
+  if (key.startsWith("reconcile_")) return `${seriesName(key.slice("reconcile_".length))} — file reload policy`;
+  if (key.startsWith("view_")) return `${seriesName(key.slice("view_".length))} — view preferences`;
+  if (key.startsWith("quality_")) return `${seriesName(key.slice("quality_".length))} — reviewed data-quality findings`;
+  if (key.startsWith("gaps_")) return `${seriesName(key.slice("gaps_".length))} — missing-data rules`;
+  if (key.startsWith("fetched_")) return `${seriesName(key.slice("fetched_".length))} — last auto-fetch`;
+  return SETTING_LABELS[key] ?? key;
+}
+
+function describeValue(store: StoreName, v: number, value: unknown) {
+  if (value == null) return "—";
+  if (store === "series") {
+    // v1: date -> number, v2: { points, removed }
+    const points = v === 1 ? (value as Record<string, unknown>) : isObject(value) ? (value.points as Record<string, unknown>) : null;
+    const dates = points ? Object.keys(points).sort() : [];
+    return dates.length ? `${dates.length} days (${dates[0]} → ${dates[dates.length - 1]})` : "no data";
+  }
+  if (store === "intraday") {
+    const days = isObject(value) && isObject(value.days) ? Object.keys(value.days).sort() : [];
+    return days.length ? `${days.length} days of blocks (${days[0]} → ${days[days.length - 1]})` : "no data";
+  }
+  if (store === "journal") {
+    const entries = isObject(value) && Array.isArray(value.entries) ? value.entries.length : 0;
+    return `${entries} entries`;
+  }
+  if (store === "forecasts") {
+    const vintages = isObject(value) && Array.isArray(value.vintages) ? value.vintages.length : 0;
+    return `${vintages} vintages`;
+  }
+  if (typeof value === "string") return value || "(empty)";
+  if (isObject(value)) return `${Object.keys(value).length} fields`;
+  return String(value);
+}
+
+/**
+ * What restoring `bundle` would do to the current workspace.
+ * `replaceAll` also removes stored series / settings the bundle doesn't contain.
+ */
+export async function previewWorkspaceRestore(
+  bundle: WorkspaceBundle,
+  skipped: string[],
+  replaceAll: boolean
+): Promise<WorkspacePreview> {
+  const changes: WorkspaceChange[] = [];
+  const incoming = new Set(bundle.records.map((r) => `${r.store}/${r.key}`));
+
+  for (const r of bundle.records) {
+    const k = resolveKey(r.store, r.key)!;
+    const current = await readKey(k).catch(() => undefined);
+    changes.push({
+      store: r.store,
+      key: r.key,
+      label: labelFor(r.store, r.key),
+      kind: current === undefined ? "add" : "replace",
+      current: current === undefined ? "—" : describeValue(r.store, k.version, current),
+      incoming: describeValue(r.store, r.v, r.value),
+    });
+  }
+
+  if (replaceAll) {
+    for (const store of BUNDLED_STORES) {
+      for (const key of await listKeys(store)) {
+        if (incoming.has(`${store}/${key}`)) continue;
+        const k = resolveKey(store, key);
+        const current = k ? await readKey(k).catch(() => undefined) : undefined;
+        changes.push({
+          store,
+          key,
+          label: labelFor(store, key),
+          kind: "remove",
+          current: k ? describeValue(store, k.version, current) : "unknown record",
+          incoming: "—",
+        });
+      }
+    }
+  }
+
+  const order: Record<StoreName, number> = { series: 0, intraday: 1, journal: 2, forecasts: 3, settings: 4, cache: 5 };
+  changes.sort((a, b) => order[a.store] - order[b.store] || a.label.localeCompare(b.label));
+  return { bundle, changes, skipped };
+}
+
+export function workspaceFileName() {
+  return `india_power_workspace_${new Date().toISOString().slice(0, 10)}.json`;
+}
+
+export async function restoreWorkspace(preview: WorkspacePreview) {
+  const remove = preview.changes.filter((c) => c.kind === "remove").map((c) => ({ store: c.store, key: c.key }));
+  await importRecords(preview.bundle.records, remove);
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { dayToIso, isoToDay } from "./dayIndex";
+import { DEFAULT_GAP_POLICY, fillGaps } from "./gaps";
+import { leapDaysIn, priorYearDay, priorYearWindow, yoyWindows } from "./yoy";
+import type { YoyBasis } from "./yoy";
+
+const prior = (iso: string, basis: YoyBasis) => {
+  const d = priorYearDay(isoToDay(iso), basis);
+  return d == null ? null : dayToIso(d);
+};
+
+const priorWindow = (from: string, to: string, basis: YoyBasis) => priorYearWindow(isoToDay(from), isoToDay(to), basis).map(dayToIso);
+
+describe("priorYearDay", () => {
+  it("calendar: same date, 29 Feb -> 28 Feb", () => {
+    expect(prior("2025-04-10", "calendar")).toBe("2024-04-10");
+    expect(prior("2024-02-29", "calendar")).toBe("2023-02-28");
+  });
+
+  it("weekday: same ISO week and weekday, 364 or 371 days back", () => {
+    expect(prior("2025-04-10", "weekday")).toBe("2024-04-11");
+    // 2026 has 53 ISO weeks
+    expect(prior("2027-04-08", "weekday")).toBe("2026-04-02");
+    // week 53 has no match: 364 days
+    expect(prior("2026-12-31", "weekday")).toBe("2026-01-01");
+  });
+
+  it("leap: 29 Feb has no prior day", () => {
+    expect(prior("2024-02-29", "leap")).toBeNull();
+    expect(prior("2024-03-01", "leap")).toBe("2023-03-01");
+  });
+
+  it("festival: same offset from last year's festival, calendar elsewhere", () => {
+    // Diwali 2024-10-31 + 2 -> Diwali 2023-11-12 + 2
+    expect(prior("2024-11-02", "festival")).toBe("2023-11-14");
+    expect(prior("2024-08-01", "festival")).toBe("2023-08-01");
+    // past the holiday calendar
+    expect(prior("2030-11-01", "festival")).toBe("2029-11-01");
+  });
+});
+
+describe("priorYearWindow", () => {
+  it("shifts a short festival window by its end day's offset", () => {
+    expect(priorWindow("2024-10-27", "2024-11-02", "festival")).toEqual(["2023-11-08", "2023-11-14"]);
+  });
+
+  it("keeps long windows on calendar dates", () => {
+    expect(priorWindow("2024-04-01", "2024-11-02", "festival")).toEqual(["2023-04-01", "2023-11-02"]);
+    expect(priorWindow("2024-02-01", "2024-02-29", "calendar")).toEqual(["2023-02-01", "2023-02-28"]);
+  });
+});
+
+describe("yoyWindows", () => {
+  // 1 per day from Feb 2023 to Mar 2024
+  const start = isoToDay("2023-02-01");
+  const series = fillGaps(
+    Array.from({ length: isoToDay("2024-03-31") - start + 1 }, (_, i) => ({ date: dayToIso(start + i), value: 1 })),
+    "none"
+  );
+  const feb = (basis: YoyBasis) => yoyWindows(series, isoToDay("2024-02-01"), isoToDay("2024-02-29"), "sum", DEFAULT_GAP_POLICY, basis);
+
+  it("compares a leap February with 28 days last year on the calendar basis", () => {
+    const { curr, prev } = feb("calendar");
+    expect([curr.value, prev.value]).toEqual([29, 28]);
+  });
+
+  it("drops 29 Feb from the current side on the leap basis", () => {
+    const { curr, prev } = feb("leap");
+    expect([curr.value, prev.value]).toEqual([28, 28]);
+    expect(curr.incomplete).toBe(false);
+  });
+
+  it("lists the leap days of a range", () => {
+    expect(leapDaysIn(isoToDay("2023-01-01"), isoToDay("2028-12-31")).map(dayToIso)).toEqual(["2024-02-29", "2028-02-29"]);
+    expect(leapDaysIn(isoToDay("2100-01-01"), isoToDay("2100-12-31"))).toEqual([]);
+  });
+});
@@ -0,0 +1,131 @@
+import { dayToIso, isoToDay } from "./dayIndex";
+import { windowValueDays } from "./gaps";
+import type { FilledSeries, GapPolicy, WindowValue } from "./gaps";
+import { FESTIVAL_WINDOW_DAYS, festivalPriorDay } from "./holidays";
+
+/* -----------------------------
+   YoY comparison basis (one setting for charts, KPIs and tables)
+   - calendar: same calendar date last year (29 Feb -> 28 Feb)
+   - weekday:  same ISO week + weekday last year, i.e. 364 days back, or 371
+               when last year had 53 ISO weeks (week 53 with no match: 364)
+   - leap:     calendar dates, with 29 Feb left out of both sides (a leap
+               day has no comparison of its own)
+   - festival: within FESTIVAL_WINDOW_DAYS of a moving festival (Diwali,
+               Holi, Eid, ...), the same offset from last year's festival
+               (holidays.ts); calendar dates elsewhere and outside the
+               calendar's years
+   - A window [start, end] is compared with [prior(start), prior(end)]; the
+     festival basis shifts the whole window by its end day's offset (windows
+     longer than FESTIVAL_MAX_WINDOW, e.g. YTD / FY, stay on calendar dates)
+----------------------------- */
+
+export type YoyBasis = "calendar" | "weekday" | "leap" | "festival";
+
+export const YOY_BASIS_LABELS: Record<YoyBasis, string> = {
+  calendar: "Same calendar date",
+  weekday: "Same weekday (364 / 371 days)",
+  leap: "Calendar, 29 Feb excluded",
+  festival: `Festival-aligned (±${FESTIVAL_WINDOW_DAYS} days)`,
+};
+
+/** Short form for tooltips / KPI captions */
+export const YOY_BASIS_SHORT: Record<YoyBasis, string> = {
+  calendar: "same date last year",
+  weekday: "same weekday last year",
+  leap: "same date last year, excl. 29 Feb",
+  festival: "festival-aligned day last year",
+};
+
+export const DEFAULT_YOY_BASIS: YoyBasis = "calendar";
+
+const FESTIVAL_MAX_WINDOW = 62;
+
+export function isYoyBasis(x: unknown): x is YoyBasis {
+  return typeof x === "string" && x in YOY_BASIS_LABELS;
+}
+
+function calendarPrior(day: number) {
+  const iso = dayToIso(day);
+  const y = Number(iso.slice(0, 4)) - 1;
+  const md = iso.slice(5) === "02-29" ? "02-28" : iso.slice(5);
+  return isoToDay(`${y}-${md}`);
+}
+
+/** Monday of ISO week 1 of `isoYear` */
+function isoWeekOneMonday(isoYear: number) {
+  const jan4 = isoToDay(`${isoYear}-01-04`);
+  return jan4 - ((jan4 + 3) % 7);
+}
+
+function weekdayPrior(day: number) {
+  const dow = (day + 3) % 7; // 0 = Monday (day 0 was a Thursday)
+  const isoYear = Number(dayToIso(day - dow + 3).slice(0, 4));
+  const week = Math.floor((day - isoWeekOneMonday(isoYear)) / 7);
+  const prevStart = isoWeekOneMonday(isoYear - 1);
+  const prevWeeks = (isoWeekOneMonday(isoYear) - prevStart) / 7;
+  return week < prevWeeks ? prevStart + week * 7 + dow : day - 364;
+}
+
+function isLeapDay(day: number) {
+  return dayToIso(day).slice(5) === "02-29";
+}
+
+/** Day compared with `day` for a single-day YoY; null when there is none (leap basis on 29 Feb). */
+export function priorYearDay(day: number, basis: YoyBasis): number | null {
+  if (basis === "weekday") return weekdayPrior(day);
+  if (basis === "leap" && isLeapDay(day)) return null;
+  if (basis === "festival") return festivalPriorDay(day) ?? calendarPrior(day);
+  return calendarPrior(day);
+}
+
+/** Window compared with [startDay, endDay] */
+export function priorYearWindow(startDay: number, endDay: number, basis: YoyBasis): [number, number] {
+  if (basis === "weekday") return [weekdayPrior(startDay), weekdayPrior(endDay)];
+  if (basis === "festival" && endDay - startDay < FESTIVAL_MAX_WINDOW) {
+    const shift = endDay - (festivalPriorDay(endDay) ?? calendarPrior(endDay));
+    return [startDay - shift, endDay - shift];
+  }
+  // calendar shift of both ends; a window ending on 29 Feb ends on 28 Feb last year
+  return [calendarPrior(startDay), calendarPrior(endDay)];
+}
+
+/** 29 Feb days in [startDay, endDay] */
+export function leapDaysIn(startDay: number, endDay: number) {
+  const out: number[] = [];
+  const y0 = Number(dayToIso(startDay).slice(0, 4));
+  const y1 = Number(dayToIso(endDay).slice(0, 4));
+  for (let y = y0; y <= y1; y++) {
+    if ((y % 4 !== 0 || y % 100 === 0) && y % 400 !== 0) continue;
+    const d = isoToDay(`${y}-02-29`);
+    if (d >= startDay && d <= endDay) out.push(d);
+  }
+  return out;
+}
+
+/** One side of a YoY comparison: the window value under the basis (leap basis drops 29 Feb). */
+export function comparableWindow(
+  series: FilledSeries,
+  startDay: number,
+  endDay: number,
+  mode: "sum" | "avg",
+  policy: GapPolicy,
+  basis: YoyBasis
+): WindowValue {
+  return windowValueDays(series, startDay, endDay, mode, policy, basis === "leap" ? leapDaysIn(startDay, endDay) : undefined);
+}
+
+/** Both sides of a YoY comparison for [startDay, endDay] */
+export function yoyWindows(
+  series: FilledSeries,
+  startDay: number,
+  endDay: number,
+  mode: "sum" | "avg",
+  policy: GapPolicy,
+  basis: YoyBasis
+) {
+  const [ps, pe] = priorYearWindow(startDay, endDay, basis);
+  return {
+    curr: comparableWindow(series, startDay, endDay, mode, policy, basis),
+    prev: comparableWindow(series, ps, pe, mode, policy, basis),
+  };
+}